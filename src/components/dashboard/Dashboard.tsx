@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import { Building2, X, FileText, AlertCircle, Filter, Eye } from "lucide-react";
+import { Building2, X, FileText, AlertCircle, Filter, Eye, Pencil } from "lucide-react";
 import { Client } from "../../types";
 import { MetricsDisplay } from "../shared/MetricsDisplay";
 import { DateFilter } from "../shared/DateFilter";
@@ -8,6 +8,7 @@ import { MetricsViewer } from "../shared/MetricsViewer";
 import { UnifiedFilterControls } from "../shared/UnifiedFilterControls";
 import { SetupGuidance, useSetupGuidance } from "../shared/SetupGuidance";
 import { ProjectionsPacingSection } from "../shared/ProjectionsPacingSection";
+import { MetricEntryModal } from "../shared/MetricEntryModal";
 // DatabaseStatusBanner removed
 // TaskQueueDisplay removed - no longer needed
 // OverviewTab removed - functionality consolidated into Dashboard
@@ -39,6 +40,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ userId, client }) => {
   const { refreshDashboardData } = useConsolidatedData();
   // No tabs needed - single overview page
   const [metricsRefreshTrigger, setMetricsRefreshTrigger] = useState(0);
+  const [isMetricEntryOpen, setIsMetricEntryOpen] = useState(false);
 
   // Filter system (for undeniable users)
   const {
@@ -450,6 +452,21 @@ export const Dashboard: React.FC<DashboardProps> = ({ userId, client }) => {
                       buttonClassName="flex items-center justify-center p-2 text-gray-900 hover:text-black hover:bg-white/10 rounded-lg transition-all duration-200 group relative"
                       buttonText=""
                     />
+
+                    {/* Correct a metric and write it back to the sheet */}
+                    {permissions.canSyncData && (
+                      <button
+                        onClick={() => setIsMetricEntryOpen(true)}
+                        className="flex items-center justify-center p-2 text-gray-900 hover:text-black hover:bg-white/10 rounded-lg transition-all duration-200 group relative"
+                        title="Edit Metric"
+                      >
+                        <Pencil className="h-4 w-4 text-gray-900 group-hover:text-black" />
+                        {/* Tooltip */}
+                        <div className="absolute -top-10 left-1/2 transform -translate-x-1/2 bg-black text-white text-xs px-2 py-1 rounded opacity-0 group-hover:opacity-100 transition-opacity duration-200 pointer-events-none whitespace-nowrap">
+                          Edit Metric
+                        </div>
+                      </button>
+                    )}
                   </div>
                 </div>
                 {/* Single Overview Page - No tabs needed */}
@@ -512,6 +529,13 @@ export const Dashboard: React.FC<DashboardProps> = ({ userId, client }) => {
         )}
 
         {/* TaskQueueDisplay removed - no longer needed */}
+
+        <MetricEntryModal
+          isOpen={isMetricEntryOpen}
+          onClose={() => setIsMetricEntryOpen(false)}
+          clientId={undefined}
+          onSave={refreshDashboardData}
+        />
       </div>
     );
   } else if (permissions.isClient && client) {
@@ -546,6 +570,21 @@ export const Dashboard: React.FC<DashboardProps> = ({ userId, client }) => {
                       buttonClassName="flex items-center justify-center p-2 text-gray-900 hover:text-black hover:bg-white/10 rounded-lg transition-all duration-200 group relative"
                       buttonText=""
                     />
+
+                    {/* Correct a metric and write it back to the sheet */}
+                    {permissions.canSyncData && (
+                      <button
+                        onClick={() => setIsMetricEntryOpen(true)}
+                        className="flex items-center justify-center p-2 text-gray-900 hover:text-black hover:bg-white/10 rounded-lg transition-all duration-200 group relative"
+                        title="Edit Metric"
+                      >
+                        <Pencil className="h-4 w-4 text-gray-900 group-hover:text-black" />
+                        {/* Tooltip */}
+                        <div className="absolute -top-10 left-1/2 transform -translate-x-1/2 bg-black text-white text-xs px-2 py-1 rounded opacity-0 group-hover:opacity-100 transition-opacity duration-200 pointer-events-none whitespace-nowrap">
+                          Edit Metric
+                        </div>
+                      </button>
+                    )}
                   </div>
                 </div>
                 {/* Single Overview Page - No tabs needed */}
@@ -556,6 +595,13 @@ export const Dashboard: React.FC<DashboardProps> = ({ userId, client }) => {
           {/* Content with same container width */}
           <div className="py-6">{renderContent()}</div>
         </div>
+
+        <MetricEntryModal
+          isOpen={isMetricEntryOpen}
+          onClose={() => setIsMetricEntryOpen(false)}
+          clientId={client.id}
+          onSave={refreshDashboardData}
+        />
       </div>
     );
   } else {
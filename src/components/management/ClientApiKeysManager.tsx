@@ -0,0 +1,239 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Copy, KeyRound, RefreshCw, Trash2 } from 'lucide-react';
+import { ClientApiKey } from '../../types/dataSource';
+import { getClientApiKeys, createClientApiKey, revokeClientApiKey } from '../../lib/database';
+import { logger } from '../../lib/logger';
+
+interface ClientApiKeysManagerProps {
+  clientId: string;
+}
+
+const INGEST_ENDPOINT = `${(import.meta.env.VITE_SUPABASE_URL || '').replace(/\/$/, '')}/functions/v1/ingest-metrics`;
+
+/**
+ * API keys that let a client's CRM or call tracker POST metrics to the
+ * ingest-metrics endpoint. A new key is shown once; after that only its
+ * prefix is known, so a lost key is revoked and replaced.
+ */
+export const ClientApiKeysManager: React.FC<ClientApiKeysManagerProps> = ({ clientId }) => {
+  const [keys, setKeys] = useState<ClientApiKey[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [name, setName] = useState('');
+  const [newKey, setNewKey] = useState<string | null>(null);
+
+  const loadKeys = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { data, error } = await getClientApiKeys(clientId);
+
+      if (error) {
+        throw new Error(error.message || 'Failed to load API keys');
+      }
+
+      setKeys(data || []);
+    } catch (err) {
+      logger.error('Error loading client API keys:', err);
+      setError('Failed to load API keys. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [clientId]);
+
+  useEffect(() => {
+    setNewKey(null);
+    loadKeys();
+  }, [loadKeys]);
+
+  const handleCreate = async () => {
+    if (!name.trim()) {
+      setError('Key name is required');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const { data, error } = await createClientApiKey(clientId, name.trim());
+
+      if (error || !data) {
+        throw new Error(error?.message || 'Failed to create API key');
+      }
+
+      setNewKey(data.api_key);
+      setName('');
+      setShowForm(false);
+      await loadKeys();
+    } catch (err) {
+      logger.error('Error creating client API key:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create API key.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevoke = async (key: ClientApiKey) => {
+    if (!confirm(`Revoke "${key.name}"? Systems using it will no longer be able to send metrics.`)) {
+      return;
+    }
+
+    try {
+      const { error } = await revokeClientApiKey(key.id);
+
+      if (error) {
+        throw new Error(error.message || 'Failed to revoke API key');
+      }
+
+      await loadKeys();
+    } catch (err) {
+      logger.error('Error revoking client API key:', err);
+      setError('Failed to revoke API key. Please try again.');
+    }
+  };
+
+  return (
+    <div className="client-api-keys-manager">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">API Keys</h3>
+          <p className="text-sm text-gray-600">
+            Let a CRM or call tracker push metrics for this client to{' '}
+            <code className="text-xs bg-gray-100 px-1 py-0.5 rounded">{INGEST_ENDPOINT}</code>
+          </p>
+        </div>
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={loadKeys}
+            disabled={loading}
+            className="flex items-center space-x-2 px-3 py-2 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 disabled:opacity-50"
+          >
+            <RefreshCw size={16} className={loading ? 'animate-spin' : ''} />
+            <span>Refresh</span>
+          </button>
+          <button
+            onClick={() => {
+              setName('');
+              setError(null);
+              setShowForm(true);
+            }}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+          >
+            <KeyRound size={16} />
+            <span>New Key</span>
+          </button>
+        </div>
+      </div>
+
+      {/* Error Display */}
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      {/* Newly Created Key */}
+      {newKey && (
+        <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-md space-y-2">
+          <p className="text-sm text-green-800">
+            Copy this key now. It won't be shown again.
+          </p>
+          <div className="flex items-center space-x-2">
+            <code className="flex-1 px-2 py-1 text-xs bg-white border border-green-200 rounded break-all">{newKey}</code>
+            <button
+              onClick={() => navigator.clipboard.writeText(newKey)}
+              className="p-2 text-gray-500 hover:text-gray-700"
+              title="Copy"
+            >
+              <Copy size={16} />
+            </button>
+          </div>
+          <p className="text-xs text-green-800">
+            Send it as <code>Authorization: Bearer &lt;key&gt;</code> with a JSON body like{' '}
+            <code>{'{"metrics": [{"metric_name": "calls", "date": "2025-10-01", "value": 42}]}'}</code>
+          </p>
+          <button onClick={() => setNewKey(null)} className="text-xs text-green-900 underline">
+            Done
+          </button>
+        </div>
+      )}
+
+      {/* Keys List */}
+      {keys.length === 0 ? (
+        !loading && <p className="text-sm text-gray-500 mb-4">No API keys yet.</p>
+      ) : (
+        <div className="space-y-3 mb-4">
+          {keys.map(key => (
+            <div
+              key={key.id}
+              className={`flex items-center justify-between bg-white border border-gray-200 rounded-lg p-4 ${
+                key.revoked_at ? 'opacity-60' : ''
+              }`}
+            >
+              <div>
+                <p className="font-medium text-gray-900">
+                  {key.name}
+                  {key.revoked_at && (
+                    <span className="ml-2 px-1.5 py-0.5 text-xs font-normal bg-red-100 text-red-800 rounded">revoked</span>
+                  )}
+                </p>
+                <p className="text-xs text-gray-500">
+                  <code>{key.key_prefix}…</code> • {key.scopes.join(', ')} • Created{' '}
+                  {new Date(key.created_at).toLocaleDateString()} •{' '}
+                  {key.last_used_at ? `Last used ${new Date(key.last_used_at).toLocaleString()}` : 'Never used'}
+                </p>
+              </div>
+              {!key.revoked_at && (
+                <button
+                  onClick={() => handleRevoke(key)}
+                  className="p-2 text-gray-400 hover:text-red-600"
+                  title="Revoke"
+                >
+                  <Trash2 size={16} />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Create Form */}
+      {showForm && (
+        <div className="border border-gray-200 rounded-lg p-4 space-y-3 bg-gray-50">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. HubSpot workflow"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              The key can only write metrics for this client.
+            </p>
+          </div>
+          <div className="flex justify-end space-x-2">
+            <button
+              onClick={() => setShowForm(false)}
+              className="px-3 py-1.5 text-sm text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleCreate}
+              disabled={saving}
+              className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Creating...' : 'Create Key'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,14 +1,24 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { Edit, Trash2, Building2, RefreshCw } from "lucide-react";
+import { Edit, Trash2, Building2, RefreshCw, RotateCw } from "lucide-react";
 import { logger } from "../../lib/logger";
 import {
   addClient,
   updateClient,
   deleteClient,
   getClients,
+  getClientDataSources,
+  updateDataSourceConfig,
+  createExcelDataSources,
 } from "../../lib/database";
 import { Client } from "../../types";
 import { MultiSheetSelector } from "../shared/MultiSheetSelector";
+import { DataSourceManager } from "./DataSourceManager";
+import { GoogleCredentialsManager } from "./GoogleCredentialsManager";
+import { ClientApiKeysManager } from "./ClientApiKeysManager";
+import { WebhooksManager } from "./WebhooksManager";
+import { SyncPreviewPanel } from "./SyncPreviewPanel";
+import { SheetLayoutFields } from "./SheetLayoutFields";
+import { SyncPreviewTab } from "../../lib/dynamicSync";
 import { useGlobalPermissions } from "../../hooks/useGlobalPermissions";
 // import { useApp } from '../../contexts/AppContext'; // Removed - no longer needed
 import { useAuth } from "../../contexts/AuthContext";
@@ -20,12 +30,12 @@ import {
   getAdminCompanyName,
   getAdminCompanySlug,
 } from "../../lib/dynamicBranding";
+import { importFileInBackground } from "../../lib/fileDataSources";
+import { FileImportProgress } from "./FileImportProgress";
 import {
-  parseExcelFile,
-  transformExcelData,
-  insertExcelMetricEntries,
-} from "../../lib/excelParser";
-import { NEW_METRIC_CATEGORIES } from "../../types/dataSource";
+  NEW_METRIC_CATEGORIES,
+  SheetLayoutConfig,
+} from "../../types/dataSource";
 
 interface ClientManagementProps {
   onClientAdded?: (client: Client) => void;
@@ -86,6 +96,9 @@ export const ClientManagement: React.FC<ClientManagementProps> = ({
   const [showForm, setShowForm] = useState(false);
   const [editingClient, setEditingClient] = useState<Client | null>(null);
   const [isSyncing, setIsSyncing] = useState(false);
+  // Worksheet data sources (id -> name) of the last Excel import, whose
+  // background jobs are shown under the status message
+  const [excelImportSources, setExcelImportSources] = useState<Record<string, string>>({});
   const [formData, setFormData] = useState<FormData>({
     company_name: "",
     slug: "",
@@ -125,6 +138,33 @@ export const ClientManagement: React.FC<ClientManagementProps> = ({
 
   // Excel import state
   const [excelFile, setExcelFile] = useState<File | null>(null);
+  const excelFileToImport =
+    excelFile ||
+    formData.google_sheets.find((sheet) => sheet.type === "excel" && sheet.file)
+      ?.file ||
+    null;
+
+  // Header row / date column / range settings applied to the new data sources
+  const [sheetLayout, setSheetLayout] = useState<SheetLayoutConfig>({});
+
+  // Sync preview state - new Google Sheets clients must be previewed before the first sync
+  const [syncPreview, setSyncPreview] = useState<SyncPreviewTab[] | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
+  const [previewedSelection, setPreviewedSelection] = useState<string | null>(
+    null
+  );
+  const previewSelectionKey = JSON.stringify([
+    formData.google_sheets.map((sheet) => [
+      sheet.url,
+      sheet.selectedTabs.map((tab) => tab.name),
+    ]),
+    sheetLayout,
+  ]);
+  const needsSyncPreview =
+    !editingClient &&
+    formData.form_mode === "new_client" &&
+    formData.data_source === "google-sheets" &&
+    previewedSelection !== previewSelectionKey;
 
   const permissions = useGlobalPermissions();
   const { brandConfig } = useBrand();
@@ -301,57 +341,116 @@ export const ClientManagement: React.FC<ClientManagementProps> = ({
     setEditingClient(null);
     setShowForm(false);
     setExcelFile(null);
+    setSheetLayout({});
+    setSyncPreview(null);
+    setPreviewedSelection(null);
     setError(null); // Clear any error messages
   };
 
-  // Process Excel file and insert metric entries
-  const processExcelFile = async (file: File, clientId: string) => {
+  const handlePreviewSync = async () => {
+    const sheetsToPreview = formData.google_sheets.filter(
+      (sheet) => sheet.url.trim() && sheet.selectedTabs.length > 0
+    );
+    if (sheetsToPreview.length === 0) return;
+
     try {
-      logger.debug("📊 Processing Excel file:", {
-        fileName: file.name,
-        clientId,
-      });
+      setPreviewLoading(true);
+      setError(null);
 
-      // Parse Excel file
-      const parseResult = await parseExcelFile(file);
-      if (!parseResult.success) {
-        throw new Error(parseResult.error || "Failed to parse Excel file");
-      }
+      const { previewGoogleSheetsSync } = await import("../../lib/dynamicSync");
+      const previewTabs: SyncPreviewTab[] = [];
+
+      for (const sheet of sheetsToPreview) {
+        const result = await previewGoogleSheetsSync(
+          sheet.url,
+          sheet.selectedTabs.map((tab) => tab.name),
+          formData.selected_existing_client || undefined,
+          sheetLayout
+        );
+
+        if (!result.success || !result.data) {
+          throw new Error(result.error?.details || "Preview failed");
+        }
 
-      // Get current user
-      const { supabase } = await import("../../lib/supabase");
-      const {
-        data: { user },
-        error: userError,
-      } = await supabase.auth.getUser();
-      if (userError || !user) {
-        throw new Error("User not authenticated");
+        // Prefix with the sheet name when previewing several spreadsheets
+        previewTabs.push(
+          ...result.data.tabs.map((tab) => ({
+            ...tab,
+            tab_name:
+              sheetsToPreview.length > 1
+                ? `${sheet.name} - ${tab.tab_name}`
+                : tab.tab_name,
+          }))
+        );
       }
 
-      // Transform data using the same logic as Google Sheets
-      const metricEntries = transformExcelData(
-        parseResult.data,
-        user.id,
-        clientId,
-        parseResult.sheetNames[0] || "Sheet1",
-        file.name
+      setSyncPreview(previewTabs);
+      setPreviewedSelection(previewSelectionKey);
+    } catch (previewError) {
+      logger.error("❌ Error previewing sync:", previewError);
+      setError(
+        `Sync preview failed: ${
+          previewError instanceof Error ? previewError.message : "Unknown error"
+        }`
       );
+    } finally {
+      setPreviewLoading(false);
+    }
+  };
 
-      if (metricEntries.length === 0) {
-        logger.warn("⚠️ No metric entries generated from Excel file");
-        return;
+  // One data source per selected worksheet, each imported by a background job.
+  // Importing the same workbook again reuses the sources and only changes rows
+  // that differ.
+  const processExcelWorkbooks = async (clientId: string) => {
+    const workbooks = formData.google_sheets.filter(
+      (sheet) => sheet.type === "excel" && sheet.file
+    );
+    const failures: string[] = [];
+    const importSources: Record<string, string> = {};
+
+    try {
+      for (const workbook of workbooks) {
+        const worksheets = workbook.selectedTabs.map((tab) => tab.name);
+        logger.debug("📊 Importing Excel worksheets:", {
+          fileName: workbook.file!.name,
+          worksheets,
+          clientId,
+        });
+
+        const { data: dataSources, error } = await createExcelDataSources(
+          clientId,
+          workbook.name.replace(/\.(xlsx|xls|csv)$/i, ""),
+          worksheets,
+          { ...sheetLayout, file_name: workbook.file!.name }
+        );
+        if (error || !dataSources) {
+          throw new Error(error?.message || "Failed to create data sources");
+        }
+
+        for (const dataSource of dataSources) {
+          const result = await importFileInBackground(dataSource, workbook.file!);
+          if (!result.success) {
+            failures.push(`${dataSource.name}: ${result.error}`);
+          } else {
+            importSources[dataSource.id] = dataSource.name;
+          }
+        }
       }
 
-      // Insert metric entries into database
-      const insertResult = await insertExcelMetricEntries(metricEntries);
-      if (!insertResult.success) {
-        throw new Error(
-          insertResult.error || "Failed to insert metric entries"
+      setExcelImportSources(importSources);
+
+      if (failures.length > 0) {
+        setError(`Some worksheets could not be uploaded: ${failures.join("; ")}`);
+      } else {
+        setError(
+          `✅ Excel uploaded successfully: ${Object.keys(importSources).length} worksheet(s) importing in the background`
         );
       }
 
-      logger.info("✅ Excel file processed successfully:", {
-        entries: metricEntries.length,
+      logger.info("✅ Excel workbooks queued for import:", {
+        workbooks: workbooks.length,
+        worksheets: Object.keys(importSources).length,
+        failures: failures.length,
         clientId,
       });
     } catch (error) {
@@ -401,11 +500,26 @@ export const ClientManagement: React.FC<ClientManagementProps> = ({
       }
     }
 
+    // Show what the first sync would write before creating the client
+    if (needsSyncPreview) {
+      await handlePreviewSync();
+      return;
+    }
+
     // For Excel import, file is required
-    if (formData.data_source === "excel-import" && !excelFile) {
+    if (formData.data_source === "excel-import" && !excelFileToImport) {
       setError("Excel file is required for Excel import");
       return;
     }
+    if (
+      formData.data_source === "excel-import" &&
+      formData.google_sheets.some(
+        (sheet) => sheet.type === "excel" && sheet.selectedTabs.length === 0
+      )
+    ) {
+      setError("Select at least one worksheet of each Excel file");
+      return;
+    }
 
     // Additional validation for client selection
     if (
@@ -495,6 +609,21 @@ export const ClientManagement: React.FC<ClientManagementProps> = ({
 
         if (result.error) throw result.error;
 
+        // The per-tab data sources are created with the client; give them the form's layout
+        if (
+          !editingClient &&
+          result.data &&
+          formData.data_source === "google-sheets" &&
+          Object.keys(sheetLayout).length > 0
+        ) {
+          const { data: createdSources } = await getClientDataSources(
+            result.data.id
+          );
+          for (const dataSource of createdSources || []) {
+            await updateDataSourceConfig(dataSource.id, sheetLayout);
+          }
+        }
+
         // Refresh clients data without clearing entire cache
         await loadClients();
         resetForm();
@@ -516,8 +645,7 @@ export const ClientManagement: React.FC<ClientManagementProps> = ({
               );
               const syncResult = await syncGoogleSheetsDynamic(
                 result.data?.id || "admin-client",
-                clientData.google_sheets_url,
-                false // getColumnsOnly = false (full sync)
+                clientData.google_sheets_url
               );
 
               if (syncResult.success) {
@@ -558,13 +686,13 @@ export const ClientManagement: React.FC<ClientManagementProps> = ({
           }
         }
 
-        // Process Excel file if Excel import is selected
+        // Import the selected worksheets if Excel import is selected
         if (
           formData.data_source === "excel-import" &&
-          excelFile &&
+          excelFileToImport &&
           result.data
         ) {
-          await processExcelFile(excelFile, result.data.id);
+          await processExcelWorkbooks(result.data.id);
         }
 
         if (onClientAdded && result.data) {
@@ -781,8 +909,9 @@ export const ClientManagement: React.FC<ClientManagementProps> = ({
     }
   };
 
-  // Handle sync functionality for Undeniable Dashboard
-  const handleSyncUndeniable = async () => {
+  // Handle sync functionality for Undeniable Dashboard. Unchanged tabs are
+  // skipped unless force is set.
+  const handleSyncUndeniable = async (force = false) => {
     if (!adminConfig?.google_sheets_url) {
       setError("No Google Sheet configured for Undeniable Dashboard");
       // Clear the error after 3 seconds
@@ -835,7 +964,7 @@ export const ClientManagement: React.FC<ClientManagementProps> = ({
       const result = await syncGoogleSheetsDynamic(
         adminConfig.id || "admin-client",
         spreadsheetId,
-        false // getColumnsOnly = false (full sync)
+        force
       );
 
       logger.sync("📊 syncGoogleSheetsDynamic result:", result);
@@ -844,7 +973,27 @@ export const ClientManagement: React.FC<ClientManagementProps> = ({
         setError(
           `Dynamic sync completed successfully - processed ${
             result.data?.tabs_processed || 0
-          } tabs with ${result.data?.total_metrics_processed || 0} metrics`
+          } tabs with ${result.data?.total_metrics_processed || 0} metrics (${
+            result.data?.changes?.inserted || 0
+          } new, ${result.data?.changes?.updated || 0} updated, ${
+            result.data?.changes?.removed || 0
+          } removed)${
+            result.data?.warnings_count
+              ? ` with ${result.data.warnings_count} warnings - see Sync History`
+              : ""
+          }${
+            result.data?.already_running_tabs?.length
+              ? `. Sync already running for ${result.data.already_running_tabs.join(
+                  ", "
+                )} - those tabs were skipped`
+              : ""
+          }${
+            result.data?.skipped_unchanged_tabs?.length
+              ? `. Skipped, unchanged since last sync: ${result.data.skipped_unchanged_tabs.join(
+                  ", "
+                )}`
+              : ""
+          }`
         );
         logger.info("✅ Dynamic sync completed from Client Management");
 
@@ -1051,6 +1200,25 @@ export const ClientManagement: React.FC<ClientManagementProps> = ({
         </div>
       )}
 
+      {Object.keys(excelImportSources).length > 0 && (
+        <div className="bg-white border border-gray-200 rounded-md p-4 mb-6">
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="text-sm font-medium text-gray-900">Excel import</h4>
+            <button
+              onClick={() => setExcelImportSources({})}
+              className="text-xs text-gray-500 hover:text-gray-700"
+            >
+              Dismiss
+            </button>
+          </div>
+          <FileImportProgress
+            dataSourceIds={Object.keys(excelImportSources)}
+            sourceNames={excelImportSources}
+            limit={Object.keys(excelImportSources).length}
+          />
+        </div>
+      )}
+
       {/* Two Column Layout */}
       <div className="grid grid-cols-1 xl:grid-cols-4 gap-6">
         {/* Left Side - Form */}
@@ -1335,6 +1503,41 @@ export const ClientManagement: React.FC<ClientManagementProps> = ({
                             />
                           </div>
                         )}
+
+                        {(formData.data_source === "google-sheets" ||
+                          formData.data_source === "excel-import") && (
+                          <details className="mb-4 border border-gray-200 rounded-lg p-3">
+                            <summary className="text-sm font-medium text-gray-700 cursor-pointer">
+                              Sheet layout (header row, date column, range)
+                            </summary>
+                            <div className="mt-3">
+                              <SheetLayoutFields
+                                value={sheetLayout}
+                                onChange={setSheetLayout}
+                                disabled={loading}
+                                sourceType={
+                                  formData.data_source === "excel-import"
+                                    ? "xlsx"
+                                    : "google_sheets"
+                                }
+                              />
+                            </div>
+                          </details>
+                        )}
+
+                        {formData.data_source === "google-sheets" &&
+                          formData.google_sheets.some(
+                            (sheet) => sheet.selectedTabs.length > 0
+                          ) && (
+                            <div className="mb-4">
+                              <SyncPreviewPanel
+                                tabs={syncPreview}
+                                loading={previewLoading}
+                                onPreview={handlePreviewSync}
+                                disabled={loading}
+                              />
+                            </div>
+                          )}
                       </div>
                     </div>
                   )}
@@ -1364,12 +1567,48 @@ export const ClientManagement: React.FC<ClientManagementProps> = ({
                     ) : (
                       <span className="flex items-center space-x-2">
                         <Building2 size={16} />
-                        <span>{editingClient ? "Update Client" : "Add"}</span>
+                        <span>
+                          {editingClient
+                            ? "Update Client"
+                            : needsSyncPreview
+                            ? "Preview Sync"
+                            : "Add"}
+                        </span>
                       </span>
                     )}
                   </button>
                 </div>
               </form>
+
+              {/* Per-tab data sources and sync schedule for the client being edited */}
+              {editingClient && (
+                <div className="mt-6 pt-6 border-t border-gray-200">
+                  <DataSourceManager
+                    clientId={editingClient.id}
+                    onDataSourceAdded={(dataSource) => logger.debug("Data source added:", dataSource.id)}
+                    onDataSourceUpdated={(dataSource) => logger.debug("Data source updated:", dataSource.id)}
+                    onDataSourceDeleted={(dataSourceId) => logger.debug("Data source deleted:", dataSourceId)}
+                  />
+                </div>
+              )}
+
+              {editingClient && (
+                <div className="mt-6 pt-6 border-t border-gray-200">
+                  <GoogleCredentialsManager clientId={editingClient.id} />
+                </div>
+              )}
+
+              {editingClient && (
+                <div className="mt-6 pt-6 border-t border-gray-200">
+                  <ClientApiKeysManager clientId={editingClient.id} />
+                </div>
+              )}
+
+              {editingClient && (
+                <div className="mt-6 pt-6 border-t border-gray-200">
+                  <WebhooksManager clientId={editingClient.id} />
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -1405,7 +1644,7 @@ export const ClientManagement: React.FC<ClientManagementProps> = ({
                     <div className="flex items-center space-x-1">
                       <button
                         type="button"
-                        onClick={handleSyncUndeniable}
+                        onClick={() => handleSyncUndeniable()}
                         disabled={isSyncing}
                         className={`p-1 transition-colors ${
                           isSyncing
@@ -1419,6 +1658,19 @@ export const ClientManagement: React.FC<ClientManagementProps> = ({
                           className={isSyncing ? "animate-spin" : ""}
                         />
                       </button>
+                      <button
+                        type="button"
+                        onClick={() => handleSyncUndeniable(true)}
+                        disabled={isSyncing}
+                        className={`p-1 transition-colors ${
+                          isSyncing
+                            ? "text-gray-300 cursor-not-allowed"
+                            : "text-gray-400 hover:text-green-600"
+                        }`}
+                        title="Force full sync (re-read tabs even if unchanged)"
+                      >
+                        <RotateCw size={14} />
+                      </button>
                       <button
                         type="button"
                         onClick={() =>
@@ -0,0 +1,384 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { RefreshCw, Upload } from 'lucide-react';
+import { ColumnMapping, DataSource, DataSourceConfig, DetectedColumn } from '../../types/dataSource';
+import { getClientMetricNames } from '../../lib/database';
+import { detectGoogleSheetColumns } from '../../lib/dynamicSync';
+import { detectFileColumns } from '../../lib/fileDataSources';
+import { logger } from '../../lib/logger';
+
+interface ColumnMappingWizardProps {
+  dataSource: DataSource;
+  onSave: (config: Partial<DataSourceConfig>) => Promise<void>;
+  onClose: () => void;
+}
+
+interface ExistingMetric {
+  metric_name: string;
+  category: string;
+  metric_type: string;
+}
+
+// One row of the mapping table; '' means "detect it during sync"
+interface ColumnDraft {
+  target: 'new' | 'existing' | 'ignore';
+  metric_name: string;
+  metric_type: '' | NonNullable<ColumnMapping['metric_type']>;
+  category: string;
+}
+
+// Same category keys the Google Sheets sync assigns
+const CATEGORY_OPTIONS = [
+  { value: 'spend-revenue', label: 'Spend & Revenue' },
+  { value: 'cost-per-show', label: 'Cost per Show / Call' },
+  { value: 'funnel-volume', label: 'Funnel Volume' },
+  { value: 'funnel-conversion', label: 'Funnel Conversion Rates' },
+];
+
+const TYPE_OPTIONS = [
+  { value: 'number', label: 'Number' },
+  { value: 'currency', label: 'Currency' },
+  { value: 'percentage', label: 'Percentage' },
+];
+
+const toMetricType = (value: string): ColumnDraft['metric_type'] =>
+  TYPE_OPTIONS.some(option => option.value === value) ? (value as ColumnDraft['metric_type']) : '';
+
+/**
+ * Maps the columns of a data source onto metrics: pick the date column, then
+ * for each column an existing metric, a new one or ignore, with its type and
+ * category. Saved as column_mappings on the data source, so every later sync
+ * or upload applies it.
+ */
+export const ColumnMappingWizard: React.FC<ColumnMappingWizardProps> = ({ dataSource, onSave, onClose }) => {
+  const config = dataSource.source_config;
+  const transposed = config.orientation === 'dates_as_columns';
+  const isFileSource = dataSource.source_type === 'csv' || dataSource.source_type === 'xlsx';
+
+  const [columns, setColumns] = useState<DetectedColumn[]>([]);
+  const [existingMetrics, setExistingMetrics] = useState<ExistingMetric[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, ColumnDraft>>({});
+  const [dateColumn, setDateColumn] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Saved mappings (and ignored_columns) as the starting point for each detected column
+  const initDrafts = useCallback((detected: DetectedColumn[], metrics: ExistingMetric[]) => {
+    const saved = new Map(
+      Object.entries(config.column_mappings || {}).map(([key, mapping]) => [key.trim().toLowerCase(), mapping])
+    );
+    const ignored = new Set((config.ignored_columns || []).map(column => column.trim().toLowerCase()));
+    const existingNames = new Set(metrics.map(metric => metric.metric_name));
+
+    const next: Record<string, ColumnDraft> = {};
+    detected.forEach(({ header }) => {
+      const mapping = saved.get(header.toLowerCase());
+      const metricName = mapping?.metric_name || (existingNames.has(header) ? header : '');
+      next[header] = {
+        target: mapping?.ignore || ignored.has(header.toLowerCase())
+          ? 'ignore'
+          : existingNames.has(metricName) ? 'existing' : 'new',
+        metric_name: metricName,
+        metric_type: toMetricType(mapping?.metric_type || ''),
+        category: mapping?.category || '',
+      };
+    });
+    setDrafts(next);
+
+    if (!transposed) {
+      const savedDate = (config.date_column || 'Date').trim().toLowerCase();
+      setDateColumn(detected.find(({ header }) => header.toLowerCase() === savedDate)?.header || '');
+    }
+  }, [config.column_mappings, config.ignored_columns, config.date_column, transposed]);
+
+  const loadColumns = useCallback(async (file?: File) => {
+    if (isFileSource && !file) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { data: metrics, error: metricsError } = await getClientMetricNames(dataSource.client_id);
+      if (metricsError) {
+        logger.warn('⚠️ Could not load existing metrics for column mapping:', metricsError);
+      }
+
+      let detected: DetectedColumn[];
+      if (file) {
+        const result = await detectFileColumns(dataSource, file);
+        if (!result.success) {
+          throw new Error(result.error || 'Failed to read the file');
+        }
+        detected = result.columns;
+      } else {
+        const result = await detectGoogleSheetColumns(
+          config.spreadsheet_id || '',
+          config.sheet_name || '',
+          dataSource.client_id
+        );
+        if (!result.success || !result.data) {
+          throw new Error(result.error?.details || 'Failed to read the sheet');
+        }
+        detected = result.data;
+      }
+
+      if (detected.length === 0) {
+        throw new Error('No columns found. Check the header row and range in the sheet layout.');
+      }
+
+      setExistingMetrics(metrics || []);
+      setColumns(detected);
+      initDrafts(detected, metrics || []);
+    } catch (err) {
+      logger.error('Error detecting columns:', err);
+      setError(err instanceof Error ? err.message : 'Failed to detect columns.');
+    } finally {
+      setLoading(false);
+    }
+  }, [dataSource, config.spreadsheet_id, config.sheet_name, isFileSource, initDrafts]);
+
+  useEffect(() => {
+    loadColumns();
+  }, [loadColumns]);
+
+  const updateDraft = (header: string, changes: Partial<ColumnDraft>) => {
+    setDrafts(prev => ({ ...prev, [header]: { ...prev[header], ...changes } }));
+  };
+
+  const handleTargetChange = (header: string, value: string) => {
+    if (value === 'new' || value === 'ignore') {
+      updateDraft(header, { target: value, metric_name: value === 'new' ? '' : drafts[header].metric_name });
+      return;
+    }
+
+    // An existing metric brings its category and type along
+    const metric = existingMetrics.find(m => m.metric_name === value);
+    updateDraft(header, {
+      target: 'existing',
+      metric_name: value,
+      metric_type: toMetricType(metric?.metric_type || ''),
+      category: metric?.category || '',
+    });
+  };
+
+  const handleSave = async () => {
+    if (!transposed && !dateColumn) {
+      setError('Pick the date column.');
+      return;
+    }
+
+    const mappings: Record<string, ColumnMapping> = {};
+    columns.forEach(({ header }) => {
+      if (header === dateColumn) return;
+      const draft = drafts[header];
+      if (!draft) return;
+
+      if (draft.target === 'ignore') {
+        mappings[header] = { ignore: true };
+        return;
+      }
+
+      // Unset fields are left for the sync to detect
+      const mapping: ColumnMapping = {};
+      if (draft.metric_name.trim()) mapping.metric_name = draft.metric_name.trim();
+      if (draft.metric_type) mapping.metric_type = draft.metric_type;
+      if (draft.category) mapping.category = draft.category;
+      if (Object.keys(mapping).length > 0) mappings[header] = mapping;
+    });
+
+    // Ignoring is now decided here, so only ignored columns that weren't detected are kept
+    const detectedHeaders = new Set(columns.map(({ header }) => header.toLowerCase()));
+    const ignoredColumns = (config.ignored_columns || []).filter(
+      column => !detectedHeaders.has(column.trim().toLowerCase())
+    );
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      await onSave({
+        ...(transposed ? {} : { date_column: dateColumn }),
+        ignored_columns: ignoredColumns.length > 0 ? ignoredColumns : undefined,
+        column_mappings: mappings,
+      });
+      onClose();
+    } catch (err) {
+      logger.error('Error saving column mapping:', err);
+      setError('Failed to save the column mapping. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass =
+    'w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50';
+  const mappedColumns = columns.filter(({ header }) => header !== dateColumn);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h5 className="text-sm font-medium text-gray-900">Column mapping</h5>
+        {isFileSource ? (
+          <label
+            className={`flex items-center space-x-1 px-3 py-1.5 text-sm text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 cursor-pointer ${
+              loading ? 'opacity-50 pointer-events-none' : ''
+            }`}
+          >
+            <Upload size={14} />
+            <span>{loading ? 'Reading...' : 'Choose a sample file'}</span>
+            <input
+              type="file"
+              accept={dataSource.source_type === 'csv' ? '.csv,.tsv,.txt,text/csv' : '.xlsx,.xls'}
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) loadColumns(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        ) : (
+          <button
+            onClick={() => loadColumns()}
+            disabled={loading}
+            className="p-1.5 text-gray-400 hover:text-gray-600 disabled:opacity-50"
+            title="Re-read columns"
+          >
+            <RefreshCw size={14} className={loading ? 'animate-spin' : ''} />
+          </button>
+        )}
+      </div>
+
+      {isFileSource && columns.length === 0 && !loading && (
+        <p className="text-xs text-gray-500">
+          Choose a file with the same layout to read its columns. It is only read in the browser, not uploaded.
+        </p>
+      )}
+
+      {error && (
+        <div className="p-2 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-xs text-red-800">{error}</p>
+        </div>
+      )}
+
+      {columns.length > 0 && (
+        <>
+          {!transposed && (
+            <div className="max-w-xs">
+              <label className="block text-xs font-medium text-gray-700 mb-1">Date column</label>
+              <select value={dateColumn} onChange={(e) => setDateColumn(e.target.value)} className={inputClass}>
+                <option value="">Select the date column</option>
+                {columns.map(({ header }) => (
+                  <option key={header} value={header}>{header}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div className="overflow-x-auto border border-gray-200 rounded-md">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50 text-xs text-gray-500">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium">{transposed ? 'Row' : 'Column'}</th>
+                  <th className="px-3 py-2 text-left font-medium">Sample values</th>
+                  <th className="px-3 py-2 text-left font-medium">Metric</th>
+                  <th className="px-3 py-2 text-left font-medium">Type</th>
+                  <th className="px-3 py-2 text-left font-medium">Category</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {mappedColumns.map(({ header, samples }) => {
+                  const draft = drafts[header];
+                  if (!draft) return null;
+                  const ignored = draft.target === 'ignore';
+
+                  return (
+                    <tr key={header} className={ignored ? 'bg-gray-50 text-gray-400' : ''}>
+                      <td className="px-3 py-2 font-medium whitespace-nowrap">{header}</td>
+                      <td className="px-3 py-2 text-xs text-gray-500 max-w-xs truncate" title={samples.join(', ')}>
+                        {samples.length > 0 ? samples.join(', ') : '—'}
+                      </td>
+                      <td className="px-3 py-2 space-y-1 min-w-[12rem]">
+                        <select
+                          value={draft.target === 'existing' ? draft.metric_name : draft.target}
+                          onChange={(e) => handleTargetChange(header, e.target.value)}
+                          className={inputClass}
+                        >
+                          <option value="new">New metric</option>
+                          <option value="ignore">Ignore</option>
+                          {existingMetrics.length > 0 && (
+                            <optgroup label="Existing metrics">
+                              {existingMetrics.map(metric => (
+                                <option key={metric.metric_name} value={metric.metric_name}>{metric.metric_name}</option>
+                              ))}
+                            </optgroup>
+                          )}
+                        </select>
+                        {draft.target === 'new' && (
+                          <input
+                            type="text"
+                            value={draft.metric_name}
+                            onChange={(e) => updateDraft(header, { metric_name: e.target.value })}
+                            placeholder={header}
+                            className={inputClass}
+                          />
+                        )}
+                      </td>
+                      <td className="px-3 py-2">
+                        <select
+                          value={draft.metric_type}
+                          onChange={(e) => updateDraft(header, { metric_type: toMetricType(e.target.value) })}
+                          disabled={ignored}
+                          className={inputClass}
+                        >
+                          <option value="">Detect</option>
+                          {TYPE_OPTIONS.map(option => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="px-3 py-2">
+                        <select
+                          value={draft.category}
+                          onChange={(e) => updateDraft(header, { category: e.target.value })}
+                          disabled={ignored}
+                          className={inputClass}
+                        >
+                          <option value="">Detect</option>
+                          {CATEGORY_OPTIONS.map(option => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                          ))}
+                        </select>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <p className="text-xs text-gray-500">
+            {isFileSource ? 'Applied to the next upload.' : 'Applied from the next sync.'} Columns added to the
+            sheet later are imported with detected names, types and categories until they are mapped.
+          </p>
+        </>
+      )}
+
+      <div className="flex justify-end space-x-2">
+        <button
+          onClick={onClose}
+          className="px-3 py-1.5 text-sm text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={saving || columns.length === 0}
+          className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save Mapping'}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,78 @@
+import React from 'react';
+import { DataSourceConfig } from '../../types/dataSource';
+
+export type CsvOptions = Pick<DataSourceConfig, 'delimiter' | 'encoding' | 'has_headers'>;
+
+interface CsvOptionsFieldsProps {
+  value: CsvOptions;
+  onChange: (options: CsvOptions) => void;
+  disabled?: boolean;
+}
+
+const DELIMITER_OPTIONS = [
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe (|)' }
+];
+
+const ENCODING_OPTIONS = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'windows-1252', label: 'Windows-1252 (Excel on Windows)' },
+  { value: 'iso-8859-1', label: 'ISO-8859-1 (Latin-1)' },
+  { value: 'utf-16le', label: 'UTF-16' }
+];
+
+/**
+ * Delimiter, encoding and header row presence of a CSV data source.
+ * Shared by the add form and the upload panel.
+ */
+export const CsvOptionsFields: React.FC<CsvOptionsFieldsProps> = ({
+  value,
+  onChange,
+  disabled = false
+}) => {
+  const inputClass =
+    'w-full px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50';
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      <div>
+        <label className="block text-xs font-medium text-gray-700 mb-1">Delimiter</label>
+        <select
+          value={value.delimiter || ','}
+          onChange={(e) => onChange({ ...value, delimiter: e.target.value })}
+          disabled={disabled}
+          className={inputClass}
+        >
+          {DELIMITER_OPTIONS.map(option => (
+            <option key={option.label} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-700 mb-1">Encoding</label>
+        <select
+          value={value.encoding || 'utf-8'}
+          onChange={(e) => onChange({ ...value, encoding: e.target.value })}
+          disabled={disabled}
+          className={inputClass}
+        >
+          {ENCODING_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+      <label className="col-span-2 flex items-center space-x-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={value.has_headers !== false}
+          onChange={(e) => onChange({ ...value, has_headers: e.target.checked })}
+          disabled={disabled}
+          className="rounded border-gray-300"
+        />
+        <span>First row contains column names (otherwise columns are named "Column 1", "Column 2", ...)</span>
+      </label>
+    </div>
+  );
+};
@@ -1,8 +1,23 @@
 import React, { useState, useEffect } from 'react';
-import { Plus, RefreshCw, Settings, Trash2, FileText, Table, Database } from 'lucide-react';
-import { DataSource, DataSourceConfig } from '../../types/dataSource';
+import { Plus, RefreshCw, Settings, Trash2, FileText, Table, Database, Upload, Columns, Globe } from 'lucide-react';
+import { DataSource, DataSourceConfig, SheetLayoutConfig } from '../../types/dataSource';
+import { SyncStatus } from '../../types';
 import { MultiSheetSelector } from '../shared/MultiSheetSelector';
-import { getClientDataSources, createGoogleSheetsDataSources, deleteDataSource } from '../../lib/database';
+import { SheetLayoutFields } from './SheetLayoutFields';
+import { CsvOptions, CsvOptionsFields } from './CsvOptionsFields';
+import { FileUploadVersions } from './FileUploadVersions';
+import { ColumnMappingWizard } from './ColumnMappingWizard';
+import {
+  getClientDataSources,
+  createGoogleSheetsDataSources,
+  createFileDataSource,
+  createPublishedCsvDataSource,
+  updateDataSourceConfig,
+  deleteDataSource,
+  getSheetSyncStatus
+} from '../../lib/database';
+import { importFileInBackground } from '../../lib/fileDataSources';
+import { syncPublishedCsvSource } from '../../lib/dynamicSync';
 import { logger } from '../../lib/logger';
 import { useAuth } from '../../contexts/AuthContext';
 
@@ -19,6 +34,10 @@ interface GoogleSheetTab {
   url: string;
 }
 
+// Sources the sync function reads (and the scheduler runs); the others get their rows from uploads
+const isSyncedSource = (dataSource: DataSource) =>
+  dataSource.source_type === 'google_sheets' || dataSource.source_type === 'published_csv';
+
 export const DataSourceManager: React.FC<DataSourceManagerProps> = ({
   clientId,
   onDataSourceAdded,
@@ -27,13 +46,23 @@ export const DataSourceManager: React.FC<DataSourceManagerProps> = ({
 }) => {
   const { user } = useAuth();
   const [dataSources, setDataSources] = useState<DataSource[]>([]);
+  const [syncStatuses, setSyncStatuses] = useState<SyncStatus[]>([]);
+  const [editingLayoutId, setEditingLayoutId] = useState<string | null>(null);
+  const [layoutDraft, setLayoutDraft] = useState<SheetLayoutConfig>({});
+  const [csvOptionsDraft, setCsvOptionsDraft] = useState<CsvOptions>({});
+  const [uploadsOpenId, setUploadsOpenId] = useState<string | null>(null);
+  const [mappingOpenId, setMappingOpenId] = useState<string | null>(null);
   const [showAddModal, setShowAddModal] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [selectedSourceType, setSelectedSourceType] = useState<'google_sheets' | 'csv' | 'xlsx' | null>(null);
+  const [selectedSourceType, setSelectedSourceType] = useState<DataSource['source_type'] | null>(null);
   const [spreadsheetId, setSpreadsheetId] = useState('');
   const [selectedTabs, setSelectedTabs] = useState<GoogleSheetTab[]>([]);
   const [dataSourceName, setDataSourceName] = useState('');
+  const [csvOptions, setCsvOptions] = useState<CsvOptions>({ delimiter: ',', encoding: 'utf-8', has_headers: true });
+  const [csvFile, setCsvFile] = useState<File | null>(null);
+  const [publishedCsvUrl, setPublishedCsvUrl] = useState('');
+  const [syncingId, setSyncingId] = useState<string | null>(null);
 
   useEffect(() => {
     loadDataSources();
@@ -46,13 +75,17 @@ export const DataSourceManager: React.FC<DataSourceManagerProps> = ({
     try {
       logger.debug('Loading data sources for client:', clientId);
       
-      const { data, error } = await getClientDataSources(clientId);
+      const [{ data, error }, { data: statusData }] = await Promise.all([
+        getClientDataSources(clientId),
+        getSheetSyncStatus(clientId)
+      ]);
       
       if (error) {
         throw new Error(error.message || 'Failed to load data sources');
       }
       
       setDataSources(data || []);
+      setSyncStatuses((statusData || []) as SyncStatus[]);
       logger.debug('Loaded data sources:', data?.length || 0);
     } catch (err) {
       logger.error('Error loading data sources:', err);
@@ -68,11 +101,17 @@ export const DataSourceManager: React.FC<DataSourceManagerProps> = ({
     setSpreadsheetId('');
     setSelectedTabs([]);
     setDataSourceName('');
+    setCsvOptions({ delimiter: ',', encoding: 'utf-8', has_headers: true });
+    setCsvFile(null);
+    setPublishedCsvUrl('');
     setError(null);
   };
 
+  // Google Sheets sources are named after their tabs
+  const needsName = selectedSourceType !== 'google_sheets';
+
   const handleCreateDataSources = async () => {
-    if (!selectedSourceType || !dataSourceName.trim()) {
+    if (!selectedSourceType || (needsName && !dataSourceName.trim())) {
       setError('Please select a source type and enter a name.');
       return;
     }
@@ -82,6 +121,16 @@ export const DataSourceManager: React.FC<DataSourceManagerProps> = ({
       return;
     }
 
+    if (selectedSourceType === 'csv' && !csvFile) {
+      setError('Please choose a CSV file.');
+      return;
+    }
+
+    if (selectedSourceType === 'published_csv' && !publishedCsvUrl.trim()) {
+      setError('Please enter the published CSV link.');
+      return;
+    }
+
     setLoading(true);
     setError(null);
 
@@ -91,7 +140,6 @@ export const DataSourceManager: React.FC<DataSourceManagerProps> = ({
       if (selectedSourceType === 'google_sheets') {
         const { data, error } = await createGoogleSheetsDataSources(
           clientId,
-          dataSourceName,
           spreadsheetId,
           selectedTabs
         );
@@ -102,37 +150,65 @@ export const DataSourceManager: React.FC<DataSourceManagerProps> = ({
 
         // Notify parent of each created data source
         if (data) {
-          for (const result of data) {
-            const dataSource: DataSource = {
-              id: result.data_source_id,
-              client_id: clientId,
-              name: result.data_source_name,
-              source_type: 'google_sheets',
-              source_config: {
-                spreadsheet_id: spreadsheetId,
-                sheet_name: selectedTabs.find(tab => result.data_source_name.includes(tab.name))?.name || '',
-                range: 'A:AZ',
-                auto_sync: true,
-                sync_frequency: 'daily'
-              },
-              is_active: true,
-              display_order: dataSources.length,
-              created_at: new Date().toISOString(),
-              updated_at: new Date().toISOString()
-            };
+          for (const dataSource of data) {
             onDataSourceAdded(dataSource);
           }
+          // Reused sources are already listed; replace them rather than duplicating
+          setDataSources(prev => [
+            ...prev.filter(ds => !data.some(d => d.id === ds.id)),
+            ...data,
+          ]);
         }
       }
 
+      if (selectedSourceType === 'csv' && csvFile) {
+        const { data, error } = await createFileDataSource(clientId, dataSourceName.trim(), 'csv', csvOptions);
+
+        if (error || !data) {
+          throw new Error(error?.message || 'Failed to create data source');
+        }
+
+        onDataSourceAdded(data);
+        setDataSources(prev => [...prev, data]);
+
+        // The file is imported in the background; the uploads panel shows its
+        // progress. The source is kept even if the import fails, so the
+        // settings can be fixed and the file uploaded again.
+        const result = await importFileInBackground(data, csvFile);
+        setUploadsOpenId(data.id);
+
+        if (!result.success) {
+          setShowAddModal(false);
+          setError(`Data source created, but the file could not be uploaded: ${result.error}`);
+          return;
+        }
+      }
+
+      if (selectedSourceType === 'published_csv') {
+        const { data, error } = await createPublishedCsvDataSource(clientId, dataSourceName.trim(), publishedCsvUrl);
+
+        if (error || !data) {
+          throw new Error(error?.message || 'Failed to create data source');
+        }
+
+        onDataSourceAdded(data);
+        setDataSources(prev => [...prev, data]);
+      }
+
       setShowAddModal(false);
       setSelectedSourceType(null);
       setSpreadsheetId('');
       setSelectedTabs([]);
       setDataSourceName('');
+      setCsvFile(null);
+      setPublishedCsvUrl('');
     } catch (err) {
       logger.error('Error creating data sources:', err);
-      setError('Failed to create data sources. Please try again.');
+      setError(
+        selectedSourceType === 'published_csv' && err instanceof Error
+          ? err.message
+          : 'Failed to create data sources. Please try again.'
+      );
     } finally {
       setLoading(false);
     }
@@ -159,10 +235,82 @@ export const DataSourceManager: React.FC<DataSourceManagerProps> = ({
     }
   };
 
+  const handleConfigChange = async (dataSource: DataSource, config: Partial<DataSourceConfig>) => {
+    try {
+      logger.debug('Updating data source config:', { dataSourceId: dataSource.id, config });
+
+      const { data, error } = await updateDataSourceConfig(dataSource.id, config);
+
+      if (error || !data) {
+        throw new Error(error?.message || 'Failed to update data source');
+      }
+
+      setDataSources(prev => prev.map(ds => (ds.id === data.id ? data : ds)));
+      onDataSourceUpdated(data);
+    } catch (err) {
+      logger.error('Error updating data source:', err);
+      setError('Failed to update data source. Please try again.');
+    }
+  };
+
+  const handleSyncNow = async (dataSource: DataSource) => {
+    setSyncingId(dataSource.id);
+    setError(null);
+
+    try {
+      const result = await syncPublishedCsvSource(dataSource);
+
+      if (!result.success) {
+        throw new Error(result.error?.details || 'Sync failed');
+      }
+    } catch (err) {
+      logger.error('Error syncing published CSV:', err);
+      setError(`Failed to sync ${dataSource.name}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setSyncingId(null);
+      loadDataSources();
+    }
+  };
+
+  const startEditingLayout = (dataSource: DataSource) => {
+    const {
+      range, named_range, header_row, date_column, date_format, ignored_columns, orientation, value_render,
+      delimiter, encoding, has_headers
+    } = dataSource.source_config;
+    setLayoutDraft({ range, named_range, header_row, date_column, date_format, ignored_columns, orientation, value_render });
+    setCsvOptionsDraft({ delimiter, encoding, has_headers });
+    setEditingLayoutId(dataSource.id);
+  };
+
+  const handleSaveLayout = async (dataSource: DataSource) => {
+    // Every layout key is sent so cleared fields are removed from source_config
+    await handleConfigChange(dataSource, {
+      range: layoutDraft.range,
+      named_range: layoutDraft.named_range,
+      header_row: layoutDraft.header_row,
+      date_column: layoutDraft.date_column,
+      date_format: layoutDraft.date_format,
+      ignored_columns: layoutDraft.ignored_columns,
+      orientation: layoutDraft.orientation,
+      value_render: layoutDraft.value_render,
+      ...(dataSource.source_type === 'csv' && csvOptionsDraft)
+    });
+    setEditingLayoutId(null);
+  };
+
+  const getLastSyncStatus = (dataSource: DataSource): SyncStatus | undefined =>
+    syncStatuses.find(
+      status =>
+        status.google_sheet_id === dataSource.source_config.spreadsheet_id &&
+        status.sheet_name === dataSource.source_config.sheet_name
+    );
+
   const getSourceIcon = (sourceType: string) => {
     switch (sourceType) {
       case 'google_sheets':
         return <Table size={20} className="text-green-600" />;
+      case 'published_csv':
+        return <Globe size={20} className="text-green-600" />;
       case 'csv':
         return <FileText size={20} className="text-blue-600" />;
       case 'xlsx':
@@ -235,13 +383,89 @@ export const DataSourceManager: React.FC<DataSourceManagerProps> = ({
                     <p className="text-xs text-gray-500">
                       {dataSource.source_type} • {dataSource.is_active ? 'Active' : 'Inactive'}
                     </p>
+                    {isSyncedSource(dataSource) && (() => {
+                      const lastSync = getLastSyncStatus(dataSource);
+                      if (!lastSync?.last_sync_at) {
+                        return <p className="text-xs text-gray-400">Never synced</p>;
+                      }
+                      const statusLabel = lastSync.sync_status === 'skipped' ? 'skipped, unchanged' : lastSync.sync_status;
+                      return (
+                        <p className={`text-xs ${lastSync.sync_status === 'error' ? 'text-red-600' : 'text-gray-400'}`}>
+                          Last sync: {new Date(lastSync.last_sync_at).toLocaleString()} ({statusLabel})
+                          {lastSync.sync_status === 'error' && lastSync.sync_error_message && ` — ${lastSync.sync_error_message}`}
+                        </p>
+                      );
+                    })()}
+                    {!isSyncedSource(dataSource) && (
+                      <p className="text-xs text-gray-400">
+                        {dataSource.source_config.current_version
+                          ? `Version ${dataSource.source_config.current_version}: ${dataSource.source_config.file_name}` +
+                            (dataSource.source_config.uploaded_at
+                              ? `, uploaded ${new Date(dataSource.source_config.uploaded_at).toLocaleString()}`
+                              : '')
+                          : 'No file uploaded'}
+                      </p>
+                    )}
                   </div>
                 </div>
+                {isSyncedSource(dataSource) && (
+                  <div className="flex items-center space-x-2">
+                    <label className="flex items-center space-x-1 text-xs text-gray-600">
+                      <input
+                        type="checkbox"
+                        checked={!!dataSource.source_config.auto_sync}
+                        onChange={(e) => handleConfigChange(dataSource, { auto_sync: e.target.checked })}
+                        className="rounded border-gray-300"
+                      />
+                      <span>Auto sync</span>
+                    </label>
+                    <select
+                      value={dataSource.source_config.sync_frequency || 'daily'}
+                      onChange={(e) => handleConfigChange(dataSource, {
+                        sync_frequency: e.target.value as DataSourceConfig['sync_frequency']
+                      })}
+                      disabled={!dataSource.source_config.auto_sync}
+                      className="text-xs border border-gray-300 rounded-md px-2 py-1 disabled:opacity-50"
+                    >
+                      <option value="daily">Daily</option>
+                      <option value="weekly">Weekly</option>
+                      <option value="monthly">Monthly</option>
+                    </select>
+                  </div>
+                )}
                 <div className="flex items-center space-x-2">
+                  {dataSource.source_type === 'published_csv' && (
+                    <button
+                      onClick={() => handleSyncNow(dataSource)}
+                      disabled={syncingId === dataSource.id}
+                      className="p-2 text-gray-400 hover:text-gray-600 disabled:opacity-50"
+                      title="Sync now"
+                    >
+                      <RefreshCw size={16} className={syncingId === dataSource.id ? 'animate-spin' : ''} />
+                    </button>
+                  )}
+                  {!isSyncedSource(dataSource) && (
+                    <button
+                      onClick={() => setUploadsOpenId(uploadsOpenId === dataSource.id ? null : dataSource.id)}
+                      className="p-2 text-gray-400 hover:text-gray-600"
+                      title="Uploads"
+                    >
+                      <Upload size={16} />
+                    </button>
+                  )}
                   <button
-                    onClick={() => {/* TODO: Implement edit */}}
+                    onClick={() => setMappingOpenId(mappingOpenId === dataSource.id ? null : dataSource.id)}
                     className="p-2 text-gray-400 hover:text-gray-600"
-                    title="Edit"
+                    title="Column mapping"
+                  >
+                    <Columns size={16} />
+                  </button>
+                  <button
+                    onClick={() =>
+                      editingLayoutId === dataSource.id ? setEditingLayoutId(null) : startEditingLayout(dataSource)
+                    }
+                    className="p-2 text-gray-400 hover:text-gray-600"
+                    title="Sheet layout"
                   >
                     <Settings size={16} />
                   </button>
@@ -254,6 +478,49 @@ export const DataSourceManager: React.FC<DataSourceManagerProps> = ({
                   </button>
                 </div>
               </div>
+              {editingLayoutId === dataSource.id && (
+                <div className="mt-4 pt-4 border-t border-gray-100 space-y-3">
+                  {dataSource.source_type === 'csv' && (
+                    <CsvOptionsFields value={csvOptionsDraft} onChange={setCsvOptionsDraft} />
+                  )}
+                  <SheetLayoutFields
+                    value={layoutDraft}
+                    onChange={setLayoutDraft}
+                    sourceType={dataSource.source_type}
+                  />
+                  {!isSyncedSource(dataSource) && (
+                    <p className="text-xs text-gray-500">Applied to the next upload.</p>
+                  )}
+                  <div className="flex justify-end space-x-2">
+                    <button
+                      onClick={() => setEditingLayoutId(null)}
+                      className="px-3 py-1.5 text-sm text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={() => handleSaveLayout(dataSource)}
+                      className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700"
+                    >
+                      Save Layout
+                    </button>
+                  </div>
+                </div>
+              )}
+              {mappingOpenId === dataSource.id && (
+                <div className="mt-4 pt-4 border-t border-gray-100">
+                  <ColumnMappingWizard
+                    dataSource={dataSource}
+                    onSave={(config) => handleConfigChange(dataSource, config)}
+                    onClose={() => setMappingOpenId(null)}
+                  />
+                </div>
+              )}
+              {uploadsOpenId === dataSource.id && (
+                <div className="mt-4 pt-4 border-t border-gray-100">
+                  <FileUploadVersions dataSource={dataSource} onChanged={loadDataSources} />
+                </div>
+              )}
             </div>
           ))}
         </div>
@@ -279,7 +546,7 @@ export const DataSourceManager: React.FC<DataSourceManagerProps> = ({
               {/* Source Type Selection */}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-3">Source Type</label>
-                <div className="grid grid-cols-3 gap-3">
+                <div className="grid grid-cols-4 gap-3">
                   <button
                     onClick={() => setSelectedSourceType('google_sheets')}
                     className={`p-4 border rounded-lg text-center ${
@@ -291,6 +558,17 @@ export const DataSourceManager: React.FC<DataSourceManagerProps> = ({
                     <Table size={24} className="mx-auto mb-2" />
                     <div className="text-sm font-medium">Google Sheets</div>
                   </button>
+                  <button
+                    onClick={() => setSelectedSourceType('published_csv')}
+                    className={`p-4 border rounded-lg text-center ${
+                      selectedSourceType === 'published_csv'
+                        ? 'border-blue-500 bg-blue-50 text-blue-700'
+                        : 'border-gray-300 hover:border-gray-400'
+                    }`}
+                  >
+                    <Globe size={24} className="mx-auto mb-2" />
+                    <div className="text-sm font-medium">Published CSV</div>
+                  </button>
                   <button
                     onClick={() => setSelectedSourceType('csv')}
                     className={`p-4 border rounded-lg text-center ${
@@ -319,19 +597,6 @@ export const DataSourceManager: React.FC<DataSourceManagerProps> = ({
               {/* Google Sheets Configuration */}
               {selectedSourceType === 'google_sheets' && (
                 <div className="space-y-4">
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-2">
-                      Data Source Name
-                    </label>
-                    <input
-                      type="text"
-                      value={dataSourceName}
-                      onChange={(e) => setDataSourceName(e.target.value)}
-                      placeholder="e.g., Q1 Sales Data"
-                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                    />
-                  </div>
-                  
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
                       Google Sheets URL or ID
@@ -361,11 +626,83 @@ export const DataSourceManager: React.FC<DataSourceManagerProps> = ({
                 </div>
               )}
 
-              {/* CSV/Excel Configuration */}
-              {(selectedSourceType === 'csv' || selectedSourceType === 'xlsx') && (
+              {/* Published CSV Configuration */}
+              {selectedSourceType === 'published_csv' && (
+                <div className="space-y-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Data Source Name
+                    </label>
+                    <input
+                      type="text"
+                      value={dataSourceName}
+                      onChange={(e) => setDataSourceName(e.target.value)}
+                      placeholder="e.g., Weekly Funnel"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Published CSV Link
+                    </label>
+                    <input
+                      type="url"
+                      value={publishedCsvUrl}
+                      onChange={(e) => setPublishedCsvUrl(e.target.value)}
+                      placeholder="https://docs.google.com/spreadsheets/d/e/2PACX.../pub?gid=0&single=true&output=csv"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+
+                  <p className="text-xs text-gray-500">
+                    In Google Sheets, use File → Share → Publish to web, pick the tab and "Comma-separated values (.csv)".
+                    No sharing with the service account is needed. Publish each tab as its own data source.
+                  </p>
+                </div>
+              )}
+
+              {/* CSV Configuration */}
+              {selectedSourceType === 'csv' && (
+                <div className="space-y-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Data Source Name
+                    </label>
+                    <input
+                      type="text"
+                      value={dataSourceName}
+                      onChange={(e) => setDataSourceName(e.target.value)}
+                      placeholder="e.g., CRM Export"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      CSV File
+                    </label>
+                    <input
+                      type="file"
+                      accept=".csv,.tsv,.txt,text/csv"
+                      onChange={(e) => setCsvFile(e.target.files?.[0] || null)}
+                      className="w-full text-sm text-gray-700"
+                    />
+                  </div>
+
+                  <CsvOptionsFields value={csvOptions} onChange={setCsvOptions} />
+                  <p className="text-xs text-gray-500">
+                    Header row, date column and layout can be adjusted from the data source's settings.
+                    Uploading a new file later replaces this one's rows.
+                  </p>
+                </div>
+              )}
+
+              {/* Excel Configuration */}
+              {selectedSourceType === 'xlsx' && (
                 <div className="text-center py-8">
                   <p className="text-gray-600">
-                    {selectedSourceType.toUpperCase()} file upload functionality will be implemented in the next phase.
+                    Excel workbooks are imported from the client form, with one data source per worksheet.
                   </p>
                 </div>
               )}
@@ -387,7 +724,7 @@ export const DataSourceManager: React.FC<DataSourceManagerProps> = ({
                 </button>
                 <button
                   onClick={handleCreateDataSources}
-                  disabled={loading || !selectedSourceType || !dataSourceName.trim()}
+                  disabled={loading || !selectedSourceType || (needsName && !dataSourceName.trim())}
                   className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
                 >
                   {loading ? 'Creating...' : 'Create Data Sources'}
@@ -0,0 +1,139 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { CheckCircle, Clock, Loader, XCircle } from 'lucide-react';
+import { FileImportJob } from '../../types/dataSource';
+import { getFileImportJobs } from '../../lib/database';
+import { logger } from '../../lib/logger';
+
+interface FileImportProgressProps {
+  dataSourceIds: string[];
+  sourceNames?: Record<string, string>; // Shown when jobs of several sources are listed
+  refreshKey?: number; // Bump after queueing a job to pick it up
+  limit?: number;
+  onJobFinished?: (job: FileImportJob) => void;
+}
+
+const POLL_INTERVAL_MS = 2000;
+
+const STAGE_LABELS: Record<NonNullable<FileImportJob['stage']>, string> = {
+  downloading: 'Downloading',
+  parsing: 'Parsing file',
+  transforming: 'Reading rows',
+  saving: 'Saving metrics'
+};
+
+const isPending = (job: FileImportJob) => job.status === 'queued' || job.status === 'processing';
+
+const describeImportResult = (job: FileImportJob): string => {
+  if (!job.result) return 'Imported.';
+  const result = job.result;
+  const firstWarning = result.warnings?.[0];
+  const skipped = result.warning_count
+    ? ` ${result.warning_count} skipped` + (firstWarning ? ` (row ${firstWarning.row}: ${firstWarning.message})` : '') + '.'
+    : '';
+  return result.unchanged
+    ? `Identical to version ${result.version}; nothing changed.`
+    : `Version ${result.version}: ${result.metrics_added} added, ${result.metrics_updated} updated, ` +
+        `${result.metrics_removed} removed, ${result.metrics_unchanged} unchanged.${skipped}`;
+};
+
+/**
+ * Recent background imports of the given data sources, polled while any is
+ * queued or running. Jobs run server-side, so closing the page doesn't stop
+ * them; reopening it shows where they got to.
+ */
+export const FileImportProgress: React.FC<FileImportProgressProps> = ({
+  dataSourceIds,
+  sourceNames,
+  refreshKey = 0,
+  limit = 3,
+  onJobFinished
+}) => {
+  const [jobs, setJobs] = useState<FileImportJob[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const pendingIds = useRef<Set<string>>(new Set());
+  const onJobFinishedRef = useRef(onJobFinished);
+  onJobFinishedRef.current = onJobFinished;
+
+  const idsKey = dataSourceIds.join(',');
+
+  const loadJobs = useCallback(async () => {
+    try {
+      const { data, error } = await getFileImportJobs(idsKey ? idsKey.split(',') : [], limit);
+
+      if (error || !data) {
+        throw new Error((error as { message?: string } | null)?.message || 'Failed to load imports');
+      }
+
+      // Report jobs seen pending earlier that have now finished
+      data.forEach(job => {
+        if (!isPending(job) && pendingIds.current.has(job.id)) {
+          onJobFinishedRef.current?.(job);
+        }
+      });
+      pendingIds.current = new Set(data.filter(isPending).map(job => job.id));
+
+      setJobs(data);
+      setError(null);
+    } catch (err) {
+      logger.error('Error loading file import jobs:', err);
+      setError('Failed to load import progress.');
+    }
+  }, [idsKey, limit]);
+
+  useEffect(() => {
+    loadJobs();
+  }, [loadJobs, refreshKey]);
+
+  const hasPending = jobs.some(isPending);
+  useEffect(() => {
+    if (!hasPending) return;
+    const timer = setTimeout(loadJobs, POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [hasPending, jobs, loadJobs]);
+
+  if (jobs.length === 0 && !error) return null;
+
+  return (
+    <div className="space-y-2">
+      {error && <p className="text-xs text-red-700">{error}</p>}
+      {jobs.map(job => (
+        <div key={job.id} className="p-2 border border-gray-200 rounded-md">
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-gray-900 truncate">
+              {job.file_name}
+              {sourceNames?.[job.data_source_id] && (
+                <span className="text-gray-500"> → {sourceNames[job.data_source_id]}</span>
+              )}
+            </p>
+            <span className="flex items-center space-x-1 text-xs text-gray-500 shrink-0 ml-2">
+              {job.status === 'queued' && <><Clock size={12} /><span>Waiting to start</span></>}
+              {job.status === 'processing' && (
+                <>
+                  <Loader size={12} className="animate-spin" />
+                  <span>{job.stage ? STAGE_LABELS[job.stage] : 'Processing'}</span>
+                </>
+              )}
+              {job.status === 'completed' && <><CheckCircle size={12} className="text-green-600" /><span>Done</span></>}
+              {job.status === 'failed' && <><XCircle size={12} className="text-red-600" /><span>Failed</span></>}
+            </span>
+          </div>
+
+          {isPending(job) && (
+            <>
+              <div className="mt-2 h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                <div className="h-full bg-blue-600 transition-all" style={{ width: `${job.progress}%` }} />
+              </div>
+              {job.rows_total !== null && job.rows_total > 0 && (
+                <p className="mt-1 text-xs text-gray-500">
+                  {job.rows_processed.toLocaleString()} of {job.rows_total.toLocaleString()} rows
+                </p>
+              )}
+            </>
+          )}
+          {job.status === 'completed' && <p className="mt-1 text-xs text-green-800">{describeImportResult(job)}</p>}
+          {job.status === 'failed' && <p className="mt-1 text-xs text-red-800">{job.error_message}</p>}
+        </div>
+      ))}
+    </div>
+  );
+};
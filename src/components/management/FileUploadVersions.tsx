@@ -0,0 +1,203 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { RefreshCw, RotateCcw, Upload } from 'lucide-react';
+import { DataSource, DataSourceUpload } from '../../types/dataSource';
+import { getDataSourceUploads, rollbackDataSourceUpload } from '../../lib/database';
+import { importFileInBackground } from '../../lib/fileDataSources';
+import { logger } from '../../lib/logger';
+import { FileImportProgress } from './FileImportProgress';
+
+interface FileUploadVersionsProps {
+  dataSource: DataSource;
+  onChanged: () => void;
+}
+
+/**
+ * Re-upload for a file data source, and its upload history with rollback.
+ * Uploads are parsed in the background and applied as a diff against the
+ * current rows.
+ */
+export const FileUploadVersions: React.FC<FileUploadVersionsProps> = ({ dataSource, onChanged }) => {
+  const [uploads, setUploads] = useState<DataSourceUpload[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [jobsRefreshKey, setJobsRefreshKey] = useState(0);
+
+  const loadUploads = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { data, error } = await getDataSourceUploads(dataSource.id);
+
+      if (error) {
+        throw new Error(error.message || 'Failed to load uploads');
+      }
+
+      setUploads(data || []);
+    } catch (err) {
+      logger.error('Error loading data source uploads:', err);
+      setError('Failed to load upload history. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [dataSource.id]);
+
+  useEffect(() => {
+    loadUploads();
+  }, [loadUploads]);
+
+  const handleFileSelected = async (file: File | undefined) => {
+    if (!file) return;
+
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const result = await importFileInBackground(dataSource, file);
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to upload file');
+      }
+
+      setJobsRefreshKey(key => key + 1);
+    } catch (err) {
+      logger.error('Error uploading file:', err);
+      setError(err instanceof Error ? err.message : 'Failed to upload file.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRollback = async (upload: DataSourceUpload) => {
+    if (!confirm(`Restore version ${upload.version} (${upload.file_name})? Its rows will replace the current ones.`)) {
+      return;
+    }
+
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const { data, error } = await rollbackDataSourceUpload(upload.id);
+
+      if (error || !data) {
+        throw new Error(error?.message || 'Failed to roll back');
+      }
+
+      setMessage(
+        `Restored version ${data.version}: ${data.metrics_added} added, ${data.metrics_updated} updated, ` +
+          `${data.metrics_removed} removed.`
+      );
+      await loadUploads();
+      onChanged();
+    } catch (err) {
+      logger.error('Error rolling back upload:', err);
+      setError(err instanceof Error ? err.message : 'Failed to roll back.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const accept = dataSource.source_type === 'csv' ? '.csv,.tsv,.txt,text/csv' : '.xlsx,.xls';
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h5 className="text-sm font-medium text-gray-900">Uploads</h5>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={loadUploads}
+            disabled={loading}
+            className="p-1.5 text-gray-400 hover:text-gray-600 disabled:opacity-50"
+            title="Refresh"
+          >
+            <RefreshCw size={14} className={loading ? 'animate-spin' : ''} />
+          </button>
+          <label
+            className={`flex items-center space-x-1 px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 cursor-pointer ${
+              busy ? 'opacity-50 pointer-events-none' : ''
+            }`}
+          >
+            <Upload size={14} />
+            <span>{busy ? 'Uploading...' : 'Upload new version'}</span>
+            <input
+              type="file"
+              accept={accept}
+              className="hidden"
+              onChange={(e) => {
+                handleFileSelected(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-2 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-xs text-red-800">{error}</p>
+        </div>
+      )}
+      {message && (
+        <div className="p-2 bg-green-50 border border-green-200 rounded-md">
+          <p className="text-xs text-green-800">{message}</p>
+        </div>
+      )}
+
+      <FileImportProgress
+        dataSourceIds={[dataSource.id]}
+        refreshKey={jobsRefreshKey}
+        onJobFinished={(job) => {
+          if (job.status !== 'completed') return;
+          loadUploads();
+          onChanged();
+        }}
+      />
+
+      {uploads.length === 0 ? (
+        !loading && <p className="text-xs text-gray-500">No uploads yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 border border-gray-200 rounded-md">
+          {uploads.map(upload => (
+            <li key={upload.id} className="flex items-center justify-between px-3 py-2">
+              <div>
+                <p className="text-sm text-gray-900">
+                  v{upload.version} • {upload.file_name}
+                  {upload.is_current && (
+                    <span className="ml-2 px-1.5 py-0.5 text-xs bg-green-100 text-green-800 rounded">current</span>
+                  )}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {new Date(upload.uploaded_at).toLocaleString()} • {upload.row_count} rows • {upload.metric_count} metrics
+                  {upload.metrics_added !== null && (
+                    <>
+                      {' • '}
+                      <span className="text-green-700">+{upload.metrics_added}</span>
+                      {' / '}
+                      <span className="text-amber-700">~{upload.metrics_updated}</span>
+                      {' / '}
+                      <span className="text-red-700">-{upload.metrics_removed}</span>
+                    </>
+                  )}
+                </p>
+              </div>
+              {!upload.is_current && (
+                <button
+                  onClick={() => handleRollback(upload)}
+                  disabled={busy}
+                  className="flex items-center space-x-1 px-2 py-1 text-xs text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 disabled:opacity-50"
+                >
+                  <RotateCcw size={12} />
+                  <span>Restore</span>
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
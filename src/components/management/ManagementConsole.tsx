@@ -8,13 +8,15 @@ import React, { useState, useEffect } from 'react';
 import { useGlobalPermissions } from '../../hooks/useGlobalPermissions';
 import { usePermissions } from "../../contexts/PermissionContext";
 import { RoleBasedWrapper } from "../shared/RoleBasedWrapper";
-import { User, Users, Building2, Mail, Palette } from "lucide-react";
+import { User, Users, Building2, Mail, Palette, History, Webhook } from "lucide-react";
 import { BrandSettings } from "../settings/BrandSettings";
 import { supabase } from "../../lib/supabase";
 import { logger } from "../../lib/logger";
 import { useApp } from "../../contexts/AppContext";
 import { useUnifiedRouting } from "../../hooks/useUnifiedRouting";
 import { ClientManagement } from "./ClientManagement";
+import { SyncRunHistory } from "./SyncRunHistory";
+import { WebhooksManager } from "./WebhooksManager";
 // Note: createMagicLinkInvitation function removed with new permission system
 import UserOverviewTab from "./UserOverviewTabMultiSelect";
 
@@ -396,6 +398,20 @@ const MANAGEMENT_TABS: ManagementTab[] = [
     component: InvitationsTab,
     requiresRole: "staff", // Staff and above
   },
+  {
+    id: "sync-history",
+    label: "Sync History",
+    icon: History,
+    component: SyncRunHistory,
+    requiresRole: "admin",
+  },
+  {
+    id: "webhooks",
+    label: "Webhooks",
+    icon: Webhook,
+    component: WebhooksManager, // Global endpoints; per-client ones are under Client Management
+    requiresRole: "admin",
+  },
   {
     id: "brand",
     label: "Brand",
@@ -479,7 +495,7 @@ export const ManagementConsole: React.FC = () => {
 
     if (pathSegments[0] === "management" && pathSegments[1]) {
       const tabFromUrl = pathSegments[1];
-      if (["clients", "users", "invitations", "brand"].includes(tabFromUrl)) {
+      if (["clients", "users", "invitations", "sync-history", "webhooks", "brand"].includes(tabFromUrl)) {
         setActiveTab(tabFromUrl);
         logger.debug("🧭 UserManagement: Synced tab from URL:", {
           tabFromUrl,
@@ -1104,6 +1120,9 @@ export const ManagementConsole: React.FC = () => {
                       clients,
                       onClientUpdate: app.loadClients,
                     })}
+                    {...(activeTab === "sync-history" && {
+                      clients,
+                    })}
                     {...(activeTab === "brand" &&
                       {
                         // BrandSettings expects no props; rendered as-is under Management
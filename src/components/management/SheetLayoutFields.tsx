@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { DataSource, SheetLayoutConfig } from '../../types/dataSource';
+import { DATE_FORMAT_OPTIONS, DateFormat } from '../../lib/dateParsing';
+
+interface SheetLayoutFieldsProps {
+  value: SheetLayoutConfig;
+  onChange: (layout: SheetLayoutConfig) => void;
+  disabled?: boolean;
+  sourceType?: DataSource['source_type']; // Hides fields the source type doesn't support
+}
+
+/**
+ * Orientation, header row, date column and format, range, ignored columns and
+ * value rendering for a sheet data source. CSV sources have no ranges,
+ * published CSV links no named ranges, and only Google Sheets can render
+ * unformatted values.
+ * Shared by the client setup form and the data source editor.
+ */
+export const SheetLayoutFields: React.FC<SheetLayoutFieldsProps> = ({
+  value,
+  onChange,
+  disabled = false,
+  sourceType = 'google_sheets'
+}) => {
+  // Kept as text so commas can be typed freely
+  const [ignoredText, setIgnoredText] = useState((value.ignored_columns || []).join(', '));
+
+  const update = (changes: Partial<SheetLayoutConfig>) => {
+    onChange({ ...value, ...changes });
+  };
+
+  const inputClass =
+    'w-full px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50';
+
+  const transposed = value.orientation === 'dates_as_columns';
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      <div className="col-span-2">
+        <label className="block text-xs font-medium text-gray-700 mb-1">Layout</label>
+        <select
+          value={value.orientation || 'dates_as_rows'}
+          onChange={(e) =>
+            update({ orientation: e.target.value === 'dates_as_columns' ? 'dates_as_columns' : undefined })
+          }
+          disabled={disabled}
+          className={inputClass}
+        >
+          <option value="dates_as_rows">One row per date, one column per metric</option>
+          <option value="dates_as_columns">Metrics down the first column, one column per date or month</option>
+        </select>
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-700 mb-1">Header row</label>
+        <input
+          type="number"
+          min={1}
+          value={value.header_row ?? ''}
+          onChange={(e) => update({ header_row: e.target.value ? parseInt(e.target.value, 10) : undefined })}
+          placeholder="1"
+          disabled={disabled}
+          className={inputClass}
+        />
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-700 mb-1">Date column</label>
+        <input
+          type="text"
+          value={transposed ? '' : value.date_column || ''}
+          onChange={(e) => update({ date_column: e.target.value || undefined })}
+          placeholder={transposed ? 'Dates are read from the header row' : 'Date'}
+          disabled={disabled || transposed}
+          className={inputClass}
+        />
+      </div>
+      <div className="col-span-2">
+        <label className="block text-xs font-medium text-gray-700 mb-1">Date format</label>
+        <select
+          value={value.date_format || 'auto'}
+          onChange={(e) => {
+            const format = e.target.value as DateFormat;
+            update({ date_format: format === 'auto' ? undefined : format });
+          }}
+          disabled={disabled}
+          className={inputClass}
+        >
+          {DATE_FORMAT_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+      {sourceType !== 'csv' && (
+        <>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Range</label>
+            <input
+              type="text"
+              value={value.range || ''}
+              onChange={(e) => update({ range: e.target.value || undefined })}
+              placeholder="A:AZ"
+              disabled={disabled || !!value.named_range}
+              className={inputClass}
+            />
+          </div>
+          {sourceType !== 'published_csv' && (
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Named range</label>
+              <input
+                type="text"
+                value={value.named_range || ''}
+                onChange={(e) => update({ named_range: e.target.value || undefined })}
+                placeholder="Overrides range"
+                disabled={disabled}
+                className={inputClass}
+              />
+            </div>
+          )}
+        </>
+      )}
+      <div className="col-span-2">
+        <label className="block text-xs font-medium text-gray-700 mb-1">Ignored columns</label>
+        <input
+          type="text"
+          value={ignoredText}
+          onChange={(e) => {
+            setIgnoredText(e.target.value);
+            const columns = e.target.value
+              .split(',')
+              .map(column => column.trim())
+              .filter(Boolean);
+            update({ ignored_columns: columns.length > 0 ? columns : undefined });
+          }}
+          placeholder="Notes, Week #"
+          disabled={disabled}
+          className={inputClass}
+        />
+      </div>
+      {sourceType === 'google_sheets' && (
+        <div className="col-span-2">
+          <label className="block text-xs font-medium text-gray-700 mb-1">Cell values</label>
+          <select
+            value={value.value_render || 'formatted'}
+            onChange={(e) =>
+              update({ value_render: e.target.value === 'unformatted' ? 'unformatted' : undefined })
+            }
+            disabled={disabled}
+            className={inputClass}
+          >
+            <option value="formatted">As displayed (types guessed from $, % and metric names)</option>
+            <option value="unformatted">Raw numbers and dates (types and currency from number formats)</option>
+          </select>
+        </div>
+      )}
+    </div>
+  );
+};
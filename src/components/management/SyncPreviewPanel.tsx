@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { Eye, AlertTriangle } from 'lucide-react';
+import { SyncPreviewTab } from '../../lib/dynamicSync';
+
+interface SyncPreviewPanelProps {
+  tabs: SyncPreviewTab[] | null;
+  loading: boolean;
+  onPreview: () => void;
+  disabled?: boolean;
+}
+
+// Rows shown per tab before "Show all"
+const COLLAPSED_ROW_COUNT = 20;
+
+export const SyncPreviewPanel: React.FC<SyncPreviewPanelProps> = ({
+  tabs,
+  loading,
+  onPreview,
+  disabled = false
+}) => {
+  const [expandedTabs, setExpandedTabs] = useState<Record<string, boolean>>({});
+
+  const formatValue = (value: number, metricType: string, currency?: string | null) => {
+    if (metricType === 'currency') {
+      return value.toLocaleString(undefined, { style: 'currency', currency: currency || 'USD', maximumFractionDigits: 2 });
+    }
+    if (metricType === 'percentage') return `${value}%`;
+    return value.toLocaleString();
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <h4 className="text-sm font-medium text-gray-900">Sync Preview</h4>
+          <p className="text-xs text-gray-500">
+            Check the parsed dates, values and categories before the first sync. Nothing is saved.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onPreview}
+          disabled={disabled || loading}
+          className="flex items-center space-x-2 px-3 py-2 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 disabled:opacity-50"
+        >
+          <Eye size={14} className={loading ? 'animate-pulse' : ''} />
+          <span>{loading ? 'Previewing...' : tabs ? 'Refresh Preview' : 'Preview Sync'}</span>
+        </button>
+      </div>
+
+      {tabs?.map(tab => {
+        const expanded = expandedTabs[tab.tab_name];
+        const visibleRows = expanded ? tab.rows : tab.rows.slice(0, COLLAPSED_ROW_COUNT);
+
+        return (
+          <div key={tab.tab_name} className="border-t border-gray-100 pt-3">
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-sm font-medium text-gray-800">{tab.tab_name}</span>
+              <span className={`text-xs ${tab.success ? 'text-gray-500' : 'text-red-600'}`}>
+                {tab.message}
+              </span>
+            </div>
+
+            {tab.rows.length > 0 && (
+              <div className="overflow-x-auto max-h-64 border border-gray-100 rounded">
+                <table className="min-w-full text-xs">
+                  <thead className="bg-gray-50 sticky top-0">
+                    <tr className="text-left text-gray-500">
+                      <th className="px-2 py-1">Date</th>
+                      <th className="px-2 py-1">Metric</th>
+                      <th className="px-2 py-1">Category</th>
+                      <th className="px-2 py-1">Type</th>
+                      <th className="px-2 py-1 text-right">Value</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {visibleRows.map((row, index) => (
+                      <tr key={index}>
+                        <td className="px-2 py-1 whitespace-nowrap">{row.date}</td>
+                        <td className="px-2 py-1">{row.metric_name}</td>
+                        <td className="px-2 py-1 text-gray-500">{row.category}</td>
+                        <td className="px-2 py-1 text-gray-500">{row.metric_type}</td>
+                        <td className="px-2 py-1 text-right">{formatValue(row.value, row.metric_type, row.currency)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {tab.rows.length > COLLAPSED_ROW_COUNT && (
+              <button
+                type="button"
+                onClick={() => setExpandedTabs(prev => ({ ...prev, [tab.tab_name]: !expanded }))}
+                className="text-xs text-blue-600 hover:text-blue-800 mt-1"
+              >
+                {expanded ? 'Show fewer rows' : `Show all ${tab.rows.length} preview rows`}
+                {tab.metrics_processed > tab.rows.length && ` (of ${tab.metrics_processed})`}
+              </button>
+            )}
+
+            {tab.skipped_rows.length > 0 && (
+              <p className="text-xs text-gray-500 mt-2">
+                Skipped rows: {tab.skipped_rows.map(skipped => skipped.row).join(', ')}
+              </p>
+            )}
+
+            {tab.warnings.length > 0 && (
+              <ul className="mt-2 space-y-1">
+                {tab.warnings.map((warning, index) => (
+                  <li key={index} className="flex items-start space-x-1 text-xs text-amber-800">
+                    <AlertTriangle size={12} className="mt-0.5 flex-shrink-0" />
+                    <span>
+                      Row {warning.row}{warning.column ? `, ${warning.column}` : ''}: {warning.message}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,278 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { RefreshCw, History, AlertTriangle, GitCompare } from 'lucide-react';
+import { getSyncRuns, getSyncRunDiff } from '../../lib/database';
+import { logger } from '../../lib/logger';
+import { SyncRun, SyncRunDiffRow } from '../../types';
+
+interface SyncRunHistoryProps {
+  clients: Array<{ id: string; name: string }>;
+}
+
+const statusBadge: Record<SyncRun['status'], string> = {
+  running: 'bg-blue-100 text-blue-800',
+  success: 'bg-green-100 text-green-800',
+  error: 'bg-red-100 text-red-800',
+};
+
+const changeBadge: Record<SyncRunDiffRow['change_type'], string> = {
+  added: 'text-green-700',
+  removed: 'text-red-700',
+  changed: 'text-amber-700',
+};
+
+export const SyncRunHistory: React.FC<SyncRunHistoryProps> = ({ clients }) => {
+  const [clientId, setClientId] = useState<string>(clients[0]?.id || '');
+  const [runs, setRuns] = useState<SyncRun[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedRunId, setExpandedRunId] = useState<string | null>(null);
+  const [selectedRunIds, setSelectedRunIds] = useState<string[]>([]);
+  const [diff, setDiff] = useState<SyncRunDiffRow[] | null>(null);
+  const [diffLoading, setDiffLoading] = useState(false);
+
+  useEffect(() => {
+    if (!clientId && clients.length > 0) {
+      setClientId(clients[0].id);
+    }
+  }, [clients, clientId]);
+
+  const loadRuns = useCallback(async () => {
+    if (!clientId) return;
+
+    setLoading(true);
+    setError(null);
+    setSelectedRunIds([]);
+    setDiff(null);
+
+    const { data, error } = await getSyncRuns(clientId);
+    if (error) {
+      logger.error('Error loading sync runs:', error);
+      setError('Failed to load sync history. Please try again.');
+    } else {
+      setRuns(data || []);
+    }
+    setLoading(false);
+  }, [clientId]);
+
+  useEffect(() => {
+    loadRuns();
+  }, [loadRuns]);
+
+  const toggleRunSelection = (runId: string) => {
+    setDiff(null);
+    setSelectedRunIds(prev => {
+      if (prev.includes(runId)) return prev.filter(id => id !== runId);
+      // Keep at most two selected; the newest pick replaces the oldest
+      return [...prev, runId].slice(-2);
+    });
+  };
+
+  const handleCompare = async () => {
+    if (selectedRunIds.length !== 2) return;
+
+    // Always diff older -> newer regardless of selection order
+    const [fromRun, toRun] = selectedRunIds
+      .map(id => runs.find(run => run.id === id)!)
+      .sort((a, b) => new Date(a.started_at).getTime() - new Date(b.started_at).getTime());
+
+    setDiffLoading(true);
+    setError(null);
+
+    const { data, error } = await getSyncRunDiff(fromRun.id, toRun.id);
+    if (error) {
+      logger.error('Error loading sync run diff:', error);
+      setError('Failed to compare sync runs. Please try again.');
+    } else {
+      setDiff(data || []);
+    }
+    setDiffLoading(false);
+  };
+
+  const formatValue = (value: number | null) => (value === null ? '—' : value.toLocaleString());
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <History size={20} className="text-gray-600" />
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Sync History</h3>
+            <p className="text-sm text-gray-600">Every sync run with its changes and parse warnings</p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-3">
+          <select
+            value={clientId}
+            onChange={(e) => setClientId(e.target.value)}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {clients.map(client => (
+              <option key={client.id} value={client.id}>{client.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={loadRuns}
+            disabled={loading}
+            className="flex items-center space-x-2 px-3 py-2 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 disabled:opacity-50"
+          >
+            <RefreshCw size={16} className={loading ? 'animate-spin' : ''} />
+            <span>Refresh</span>
+          </button>
+          <button
+            onClick={handleCompare}
+            disabled={selectedRunIds.length !== 2 || diffLoading}
+            className="flex items-center space-x-2 px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            <GitCompare size={16} />
+            <span>{diffLoading ? 'Comparing...' : 'Compare Selected'}</span>
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      {!loading && runs.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">No sync runs recorded for this client yet.</div>
+      ) : (
+        <div className="overflow-x-auto bg-white border border-gray-200 rounded-lg">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                <th className="px-3 py-2"></th>
+                <th className="px-3 py-2">Started</th>
+                <th className="px-3 py-2">Sheet</th>
+                <th className="px-3 py-2">Trigger</th>
+                <th className="px-3 py-2">Status</th>
+                <th className="px-3 py-2">Rows</th>
+                <th className="px-3 py-2">New / Updated / Removed</th>
+                <th className="px-3 py-2">Warnings</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {runs.map(run => (
+                <React.Fragment key={run.id}>
+                  <tr className={selectedRunIds.includes(run.id) ? 'bg-blue-50' : ''}>
+                    <td className="px-3 py-2">
+                      <input
+                        type="checkbox"
+                        checked={selectedRunIds.includes(run.id)}
+                        onChange={() => toggleRunSelection(run.id)}
+                        className="rounded border-gray-300"
+                      />
+                    </td>
+                    <td className="px-3 py-2 whitespace-nowrap">
+                      {new Date(run.started_at).toLocaleString()}
+                      {run.finished_at && (
+                        <span className="text-xs text-gray-400 ml-1">
+                          ({Math.round((new Date(run.finished_at).getTime() - new Date(run.started_at).getTime()) / 1000)}s)
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2">{run.sheet_name}</td>
+                    <td className="px-3 py-2 capitalize">{run.triggered_by}</td>
+                    <td className="px-3 py-2">
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${statusBadge[run.status]}`}>
+                        {run.status}
+                      </span>
+                      {run.error_message && (
+                        <p className="text-xs text-red-600 mt-1">{run.error_message}</p>
+                      )}
+                      {run.error_class && (
+                        <p className="text-xs text-gray-500 mt-0.5">
+                          {run.error_class === 'retryable' ? 'Temporary - the next sync may succeed' : 'Needs fixing before the next sync'}
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-3 py-2">{run.rows_read}</td>
+                    <td className="px-3 py-2 whitespace-nowrap">
+                      <span className="text-green-700">+{run.metrics_inserted}</span>
+                      {' / '}
+                      <span className="text-amber-700">~{run.metrics_updated}</span>
+                      {' / '}
+                      <span className="text-red-700">-{run.metrics_removed}</span>
+                    </td>
+                    <td className="px-3 py-2">
+                      {run.warning_count > 0 ? (
+                        <button
+                          onClick={() => setExpandedRunId(expandedRunId === run.id ? null : run.id)}
+                          className="flex items-center space-x-1 text-amber-700 hover:text-amber-900"
+                        >
+                          <AlertTriangle size={14} />
+                          <span>{run.warning_count}</span>
+                        </button>
+                      ) : (
+                        <span className="text-gray-400">0</span>
+                      )}
+                    </td>
+                  </tr>
+                  {expandedRunId === run.id && (
+                    <tr>
+                      <td colSpan={8} className="px-6 py-3 bg-amber-50">
+                        <ul className="space-y-1 text-xs text-amber-900">
+                          {run.warnings.map((warning, index) => (
+                            <li key={index}>
+                              Row {warning.row}{warning.column ? `, ${warning.column}` : ''}: {warning.message}
+                            </li>
+                          ))}
+                        </ul>
+                        {run.warning_count > run.warnings.length && (
+                          <p className="text-xs text-amber-700 mt-2">
+                            Showing first {run.warnings.length} of {run.warning_count} warnings
+                          </p>
+                        )}
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {diff && (
+        <div className="bg-white border border-gray-200 rounded-lg">
+          <div className="px-4 py-3 border-b border-gray-200">
+            <h4 className="text-sm font-semibold text-gray-900">
+              Differences ({diff.length})
+            </h4>
+          </div>
+          {diff.length === 0 ? (
+            <p className="p-4 text-sm text-gray-500">The selected runs synced identical values.</p>
+          ) : (
+            <div className="overflow-x-auto max-h-96">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    <th className="px-3 py-2">Change</th>
+                    <th className="px-3 py-2">Date</th>
+                    <th className="px-3 py-2">Metric</th>
+                    <th className="px-3 py-2">Tab</th>
+                    <th className="px-3 py-2 text-right">Before</th>
+                    <th className="px-3 py-2 text-right">After</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {diff.map((row, index) => (
+                    <tr key={index}>
+                      <td className={`px-3 py-2 capitalize ${changeBadge[row.change_type]}`}>{row.change_type}</td>
+                      <td className="px-3 py-2 whitespace-nowrap">{row.date}</td>
+                      <td className="px-3 py-2">{row.metric_name}</td>
+                      <td className="px-3 py-2 text-gray-500">{row.tab_name}</td>
+                      <td className="px-3 py-2 text-right">{formatValue(row.old_value)}</td>
+                      <td className="px-3 py-2 text-right">{formatValue(row.new_value)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,451 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Copy, Pencil, Plus, RefreshCw, RotateCcw, Send, Trash2, Webhook } from 'lucide-react';
+import { WebhookDelivery, WebhookEndpoint, WebhookEventType } from '../../types';
+import {
+  getWebhookEndpoints,
+  saveWebhookEndpoint,
+  rotateWebhookSecret,
+  deleteWebhookEndpoint,
+  getWebhookDeliveries,
+  replayWebhookDelivery
+} from '../../lib/database';
+import { logger } from '../../lib/logger';
+
+interface WebhooksManagerProps {
+  // Omitted for the global endpoints, which receive every client's events
+  clientId?: string;
+}
+
+const EVENT_TYPES: Array<{ value: WebhookEventType; label: string }> = [
+  { value: 'sync.completed', label: 'Sync completed' },
+  { value: 'sync.failed', label: 'Sync failed' },
+  { value: 'goal.hit', label: 'Monthly goal hit' },
+  { value: 'goal.missed', label: 'Monthly goal missed' }
+];
+
+const deliveryBadge: Record<WebhookDelivery['status'], string> = {
+  pending: 'bg-amber-100 text-amber-800',
+  delivering: 'bg-blue-100 text-blue-800',
+  succeeded: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800'
+};
+
+/**
+ * Webhook endpoints that are POSTed signed sync and goal events, with the
+ * recent delivery log. A signing secret is shown once, when the endpoint is
+ * created or its secret rotated.
+ */
+export const WebhooksManager: React.FC<WebhooksManagerProps> = ({ clientId }) => {
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [eventTypes, setEventTypes] = useState<WebhookEventType[]>([]);
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+  const [replayingId, setReplayingId] = useState<string | null>(null);
+
+  const loadWebhooks = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { data, error } = await getWebhookEndpoints(clientId ?? null);
+
+      if (error || !data) {
+        throw new Error(error?.message || 'Failed to load webhooks');
+      }
+
+      const { data: deliveryData, error: deliveryError } = await getWebhookDeliveries(data.map(endpoint => endpoint.id));
+
+      if (deliveryError) {
+        throw new Error(deliveryError.message || 'Failed to load webhook deliveries');
+      }
+
+      setEndpoints(data);
+      setDeliveries(deliveryData || []);
+    } catch (err) {
+      logger.error('Error loading webhooks:', err);
+      setError('Failed to load webhooks. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [clientId]);
+
+  useEffect(() => {
+    setNewSecret(null);
+    loadWebhooks();
+  }, [loadWebhooks]);
+
+  const endpointUrl = (endpointId: string) => endpoints.find(endpoint => endpoint.id === endpointId)?.url || 'Unknown endpoint';
+
+  const openForm = (endpoint?: WebhookEndpoint) => {
+    setEditingId(endpoint?.id ?? null);
+    setUrl(endpoint?.url ?? '');
+    setDescription(endpoint?.description ?? '');
+    setEventTypes(endpoint?.event_types ?? EVENT_TYPES.map(type => type.value));
+    setError(null);
+    setShowForm(true);
+  };
+
+  const toggleEventType = (eventType: WebhookEventType) => {
+    setEventTypes(prev =>
+      prev.includes(eventType) ? prev.filter(type => type !== eventType) : [...prev, eventType]
+    );
+  };
+
+  const handleSave = async () => {
+    if (!/^https:\/\/\S+$/i.test(url.trim())) {
+      setError('Webhook URL must start with https://');
+      return;
+    }
+    if (eventTypes.length === 0) {
+      setError('Choose at least one event type');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const existing = endpoints.find(endpoint => endpoint.id === editingId);
+      const { data, error } = await saveWebhookEndpoint({
+        id: editingId ?? undefined,
+        client_id: clientId ?? null,
+        url: url.trim(),
+        description: description.trim(),
+        event_types: eventTypes,
+        is_active: existing?.is_active ?? true
+      });
+
+      if (error || !data) {
+        throw new Error(error?.message || 'Failed to save webhook');
+      }
+
+      if (data.signing_secret) {
+        setNewSecret(data.signing_secret);
+      }
+      setShowForm(false);
+      await loadWebhooks();
+    } catch (err) {
+      logger.error('Error saving webhook endpoint:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save webhook.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (endpoint: WebhookEndpoint) => {
+    try {
+      const { error } = await saveWebhookEndpoint({
+        id: endpoint.id,
+        client_id: endpoint.client_id,
+        url: endpoint.url,
+        description: endpoint.description ?? '',
+        event_types: endpoint.event_types,
+        is_active: !endpoint.is_active
+      });
+
+      if (error) {
+        throw new Error(error.message || 'Failed to update webhook');
+      }
+
+      await loadWebhooks();
+    } catch (err) {
+      logger.error('Error updating webhook endpoint:', err);
+      setError('Failed to update webhook. Please try again.');
+    }
+  };
+
+  const handleRotate = async (endpoint: WebhookEndpoint) => {
+    if (!confirm(`Rotate the signing secret for ${endpoint.url}? The receiver must switch to the new secret.`)) {
+      return;
+    }
+
+    try {
+      const { data, error } = await rotateWebhookSecret(endpoint.id);
+
+      if (error || !data) {
+        throw new Error(error?.message || 'Failed to rotate secret');
+      }
+
+      setNewSecret(data);
+    } catch (err) {
+      logger.error('Error rotating webhook secret:', err);
+      setError('Failed to rotate secret. Please try again.');
+    }
+  };
+
+  const handleDelete = async (endpoint: WebhookEndpoint) => {
+    if (!confirm(`Delete the webhook to ${endpoint.url}? Its delivery log is deleted too.`)) {
+      return;
+    }
+
+    try {
+      const { error } = await deleteWebhookEndpoint(endpoint.id);
+
+      if (error) {
+        throw new Error(error.message || 'Failed to delete webhook');
+      }
+
+      await loadWebhooks();
+    } catch (err) {
+      logger.error('Error deleting webhook endpoint:', err);
+      setError('Failed to delete webhook. Please try again.');
+    }
+  };
+
+  const handleReplay = async (delivery: WebhookDelivery) => {
+    setReplayingId(delivery.id);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const { data, error } = await replayWebhookDelivery(delivery.id);
+
+      if (error || !data) {
+        throw new Error(error || 'Failed to replay delivery');
+      }
+
+      setNotice(`Replayed ${delivery.event_type}: ${data.message}`);
+      await loadWebhooks();
+    } catch (err) {
+      logger.error('Error replaying webhook delivery:', err);
+      setError(err instanceof Error ? err.message : 'Failed to replay delivery.');
+    } finally {
+      setReplayingId(null);
+    }
+  };
+
+  return (
+    <div className="webhooks-manager">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-3">
+          <Webhook size={20} className="text-gray-600" />
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Webhooks</h3>
+            <p className="text-sm text-gray-600">
+              {clientId
+                ? 'Notify other systems when this client syncs or hits or misses a monthly goal'
+                : 'Global endpoints receive sync and goal events for every client'}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={loadWebhooks}
+            disabled={loading}
+            className="flex items-center space-x-2 px-3 py-2 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 disabled:opacity-50"
+          >
+            <RefreshCw size={16} className={loading ? 'animate-spin' : ''} />
+            <span>Refresh</span>
+          </button>
+          <button
+            onClick={() => openForm()}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+          >
+            <Plus size={16} />
+            <span>New Webhook</span>
+          </button>
+        </div>
+      </div>
+
+      {/* Error Display */}
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      {notice && (
+        <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-md">
+          <p className="text-sm text-blue-800">{notice}</p>
+        </div>
+      )}
+
+      {/* New Signing Secret */}
+      {newSecret && (
+        <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-md space-y-2">
+          <p className="text-sm text-green-800">Copy this signing secret now. It won't be shown again.</p>
+          <div className="flex items-center space-x-2">
+            <code className="flex-1 px-2 py-1 text-xs bg-white border border-green-200 rounded break-all">{newSecret}</code>
+            <button
+              onClick={() => navigator.clipboard.writeText(newSecret)}
+              className="p-2 text-gray-500 hover:text-gray-700"
+              title="Copy"
+            >
+              <Copy size={16} />
+            </button>
+          </div>
+          <p className="text-xs text-green-800">
+            Each request carries <code>X-Webhook-Signature: t=&lt;timestamp&gt;,v1=&lt;signature&gt;</code>, the
+            hex HMAC-SHA256 of <code>&lt;timestamp&gt;.&lt;body&gt;</code> with this secret.
+          </p>
+          <button onClick={() => setNewSecret(null)} className="text-xs text-green-900 underline">
+            Done
+          </button>
+        </div>
+      )}
+
+      {/* Endpoints List */}
+      {endpoints.length === 0 ? (
+        !loading && <p className="text-sm text-gray-500 mb-4">No webhooks yet.</p>
+      ) : (
+        <div className="space-y-3 mb-4">
+          {endpoints.map(endpoint => (
+            <div
+              key={endpoint.id}
+              className={`flex items-center justify-between bg-white border border-gray-200 rounded-lg p-4 ${
+                endpoint.is_active ? '' : 'opacity-60'
+              }`}
+            >
+              <div className="min-w-0">
+                <p className="font-medium text-gray-900 break-all">
+                  {endpoint.url}
+                  {!endpoint.is_active && (
+                    <span className="ml-2 px-1.5 py-0.5 text-xs font-normal bg-gray-100 text-gray-700 rounded">paused</span>
+                  )}
+                </p>
+                {endpoint.description && <p className="text-sm text-gray-600">{endpoint.description}</p>}
+                <p className="text-xs text-gray-500">
+                  {endpoint.event_types.join(', ')} • Created {new Date(endpoint.created_at).toLocaleDateString()}
+                </p>
+              </div>
+              <div className="flex items-center space-x-1 flex-shrink-0">
+                <button
+                  onClick={() => handleToggleActive(endpoint)}
+                  className="px-2 py-1 text-xs text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+                >
+                  {endpoint.is_active ? 'Pause' : 'Resume'}
+                </button>
+                <button
+                  onClick={() => openForm(endpoint)}
+                  className="p-2 text-gray-400 hover:text-gray-700"
+                  title="Edit"
+                >
+                  <Pencil size={16} />
+                </button>
+                <button
+                  onClick={() => handleRotate(endpoint)}
+                  className="p-2 text-gray-400 hover:text-gray-700"
+                  title="Rotate signing secret"
+                >
+                  <RotateCcw size={16} />
+                </button>
+                <button
+                  onClick={() => handleDelete(endpoint)}
+                  className="p-2 text-gray-400 hover:text-red-600"
+                  title="Delete"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Create / Edit Form */}
+      {showForm && (
+        <div className="border border-gray-200 rounded-lg p-4 space-y-3 bg-gray-50 mb-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">URL</label>
+            <input
+              type="url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="https://example.com/hooks/metrics"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+            <input
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="e.g. Ops alerts in Slack"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Events</label>
+            <div className="grid grid-cols-2 gap-2">
+              {EVENT_TYPES.map(type => (
+                <label key={type.value} className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={eventTypes.includes(type.value)}
+                    onChange={() => toggleEventType(type.value)}
+                  />
+                  <span>{type.label}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="flex justify-end space-x-2">
+            <button
+              onClick={() => setShowForm(false)}
+              className="px-3 py-1.5 text-sm text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : editingId ? 'Save Webhook' : 'Create Webhook'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Delivery Log */}
+      {deliveries.length > 0 && (
+        <div>
+          <h4 className="text-sm font-semibold text-gray-900 mb-2">Recent Deliveries</h4>
+          <div className="border border-gray-200 rounded-lg divide-y divide-gray-100 bg-white">
+            {deliveries.map(delivery => (
+              <div key={delivery.id} className="flex items-center justify-between px-4 py-2">
+                <div className="min-w-0">
+                  <p className="text-sm text-gray-900">
+                    <span className={`mr-2 px-1.5 py-0.5 text-xs rounded ${deliveryBadge[delivery.status]}`}>
+                      {delivery.status}
+                    </span>
+                    {delivery.event_type}
+                    {delivery.replay_of && <span className="ml-2 text-xs text-gray-500">(replay)</span>}
+                  </p>
+                  <p className="text-xs text-gray-500 truncate">
+                    {new Date(delivery.created_at).toLocaleString()} • {endpointUrl(delivery.endpoint_id)} •{' '}
+                    {delivery.attempts} {delivery.attempts === 1 ? 'attempt' : 'attempts'}
+                    {delivery.response_status !== null && ` • HTTP ${delivery.response_status}`}
+                    {delivery.status === 'pending' && delivery.attempts > 0 &&
+                      ` • Retrying ${new Date(delivery.next_attempt_at).toLocaleTimeString()}`}
+                  </p>
+                  {delivery.error_message && delivery.status !== 'succeeded' && (
+                    <p className="text-xs text-red-700 truncate">{delivery.error_message}</p>
+                  )}
+                </div>
+                <button
+                  onClick={() => handleReplay(delivery)}
+                  disabled={replayingId === delivery.id}
+                  className="flex items-center space-x-1 px-2 py-1 text-xs text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 disabled:opacity-50 flex-shrink-0"
+                  title="Send this event again"
+                >
+                  <Send size={12} />
+                  <span>{replayingId === delivery.id ? 'Sending...' : 'Replay'}</span>
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,305 @@
+/**
+ * API Access Settings
+ *
+ * Tokens for the read-only metrics API, for users with canExportData.
+ * A token is scoped to the clients picked when it's minted and is shown
+ * only once.
+ */
+import React, { useState, useEffect, useCallback } from 'react';
+import { Copy, KeyRound, RefreshCw, Trash2 } from 'lucide-react';
+import { Client, MetricsApiToken } from '../../types';
+import { getClients, getMetricsApiTokens, createMetricsApiToken, revokeMetricsApiToken } from '../../lib/database';
+import { logger } from '../../lib/logger';
+
+const API_BASE_URL = `${(import.meta.env.VITE_SUPABASE_URL || '').replace(/\/$/, '')}/functions/v1/metrics-api/v1`;
+
+// Days until expiry; '' = never
+const EXPIRY_OPTIONS = [
+  { value: '', label: 'Never' },
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: '365', label: '1 year' }
+];
+
+export const ApiAccessSettings: React.FC = () => {
+  const [tokens, setTokens] = useState<MetricsApiToken[]>([]);
+  const [clients, setClients] = useState<Client[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [name, setName] = useState('');
+  const [selectedClientIds, setSelectedClientIds] = useState<string[]>([]);
+  const [expiryDays, setExpiryDays] = useState('');
+  const [newToken, setNewToken] = useState<string | null>(null);
+
+  const loadTokens = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const [{ data, error }, { data: clientData }] = await Promise.all([getMetricsApiTokens(), getClients()]);
+
+      if (error) {
+        throw new Error(error.message || 'Failed to load API tokens');
+      }
+
+      setTokens(data || []);
+      setClients((clientData || []) as Client[]);
+    } catch (err) {
+      logger.error('Error loading metrics API tokens:', err);
+      setError('Failed to load API tokens. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTokens();
+  }, [loadTokens]);
+
+  const clientName = (clientId: string) => clients.find(client => client.id === clientId)?.name || 'Unknown client';
+
+  const toggleClient = (clientId: string) => {
+    setSelectedClientIds(prev =>
+      prev.includes(clientId) ? prev.filter(id => id !== clientId) : [...prev, clientId]
+    );
+  };
+
+  const handleCreate = async () => {
+    if (!name.trim()) {
+      setError('Token name is required');
+      return;
+    }
+    if (selectedClientIds.length === 0) {
+      setError('Choose at least one client');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const expiresAt = expiryDays
+        ? new Date(Date.now() + parseInt(expiryDays, 10) * 86400000).toISOString()
+        : null;
+      const { data, error } = await createMetricsApiToken(name.trim(), selectedClientIds, expiresAt);
+
+      if (error || !data) {
+        throw new Error(error?.message || 'Failed to create API token');
+      }
+
+      setNewToken(data.api_token);
+      setShowForm(false);
+      await loadTokens();
+    } catch (err) {
+      logger.error('Error creating metrics API token:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create API token.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevoke = async (token: MetricsApiToken) => {
+    if (!confirm(`Revoke "${token.name}"? Anything using it will stop receiving data.`)) {
+      return;
+    }
+
+    try {
+      const { error } = await revokeMetricsApiToken(token.id);
+
+      if (error) {
+        throw new Error(error.message || 'Failed to revoke API token');
+      }
+
+      await loadTokens();
+    } catch (err) {
+      logger.error('Error revoking metrics API token:', err);
+      setError('Failed to revoke API token. Please try again.');
+    }
+  };
+
+  const isExpired = (token: MetricsApiToken) => !!token.expires_at && new Date(token.expires_at) <= new Date();
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg border border-gray-200 p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Metrics API Tokens</h3>
+            <p className="text-sm text-gray-600">
+              Read-only access to client metrics at{' '}
+              <code className="text-xs bg-gray-100 px-1 py-0.5 rounded">{API_BASE_URL}</code>
+            </p>
+          </div>
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={loadTokens}
+              disabled={loading}
+              className="flex items-center space-x-2 px-3 py-2 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 disabled:opacity-50"
+            >
+              <RefreshCw size={16} className={loading ? 'animate-spin' : ''} />
+              <span>Refresh</span>
+            </button>
+            <button
+              onClick={() => {
+                setName('');
+                setSelectedClientIds([]);
+                setExpiryDays('');
+                setError(null);
+                setShowForm(true);
+              }}
+              className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+            >
+              <KeyRound size={16} />
+              <span>New Token</span>
+            </button>
+          </div>
+        </div>
+
+        {/* Error Display */}
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md">
+            <p className="text-sm text-red-800">{error}</p>
+          </div>
+        )}
+
+        {/* Newly Minted Token */}
+        {newToken && (
+          <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-md space-y-2">
+            <p className="text-sm text-green-800">Copy this token now. It won't be shown again.</p>
+            <div className="flex items-center space-x-2">
+              <code className="flex-1 px-2 py-1 text-xs bg-white border border-green-200 rounded break-all">{newToken}</code>
+              <button
+                onClick={() => navigator.clipboard.writeText(newToken)}
+                className="p-2 text-gray-500 hover:text-gray-700"
+                title="Copy"
+              >
+                <Copy size={16} />
+              </button>
+            </div>
+            <p className="text-xs text-green-800">
+              Send it as <code>Authorization: Bearer &lt;token&gt;</code>, e.g.{' '}
+              <code>GET /clients/&lt;client id&gt;/metrics?from=2025-01-01&amp;granularity=week</code>
+            </p>
+            <button onClick={() => setNewToken(null)} className="text-xs text-green-900 underline">
+              Done
+            </button>
+          </div>
+        )}
+
+        {/* Tokens List */}
+        {tokens.length === 0 ? (
+          !loading && <p className="text-sm text-gray-500 mb-4">No API tokens yet.</p>
+        ) : (
+          <div className="space-y-3 mb-4">
+            {tokens.map(token => {
+              const inactive = !!token.revoked_at || isExpired(token);
+              return (
+                <div
+                  key={token.id}
+                  className={`flex items-center justify-between border border-gray-200 rounded-lg p-4 ${
+                    inactive ? 'opacity-60' : ''
+                  }`}
+                >
+                  <div>
+                    <p className="font-medium text-gray-900">
+                      {token.name}
+                      {token.revoked_at ? (
+                        <span className="ml-2 px-1.5 py-0.5 text-xs font-normal bg-red-100 text-red-800 rounded">revoked</span>
+                      ) : (
+                        isExpired(token) && (
+                          <span className="ml-2 px-1.5 py-0.5 text-xs font-normal bg-amber-100 text-amber-800 rounded">expired</span>
+                        )
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      <code>{token.token_prefix}…</code> • {token.client_ids.map(clientName).join(', ')}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      Created {new Date(token.created_at).toLocaleDateString()} •{' '}
+                      {token.expires_at ? `Expires ${new Date(token.expires_at).toLocaleDateString()}` : 'No expiry'} •{' '}
+                      {token.last_used_at ? `Last used ${new Date(token.last_used_at).toLocaleString()}` : 'Never used'}
+                    </p>
+                  </div>
+                  {!inactive && (
+                    <button
+                      onClick={() => handleRevoke(token)}
+                      className="p-2 text-gray-400 hover:text-red-600"
+                      title="Revoke"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Create Form */}
+        {showForm && (
+          <div className="border border-gray-200 rounded-lg p-4 space-y-3 bg-gray-50">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. BI warehouse"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Clients</label>
+              <div className="max-h-48 overflow-y-auto border border-gray-300 rounded-md bg-white divide-y divide-gray-100">
+                {clients.map(client => (
+                  <label key={client.id} className="flex items-center space-x-2 px-3 py-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={selectedClientIds.includes(client.id)}
+                      onChange={() => toggleClient(client.id)}
+                    />
+                    <span>{client.name}</span>
+                  </label>
+                ))}
+              </div>
+              <p className="mt-1 text-xs text-gray-500">
+                You need export permission on every client you pick.
+              </p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Expires</label>
+              <select
+                value={expiryDays}
+                onChange={(e) => setExpiryDays(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {EXPIRY_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="flex justify-end space-x-2">
+              <button
+                onClick={() => setShowForm(false)}
+                className="px-3 py-1.5 text-sm text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleCreate}
+                disabled={saving}
+                className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {saving ? 'Creating...' : 'Create Token'}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
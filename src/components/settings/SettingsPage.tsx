@@ -7,17 +7,19 @@
  */
 import React, { useState } from 'react';
 import { useGlobalPermissions } from '../../hooks/useGlobalPermissions';
-import { User, Shield, Bell } from "lucide-react";
+import { User, Shield, Bell, KeyRound, type LucideIcon } from "lucide-react";
 import { DebugSettingsTab } from "./DebugSettings";
 import { ProfileSettings } from "./ProfileSettings";
 import { NotificationSettings } from "./NotificationSettings";
+import { ApiAccessSettings } from "./ApiAccessSettings";
 
 interface SettingsTab {
   id: string;
   label: string;
-  icon: React.ComponentType<{ size?: number; className?: string }>;
+  icon: LucideIcon;
   component: React.ComponentType;
   requiresRole?: "admin" | "staff" | "client";
+  requiresPermission?: "canExportData";
 }
 
 const SETTINGS_TABS: SettingsTab[] = [
@@ -35,6 +37,13 @@ const SETTINGS_TABS: SettingsTab[] = [
     component: NotificationSettings,
     requiresRole: undefined, // Available to all users
   },
+  {
+    id: "api-access",
+    label: "API Access",
+    icon: KeyRound,
+    component: ApiAccessSettings,
+    requiresPermission: "canExportData", // Tokens can only read exportable clients
+  },
   {
     id: "debug",
     label: "Debug Settings",
@@ -50,6 +59,7 @@ export const SettingsPage: React.FC = () => {
 
   // Filter tabs based on user role
   const availableTabs = SETTINGS_TABS.filter((tab) => {
+    if (tab.requiresPermission && !permissions[tab.requiresPermission]) return false;
     if (!tab.requiresRole) return true;
 
     const roleHierarchy = { client: 1, staff: 2, admin: 3 };
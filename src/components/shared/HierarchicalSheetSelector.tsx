@@ -23,7 +23,7 @@ interface Sheet {
   id: string;
   name: string;
   url: string;
-  type: "google-sheets" | "excel";
+  type: "google-sheets" | "excel" | "published-csv" | "webhook";
   tabs: Tab[];
   isExpanded: boolean;
   isSelected: boolean;
@@ -565,6 +565,21 @@ export const HierarchicalSheetSelector: React.FC<
                                   <div className="font-medium text-gray-900 flex items-center">
                                     <div className="w-1.5 h-1.5 bg-blue-500 rounded-full mr-2"></div>
                                     {sheet.name}
+                                    {sheet.type === "excel" && (
+                                      <span className="ml-2 px-1.5 py-0.5 text-xs font-normal bg-green-100 text-green-800 rounded">
+                                        File
+                                      </span>
+                                    )}
+                                    {sheet.type === "published-csv" && (
+                                      <span className="ml-2 px-1.5 py-0.5 text-xs font-normal bg-blue-100 text-blue-800 rounded">
+                                        Published CSV
+                                      </span>
+                                    )}
+                                    {sheet.type === "webhook" && (
+                                      <span className="ml-2 px-1.5 py-0.5 text-xs font-normal bg-purple-100 text-purple-800 rounded">
+                                        API
+                                      </span>
+                                    )}
                                   </div>
                                 </div>
                               </div>
@@ -0,0 +1,344 @@
+import React, { useState, useEffect } from 'react';
+import { X, AlertTriangle } from 'lucide-react';
+import { Client, DataSource, MetricWriteRequest, MetricWriteResult } from '../../types';
+import { getClients, getClientDataSources, writeMetricToSheet } from '../../lib/database';
+import { logger } from '../../lib/logger';
+
+interface MetricEntryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  clientId?: string; // Omit to let the user pick a client
+  onSave?: () => void;
+}
+
+// Same category keys the Google Sheets sync assigns
+const CATEGORY_OPTIONS = [
+  { value: 'spend-revenue', label: 'Spend & Revenue' },
+  { value: 'cost-per-show', label: 'Cost per Show / Call' },
+  { value: 'funnel-volume', label: 'Funnel Volume' },
+  { value: 'funnel-conversion', label: 'Funnel Conversion Rates' },
+];
+
+const today = () => new Date().toISOString().split('T')[0];
+
+export const MetricEntryModal: React.FC<MetricEntryModalProps> = ({
+  isOpen,
+  onClose,
+  clientId,
+  onSave,
+}) => {
+  const [clients, setClients] = useState<Client[]>([]);
+  const [selectedClientId, setSelectedClientId] = useState(clientId || '');
+  const [dataSources, setDataSources] = useState<DataSource[]>([]);
+  const [dataSourceId, setDataSourceId] = useState('');
+  const [metricName, setMetricName] = useState('');
+  const [date, setDate] = useState(today());
+  const [value, setValue] = useState('');
+  const [metricType, setMetricType] = useState<MetricWriteRequest['metric_type']>('number');
+  const [category, setCategory] = useState(CATEGORY_OPTIONS[0].value);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [conflict, setConflict] = useState<MetricWriteResult | null>(null);
+
+  // Reset the form when the modal opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setSelectedClientId(clientId || '');
+    setMetricName('');
+    setDate(today());
+    setValue('');
+    setError(null);
+    setConflict(null);
+
+    if (!clientId) {
+      getClients().then(({ data }) => setClients((data || []) as Client[]));
+    }
+  }, [isOpen, clientId]);
+
+  // Only Google Sheets sources can be written back to
+  useEffect(() => {
+    setDataSources([]);
+    setDataSourceId('');
+    if (!isOpen || !selectedClientId) return;
+
+    getClientDataSources(selectedClientId).then(({ data }) => {
+      const sheets = (data || []).filter(
+        (source) => source.source_type === 'google_sheets' && source.is_active
+      );
+      setDataSources(sheets);
+      setDataSourceId(sheets[0]?.id || '');
+    });
+  }, [isOpen, selectedClientId]);
+
+  // A pending conflict no longer applies once the input changes
+  useEffect(() => {
+    setConflict(null);
+  }, [dataSourceId, metricName, date, value]);
+
+  const selectedSource = dataSources.find((source) => source.id === dataSourceId);
+  const numericValue = parseFloat(value);
+  const canSave =
+    !!selectedSource && metricName.trim() !== '' && !!date && !isNaN(numericValue);
+
+  const handleSave = async (force = false) => {
+    if (!selectedSource || !canSave) return;
+
+    const tabName = selectedSource.source_config.sheet_name || '';
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      logger.info('✍️ Writing metric to sheet', {
+        clientId: selectedClientId,
+        tabName,
+        metricName,
+        date,
+        force,
+      });
+
+      const { data, error: writeError } = await writeMetricToSheet({
+        client_id: selectedClientId,
+        google_sheet_id: selectedSource.source_config.spreadsheet_id || '',
+        sheet_name: tabName,
+        tab_name: tabName,
+        metric_name: metricName.trim(),
+        value: numericValue,
+        date,
+        category,
+        metric_type: metricType,
+        force,
+      });
+
+      if (data?.conflict) {
+        setConflict(data);
+        return;
+      }
+
+      if (writeError) {
+        setError(String(writeError));
+        return;
+      }
+
+      logger.info('✅ Metric written to sheet', { cell: data?.cell });
+
+      if (onSave) {
+        onSave();
+      }
+
+      onClose();
+    } catch (err) {
+      logger.error('❌ Error writing metric', err);
+      setError('Failed to save metric. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const inputClassName =
+    'w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full mx-4 max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b">
+          <h2 className="text-xl font-semibold text-gray-900">Edit Metric</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="p-6">
+          <p className="mb-4 text-sm text-gray-600">
+            The value is written to the client's Google Sheet and the dashboard.
+          </p>
+
+          {error && (
+            <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-md">
+              <p className="text-sm text-red-800">{error}</p>
+            </div>
+          )}
+
+          {conflict && (
+            <div className="mb-4 p-4 bg-yellow-50 border border-yellow-200 rounded-md">
+              <div className="flex items-start gap-2">
+                <AlertTriangle className="h-5 w-5 text-yellow-600 flex-shrink-0" />
+                <div className="text-sm text-yellow-800">
+                  <p className="font-medium">This cell was changed in the sheet</p>
+                  <p className="mt-1">
+                    Sheet: {conflict.sheet_value ?? 'empty'} &middot; Last synced:{' '}
+                    {conflict.synced_value ?? 'empty'}
+                    {conflict.cell && <> &middot; {conflict.cell}</>}
+                  </p>
+                  <p className="mt-1">Sync first to keep the sheet's value, or overwrite it.</p>
+                </div>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-4">
+            {!clientId && (
+              <div>
+                <label htmlFor="metric_client" className="block text-sm font-medium text-gray-700 mb-1">
+                  Client
+                </label>
+                <select
+                  id="metric_client"
+                  value={selectedClientId}
+                  onChange={(e) => setSelectedClientId(e.target.value)}
+                  className={inputClassName}
+                >
+                  <option value="">Select a client</option>
+                  {clients.map((c) => (
+                    <option key={c.id} value={c.id}>
+                      {c.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            <div>
+              <label htmlFor="metric_source" className="block text-sm font-medium text-gray-700 mb-1">
+                Sheet tab
+              </label>
+              <select
+                id="metric_source"
+                value={dataSourceId}
+                onChange={(e) => setDataSourceId(e.target.value)}
+                disabled={dataSources.length === 0}
+                className={`${inputClassName} disabled:bg-gray-100`}
+              >
+                {dataSources.length === 0 && <option value="">No Google Sheets connected</option>}
+                {dataSources.map((source) => (
+                  <option key={source.id} value={source.id}>
+                    {source.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label htmlFor="metric_name" className="block text-sm font-medium text-gray-700 mb-1">
+                Metric
+              </label>
+              <input
+                type="text"
+                id="metric_name"
+                list="metric_name_options"
+                value={metricName}
+                onChange={(e) => setMetricName(e.target.value)}
+                className={inputClassName}
+                placeholder="Column header, e.g. Ad Spend"
+              />
+              <datalist id="metric_name_options">
+                {(selectedSource?.source_config.columns || []).map((column) => (
+                  <option key={column} value={column} />
+                ))}
+              </datalist>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="metric_date" className="block text-sm font-medium text-gray-700 mb-1">
+                  Date
+                </label>
+                <input
+                  type="date"
+                  id="metric_date"
+                  value={date}
+                  onChange={(e) => setDate(e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label htmlFor="metric_value" className="block text-sm font-medium text-gray-700 mb-1">
+                  Value
+                </label>
+                <input
+                  type="number"
+                  id="metric_value"
+                  value={value}
+                  onChange={(e) => setValue(e.target.value)}
+                  className={inputClassName}
+                  placeholder="0"
+                  step="any"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="metric_type" className="block text-sm font-medium text-gray-700 mb-1">
+                  Type
+                </label>
+                <select
+                  id="metric_type"
+                  value={metricType}
+                  onChange={(e) => setMetricType(e.target.value as MetricWriteRequest['metric_type'])}
+                  className={inputClassName}
+                >
+                  <option value="number">Number</option>
+                  <option value="currency">Currency</option>
+                  <option value="percentage">Percentage</option>
+                </select>
+              </div>
+              <div>
+                <label htmlFor="metric_category" className="block text-sm font-medium text-gray-700 mb-1">
+                  Category
+                </label>
+                <select
+                  id="metric_category"
+                  value={category}
+                  onChange={(e) => setCategory(e.target.value)}
+                  className={inputClassName}
+                >
+                  {CATEGORY_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end gap-3 p-6 border-t bg-gray-50">
+          <button
+            onClick={onClose}
+            disabled={saving}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          {conflict ? (
+            <button
+              onClick={() => handleSave(true)}
+              disabled={saving}
+              className="px-4 py-2 text-sm font-medium text-white bg-yellow-600 border border-transparent rounded-md hover:bg-yellow-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-yellow-500 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Overwrite Sheet Value'}
+            </button>
+          ) : (
+            <button
+              onClick={() => handleSave()}
+              disabled={saving || !canSave}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save to Sheet'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -2,12 +2,15 @@ import React, { useState, useEffect } from 'react';
 import { Plus, RefreshCw, X, AlertCircle, Trash2 } from 'lucide-react';
 import { logger } from '../../lib/logger';
 import { discoverGoogleSheetsTabs } from '../../lib/database';
+import { listExcelWorksheets } from '../../lib/excelParser';
 import { usePermissions } from "../../contexts/PermissionContext";
 
 interface GoogleSheetTab {
   name: string;
   gid: string;
   url: string;
+  rows?: number; // Excel worksheets only
+  columns?: number;
 }
 
 interface DataSource {
@@ -278,14 +281,7 @@ export const MultiSheetSelector: React.FC<MultiSheetSelectorProps> = ({
           throw new Error("Excel file is required");
         }
 
-        // For Excel files, we'll create a single "sheet" tab
-        const tabs: GoogleSheetTab[] = [
-          {
-            name: "Sheet1",
-            gid: "0",
-            url: sheet.file.name,
-          },
-        ];
+        const tabs = await getExcelWorksheetTabs(sheet.file);
 
         const updatedSheet = {
           ...sheet,
@@ -399,21 +395,15 @@ export const MultiSheetSelector: React.FC<MultiSheetSelectorProps> = ({
           throw new Error("Excel file is required");
         }
 
-        // For Excel files, we'll create a single "sheet" tab
-        const tabs: GoogleSheetTab[] = [
-          {
-            name: "Sheet1",
-            gid: "0",
-            url: sheet.file.name,
-          },
-        ];
+        const tabs = await getExcelWorksheetTabs(sheet.file);
 
         if (currentSheet && currentSheet.id === sheet.id) {
-          setCurrentSheet({
-            ...currentSheet,
-            tabs,
-            selectedTabs: currentSheet.selectedTabs || [],
-          });
+          // Worksheets with data start out selected
+          setCurrentSheet((prev) =>
+            prev && prev.id === sheet.id
+              ? { ...prev, tabs, selectedTabs: tabs.filter((tab) => tab.rows) }
+              : prev
+          );
         } else {
           setSheets((prevSheets) =>
             prevSheets.map((s) =>
@@ -438,6 +428,22 @@ export const MultiSheetSelector: React.FC<MultiSheetSelectorProps> = ({
     }
   };
 
+  // Every worksheet of the workbook, with its size for the picker
+  const getExcelWorksheetTabs = async (file: File): Promise<GoogleSheetTab[]> => {
+    const workbook = await listExcelWorksheets(file);
+    if (!workbook.success) {
+      throw new Error(workbook.error || "Failed to read Excel file");
+    }
+
+    return workbook.sheets.map((worksheet) => ({
+      name: worksheet.name,
+      gid: `${worksheet.index}`,
+      url: file.name,
+      rows: worksheet.rows,
+      columns: worksheet.columns,
+    }));
+  };
+
   const extractSpreadsheetId = (url: string): string => {
     if (!url.includes("docs.google.com")) return "";
     const match = url.match(/\/spreadsheets\/d\/([a-zA-Z0-9-_]+)/);
@@ -584,18 +590,18 @@ export const MultiSheetSelector: React.FC<MultiSheetSelectorProps> = ({
                           onChange={(e) => {
                             const file = e.target.files?.[0];
                             if (file) {
-                              const fileType = file.name
-                                .toLowerCase()
-                                .endsWith(".csv")
-                                ? "csv"
-                                : "excel";
-                              setCurrentSheet({
+                              const sheetWithFile = {
                                 ...currentSheet,
                                 file,
                                 name: file.name,
                                 url: file.name,
-                                type: fileType, // Track file type
-                              });
+                                // CSV files are read as a single-worksheet workbook
+                                type: "excel" as const,
+                                tabs: [],
+                                selectedTabs: [],
+                              };
+                              setCurrentSheet(sheetWithFile);
+                              discoverTabs(sheetWithFile);
                             }
                           }}
                           disabled={disabled}
@@ -693,6 +699,11 @@ export const MultiSheetSelector: React.FC<MultiSheetSelectorProps> = ({
                           <span className="text-gray-700 flex-1">
                             {tab.name}
                           </span>
+                          {tab.rows !== undefined && (
+                            <span className="text-xs text-gray-400">
+                              {tab.rows} rows × {tab.columns} cols
+                            </span>
+                          )}
                         </label>
                       ))}
                     </div>
@@ -791,7 +802,7 @@ export const MultiSheetSelector: React.FC<MultiSheetSelectorProps> = ({
                   </div>
                 </div>
                 <div className="flex items-center space-x-2">
-                  {sheet.type === "google-sheets" && (
+                  {(sheet.type === "google-sheets" || sheet.tabs.length > 0) && (
                     <button
                       type="button"
                       onClick={() => selectSheetForTabs(sheet)}
@@ -22,6 +22,8 @@ export interface UserPermissions {
   canViewAllData: boolean;
   canInviteUsers: boolean;
   canAssignClients: boolean;
+  canSyncData: boolean;
+  canExportData: boolean;
 
   // Data filtering
   getAccessibleClientIds: () => string[];
@@ -85,6 +87,8 @@ export const useGlobalPermissions = (): UserPermissions => {
     canViewAllData: hasPermission("canViewAllData"),
     canInviteUsers: hasPermission("canInviteUsers"),
     canAssignClients: hasPermission("canManageClients"),
+    canSyncData: hasPermission("canSyncData"),
+    canExportData: hasPermission("canExportData"),
 
     // Data filtering
     getAccessibleClientIds: () => accessibleClients.map((c) => c.client_id),
@@ -174,7 +174,7 @@ export const useUnifiedRouting = () => {
 
       case 'management':
         const managementTab = rest[0] || app.activeTab || 'clients';
-        if (['users', 'invitations', 'clients', 'brand'].includes(managementTab)) {
+        if (['users', 'invitations', 'clients', 'sync-history', 'webhooks', 'brand'].includes(managementTab)) {
           logger.debug('🧭 Setting user-management section:', { tab: managementTab });
           app.setActiveSection('user-management');
           app.setSelectedClient(null);
@@ -0,0 +1,145 @@
+import { logger } from './logger';
+
+/**
+ * CSV Parser Utility
+ * Produces the same raw rows as parseExcelFile so the result goes through
+ * transformExcelData unchanged. Mirrored in
+ * supabase/functions/process-file-import - keep the two in step.
+ */
+
+export interface CsvParseOptions {
+  delimiter?: string; // Defaults to ","; "\t" for TSV
+  encoding?: string; // Any label TextDecoder understands, defaults to utf-8
+  has_headers?: boolean; // Defaults to true
+}
+
+export interface CsvParseResult {
+  success: boolean;
+  data: string[][];
+  columns: string[];
+  error?: string;
+}
+
+/**
+ * Parse a CSV file into rows. Without a header row, one is generated
+ * ("Column 1", "Column 2", ...) so layouts can still refer to columns by name.
+ */
+export async function parseCsvFile(
+  file: File,
+  options: CsvParseOptions = {}
+): Promise<CsvParseResult> {
+  try {
+    logger.debug("📄 Parsing CSV file:", {
+      fileName: file.name,
+      fileSize: file.size,
+      ...options,
+    });
+
+    const buffer = await file.arrayBuffer();
+    let text: string;
+    try {
+      // TextDecoder drops a leading byte order mark by default
+      text = new TextDecoder(options.encoding || "utf-8").decode(buffer);
+    } catch {
+      return {
+        success: false,
+        data: [],
+        columns: [],
+        error: `Unsupported encoding "${options.encoding}"`,
+      };
+    }
+
+    const delimiter = normalizeDelimiter(options.delimiter);
+    const rows = parseCsvText(text, delimiter).filter(
+      (row) => !(row.length === 1 && row[0].trim() === "")
+    );
+
+    if (rows.length === 0) {
+      return { success: false, data: [], columns: [], error: "CSV file is empty" };
+    }
+
+    if (options.has_headers === false) {
+      const width = Math.max(...rows.map((row) => row.length));
+      rows.unshift(Array.from({ length: width }, (_, i) => `Column ${i + 1}`));
+    }
+
+    const columns = rows[0].map((header) => header.trim());
+
+    logger.debug("📄 Parsed CSV data:", {
+      rows: rows.length,
+      columns: columns.length,
+    });
+
+    return { success: true, data: rows, columns };
+  } catch (error) {
+    logger.error("❌ CSV parsing error:", error);
+    return {
+      success: false,
+      data: [],
+      columns: [],
+      error: `Failed to parse CSV file: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+}
+
+function normalizeDelimiter(delimiter?: string): string {
+  if (!delimiter) return ",";
+  if (delimiter === "\\t" || delimiter.toLowerCase() === "tab") return "\t";
+  return delimiter;
+}
+
+/**
+ * RFC 4180: quoted fields may contain the delimiter, newlines and doubled
+ * quotes. Accepts \n, \r\n and \r line endings.
+ */
+function parseCsvText(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i += 2;
+          continue;
+        }
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      i++;
+      continue;
+    }
+
+    if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (text.startsWith(delimiter, i)) {
+      row.push(field);
+      field = "";
+      i += delimiter.length;
+      continue;
+    } else if (char === "\n" || char === "\r") {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+      if (char === "\r" && text[i + 1] === "\n") i++;
+    } else {
+      field += char;
+    }
+    i++;
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
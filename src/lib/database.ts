@@ -31,6 +31,9 @@ export {
   getUserClientAccess,
   getUserRoleAndPermissions,
   ensureUserProfile,
+  getMetricsApiTokens,
+  createMetricsApiToken,
+  revokeMetricsApiToken,
 
   // Client management
   getClients,
@@ -52,7 +55,22 @@ export {
   assignAllUnownedClients,
   getClientDataSources,
   createGoogleSheetsDataSources,
+  createFileDataSource,
+  createPublishedCsvDataSource,
+  createExcelDataSources,
+  updateDataSourceConfig,
   deleteDataSource,
+  getDataSourceUploads,
+  rollbackDataSourceUpload,
+  queueFileImport,
+  startFileImportJob,
+  getFileImportJobs,
+  getGoogleCredentials,
+  saveGoogleCredentials,
+  deleteGoogleCredentials,
+  getClientApiKeys,
+  createClientApiKey,
+  revokeClientApiKey,
 
   // Metrics management
   getMetricEntries,
@@ -62,11 +80,13 @@ export {
   addMetricEntry,
   updateMetricEntry,
   deleteMetricEntry,
+  writeMetricToSheet,
   getStaffMetricConfigurations,
   getConfiguredMetricEntries,
   deleteStaffMetricConfiguration,
   deleteMetricConfiguration,
   getDiscoveredMetrics,
+  getClientMetricNames,
   cleanupOrphanedMetricEntries,
   cleanupDuplicatedMetricsBeforeSync,
   getOptimizedDashboardData,
@@ -75,6 +95,7 @@ export {
   // Goals management
   getClientGoals,
   updateClientGoals,
+  evaluateClientGoals,
   calculateGoalProgress,
   isOverTarget,
   getProgressColor,
@@ -89,4 +110,13 @@ export {
   updateStaffSyncStatus,
   updateUndeniableSyncStatus,
   getUndeniableSyncStatus,
+  getSheetSyncStatus,
+  getSyncRuns,
+  getSyncRunDiff,
+  getWebhookEndpoints,
+  saveWebhookEndpoint,
+  rotateWebhookSecret,
+  deleteWebhookEndpoint,
+  getWebhookDeliveries,
+  replayWebhookDelivery,
 } from "./database/index";
\ No newline at end of file
@@ -7,6 +7,15 @@
 import { supabase } from '../supabase';
 import { logger } from '../logger';
 import { Client } from '../../types';
+import {
+  ClientApiKey,
+  ClientApiKeyScope,
+  DataSource,
+  DataSourceConfig,
+  DataSourceUpload,
+  FileImportJob,
+  GoogleCredentials,
+} from '../../types/dataSource';
 import {
   canAccessClient as checkClientAccess,
   assignUserRole,
@@ -524,9 +533,10 @@ export const assignAllUnownedClients = async () => {
 export const getClientDataSources = async (clientId: string) => {
   try {
     const { data, error } = await supabase
-      .from("discovered_metrics")
+      .from("data_sources")
       .select("*")
-      .eq("client_id", clientId);
+      .eq("client_id", clientId)
+      .order("display_order", { ascending: true });
 
     if (error) {
       logger.error("❌ Error fetching client data sources:", error);
@@ -534,7 +544,7 @@ export const getClientDataSources = async (clientId: string) => {
     }
 
     logger.debug("✅ Loaded client data sources:", { clientId, count: data?.length || 0 });
-    return { data: data || [], error: null };
+    return { data: (data || []) as DataSource[], error: null };
   } catch (error) {
     logger.error("❌ Error in getClientDataSources:", error);
     return { data: null, error };
@@ -543,48 +553,336 @@ export const getClientDataSources = async (clientId: string) => {
 
 export const createGoogleSheetsDataSources = async (
   clientId: string,
-  dataSources: Array<{
-    sheet_url: string;
-    sheet_name: string;
-    tabs: Array<{
-      name: string;
-      gid: string;
-      url: string;
-    }>;
+  spreadsheetId: string,
+  tabs: Array<{
+    name: string;
+    gid: string;
+    url: string;
   }>
 ) => {
   try {
-    const records = dataSources.flatMap(source =>
-      source.tabs.map(tab => ({
-        client_id: clientId,
-        sheet_url: source.sheet_url,
-        sheet_name: source.sheet_name,
-        tab_name: tab.name,
-        tab_gid: tab.gid,
-        tab_url: tab.url,
-        configuration: {},
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      }))
+    const { data: { user } } = await supabase.auth.getUser();
+
+    // Tabs may already have a source, e.g. one created by the client's
+    // google_sheets_tabs trigger; reuse those instead of adding duplicates
+    const { data: existing, error: existingError } = await supabase
+      .from("data_sources")
+      .select("*")
+      .eq("client_id", clientId)
+      .eq("source_type", "google_sheets")
+      .eq("source_config->>spreadsheet_id", spreadsheetId)
+      .in("source_config->>sheet_name", tabs.map((tab) => tab.name));
+
+    if (existingError) {
+      logger.error("❌ Error checking existing Google Sheets data sources:", existingError);
+      return { data: null, error: existingError };
+    }
+
+    const existingSources = (existing || []) as DataSource[];
+    const inactiveIds = existingSources
+      .filter((source) => !source.is_active)
+      .map((source) => source.id);
+
+    if (inactiveIds.length > 0) {
+      const { error: reactivateError } = await supabase
+        .from("data_sources")
+        .update({ is_active: true, updated_at: new Date().toISOString() })
+        .in("id", inactiveIds);
+
+      if (reactivateError) {
+        logger.error("❌ Error reactivating Google Sheets data sources:", reactivateError);
+        return { data: null, error: reactivateError };
+      }
+    }
+
+    const existingTabs = new Set(
+      existingSources.map((source) => source.source_config?.sheet_name)
     );
 
+    // One data source per new tab, named after the tab like the trigger does
+    const records = tabs
+      .map((tab, index) => ({ tab, index }))
+      .filter(({ tab }) => !existingTabs.has(tab.name))
+      .map(({ tab, index }) => ({
+        client_id: clientId,
+        name: tab.name,
+        source_type: "google_sheets",
+        source_config: {
+          spreadsheet_id: spreadsheetId,
+          sheet_name: tab.name,
+          range: "A:AZ",
+          auto_sync: false,
+          sync_frequency: "daily",
+        } as DataSourceConfig,
+        is_active: true,
+        display_order: index,
+        created_by: user?.id,
+      }));
+
+    let created: DataSource[] = [];
+    if (records.length > 0) {
+      const { data, error } = await supabase
+        .from("data_sources")
+        .insert(records)
+        .select();
+
+      if (error) {
+        logger.error("❌ Error creating Google Sheets data sources:", error);
+        return { data: null, error };
+      }
+      created = (data || []) as DataSource[];
+    }
+
+    logger.debug("✅ Created Google Sheets data sources:", { 
+      clientId, 
+      created: created.length,
+      reused: existingSources.length,
+    });
+    return {
+      data: [
+        ...existingSources.map((source) => ({ ...source, is_active: true })),
+        ...created,
+      ],
+      error: null,
+    };
+  } catch (error) {
+    logger.error("❌ Error in createGoogleSheetsDataSources:", error);
+    return { data: null, error };
+  }
+};
+
+// CSV/XLSX source; its rows arrive through uploadDataSourceFile
+export const createFileDataSource = async (
+  clientId: string,
+  name: string,
+  sourceType: "csv" | "xlsx",
+  config: DataSourceConfig = {}
+) => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
     const { data, error } = await supabase
-      .from("discovered_metrics")
-      .insert(records)
-      .select();
+      .from("data_sources")
+      .insert({
+        client_id: clientId,
+        name,
+        source_type: sourceType,
+        source_config: config,
+        is_active: true,
+        display_order: 0,
+        created_by: user?.id,
+      })
+      .select()
+      .single();
 
     if (error) {
-      logger.error("❌ Error creating Google Sheets data sources:", error);
+      logger.error("❌ Error creating file data source:", error);
       return { data: null, error };
     }
 
-    logger.debug("✅ Created Google Sheets data sources:", { 
-      clientId, 
-      count: records.length 
+    logger.debug("✅ Created file data source:", { clientId, name, sourceType });
+    return { data: data as DataSource, error: null };
+  } catch (error) {
+    logger.error("❌ Error in createFileDataSource:", error);
+    return { data: null, error };
+  }
+};
+
+// Only Google "Publish to web" links are accepted
+// (https://docs.google.com/spreadsheets/d/e/<id>/pub?gid=...&output=csv); the
+// sync refuses to fetch anything else (isPublishedCsvUrl in
+// google-metric-sync-enhanced - keep them in step). The publish id is shared
+// by the document's tabs, which groups them into one scheduled batch. A link
+// to the published web page is switched to its CSV output.
+const parsePublishedCsvUrl = (url: string): { csvUrl: string; spreadsheetId: string } | null => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return null;
+  }
+  if (
+    parsed.protocol !== "https:" ||
+    parsed.hostname !== "docs.google.com" ||
+    parsed.port ||
+    parsed.username ||
+    parsed.password
+  ) {
+    return null;
+  }
+
+  const publishId = parsed.pathname.match(/^\/spreadsheets\/d\/e\/([a-zA-Z0-9_-]+)\/pub(?:html)?$/)?.[1];
+  if (!publishId) return null;
+
+  parsed.pathname = parsed.pathname.replace(/\/pubhtml$/, "/pub");
+  parsed.searchParams.set("output", "csv");
+  return { csvUrl: parsed.toString(), spreadsheetId: publishId };
+};
+
+// A tab published to the web as CSV, synced like a Google Sheets tab but read
+// from its public link, so no service account access is needed
+export const createPublishedCsvDataSource = async (
+  clientId: string,
+  name: string,
+  url: string
+) => {
+  try {
+    const link = parsePublishedCsvUrl(url);
+    if (!link) {
+      return {
+        data: null,
+        error: { message: "Enter a Google Sheets \"Publish to web\" link (https://docs.google.com/spreadsheets/d/e/.../pub?output=csv)" },
+      };
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const { data, error } = await supabase
+      .from("data_sources")
+      .insert({
+        client_id: clientId,
+        name,
+        source_type: "published_csv",
+        source_config: {
+          spreadsheet_id: link.spreadsheetId,
+          sheet_name: name,
+          csv_url: link.csvUrl,
+          range: "A:AZ",
+          auto_sync: false,
+          sync_frequency: "daily",
+        } as DataSourceConfig,
+        is_active: true,
+        display_order: 0,
+        created_by: user?.id,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      logger.error("❌ Error creating published CSV data source:", error);
+      return { data: null, error };
+    }
+
+    logger.debug("✅ Created published CSV data source:", { clientId, name });
+    return { data: data as DataSource, error: null };
+  } catch (error) {
+    logger.error("❌ Error in createPublishedCsvDataSource:", error);
+    return { data: null, error };
+  }
+};
+
+// One xlsx data source per worksheet, named "<name> - <worksheet>" like Google
+// tabs. The name is the source's identity: an existing xlsx source with the
+// same name is reused, so importing a workbook again updates its sources.
+export const createExcelDataSources = async (
+  clientId: string,
+  name: string,
+  worksheets: string[],
+  config: DataSourceConfig = {}
+) => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    const names = worksheets.map((worksheet) => `${name} - ${worksheet}`);
+
+    const { data: existing, error: fetchError } = await supabase
+      .from("data_sources")
+      .select("*")
+      .eq("client_id", clientId)
+      .eq("source_type", "xlsx")
+      .in("name", names);
+
+    if (fetchError) {
+      logger.error("❌ Error fetching existing Excel data sources:", fetchError);
+      return { data: null, error: fetchError };
+    }
+
+    const existingByName = new Map((existing as DataSource[]).map((source) => [source.name, source]));
+    const records = worksheets
+      .map((worksheet, index) => ({
+        client_id: clientId,
+        name: names[index],
+        source_type: "xlsx",
+        source_config: { ...config, sheet_name: worksheet } as DataSourceConfig,
+        is_active: true,
+        display_order: index,
+        created_by: user?.id,
+      }))
+      .filter((record) => !existingByName.has(record.name));
+
+    let created: DataSource[] = [];
+    if (records.length > 0) {
+      const { data, error } = await supabase
+        .from("data_sources")
+        .insert(records)
+        .select();
+
+      if (error) {
+        logger.error("❌ Error creating Excel data sources:", error);
+        return { data: null, error };
+      }
+      created = data as DataSource[];
+    }
+
+    const createdByName = new Map(created.map((source) => [source.name, source]));
+    logger.debug("✅ Created Excel data sources:", {
+      clientId,
+      created: created.length,
+      reused: existingByName.size
     });
-    return { data, error: null };
+    return {
+      data: names.map((sourceName) => existingByName.get(sourceName) || createdByName.get(sourceName)!),
+      error: null
+    };
   } catch (error) {
-    logger.error("❌ Error in createGoogleSheetsDataSources:", error);
+    logger.error("❌ Error in createExcelDataSources:", error);
+    return { data: null, error };
+  }
+};
+
+/**
+ * Merge config into a data source's source_config.
+ * Keys passed with an undefined value are removed.
+ */
+export const updateDataSourceConfig = async (
+  dataSourceId: string,
+  config: Partial<DataSourceConfig>
+) => {
+  try {
+    const { data: existing, error: fetchError } = await supabase
+      .from("data_sources")
+      .select("source_config")
+      .eq("id", dataSourceId)
+      .single();
+
+    if (fetchError) {
+      logger.error("❌ Error fetching data source config:", fetchError);
+      return { data: null, error: fetchError };
+    }
+
+    const merged: Record<string, unknown> = { ...(existing?.source_config || {}), ...config };
+    Object.keys(config).forEach((key) => {
+      if (merged[key] === undefined) delete merged[key];
+    });
+
+    const { data, error } = await supabase
+      .from("data_sources")
+      .update({
+        source_config: merged,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", dataSourceId)
+      .select()
+      .single();
+
+    if (error) {
+      logger.error("❌ Error updating data source config:", error);
+      return { data: null, error };
+    }
+
+    logger.debug("✅ Data source config updated:", { dataSourceId, config });
+    return { data: data as DataSource, error: null };
+  } catch (error) {
+    logger.error("❌ Error in updateDataSourceConfig:", error);
     return { data: null, error };
   }
 };
@@ -592,7 +890,7 @@ export const createGoogleSheetsDataSources = async (
 export const deleteDataSource = async (dataSourceId: string) => {
   try {
     const { error } = await supabase
-      .from("discovered_metrics")
+      .from("data_sources")
       .delete()
       .eq("id", dataSourceId);
 
@@ -607,4 +905,298 @@ export const deleteDataSource = async (dataSourceId: string) => {
     logger.error("❌ Error in deleteDataSource:", error);
     return { data: null, error };
   }
-};
\ No newline at end of file
+};
+
+// ===== DATA SOURCE UPLOADS =====
+export interface DataSourceUploadResult {
+  upload_id: string;
+  version: number;
+  unchanged: boolean; // Same file and metrics as the current version; nothing was written
+  metrics_added: number;
+  metrics_updated: number;
+  metrics_removed: number;
+  metrics_unchanged: number;
+}
+
+export const getDataSourceUploads = async (dataSourceId: string) => {
+  try {
+    const { data, error } = await supabase
+      .from("data_source_uploads")
+      .select("id, data_source_id, client_id, version, file_name, file_size, content_hash, row_count, metric_count, metrics_added, metrics_updated, metrics_removed, is_current, uploaded_by, uploaded_at")
+      .eq("data_source_id", dataSourceId)
+      .order("version", { ascending: false });
+
+    if (error) {
+      logger.error("❌ Error fetching data source uploads:", error);
+      return { data: null, error };
+    }
+
+    return { data: (data || []) as DataSourceUpload[], error: null };
+  } catch (error) {
+    logger.error("❌ Error in getDataSourceUploads:", error);
+    return { data: null, error };
+  }
+};
+
+export const rollbackDataSourceUpload = async (uploadId: string) => {
+  try {
+    const { data, error } = await supabase.rpc("rollback_data_source_upload", {
+      p_upload_id: uploadId,
+    });
+
+    if (error) {
+      logger.error("❌ Error rolling back data source upload:", error);
+      return { data: null, error };
+    }
+
+    const result = (data as DataSourceUploadResult[])?.[0] || null;
+    logger.debug("✅ Data source upload rolled back:", { uploadId, ...result });
+    return { data: result, error: null };
+  } catch (error) {
+    logger.error("❌ Error in rollbackDataSourceUpload:", error);
+    return { data: null, error };
+  }
+};
+
+// ===== FILE IMPORT JOBS =====
+const FILE_IMPORT_BUCKET = "data-source-files";
+
+/**
+ * Upload a file to storage and queue a background import of it into the data
+ * source. The job does nothing until started (startFileImportJob), or until
+ * the orphaned-job sweep picks it up.
+ */
+export const queueFileImport = async (dataSource: DataSource, file: File) => {
+  try {
+    const safeName = file.name.replace(/[^\w.\- ]+/g, "_");
+    const storagePath = `${dataSource.client_id}/${dataSource.id}/${Date.now()}-${safeName}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from(FILE_IMPORT_BUCKET)
+      .upload(storagePath, file, { contentType: file.type || undefined, upsert: false });
+
+    if (uploadError) {
+      logger.error("❌ Error uploading file to storage:", uploadError);
+      return { data: null, error: uploadError };
+    }
+
+    const { data, error } = await supabase.rpc("create_file_import_job", {
+      p_data_source_id: dataSource.id,
+      p_storage_path: storagePath,
+      p_file_name: file.name,
+      p_file_size: file.size,
+    });
+
+    if (error) {
+      logger.error("❌ Error queueing file import:", error);
+      return { data: null, error };
+    }
+
+    logger.debug("✅ File import queued:", { dataSourceId: dataSource.id, storagePath });
+    return { data: data as FileImportJob, error: null };
+  } catch (error) {
+    logger.error("❌ Error in queueFileImport:", error);
+    return { data: null, error };
+  }
+};
+
+// Asks the process-file-import function to run a queued job. It returns once
+// the job is claimed; the import carries on server-side.
+export const startFileImportJob = async (jobId: string) => {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.user) {
+      return { data: null, error: "No authenticated user found" };
+    }
+
+    const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+    const anonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+    if (!supabaseUrl || !anonKey) {
+      throw new Error("Missing VITE_SUPABASE_URL or VITE_SUPABASE_ANON_KEY environment variable");
+    }
+
+    const response = await fetch(`${supabaseUrl.replace(/\/$/, "")}/functions/v1/process-file-import`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${session.access_token}`,
+        apikey: anonKey,
+      },
+      body: JSON.stringify({ job_id: jobId }),
+    });
+
+    const result: { success: boolean; message: string } | null = await response.json().catch(() => null);
+
+    if (!response.ok || !result?.success) {
+      const message = result?.message || `HTTP ${response.status}: ${response.statusText}`;
+      logger.error("❌ Error starting file import:", message);
+      return { data: null, error: message };
+    }
+
+    return { data: result, error: null };
+  } catch (error) {
+    logger.error("❌ Error in startFileImportJob:", error);
+    return { data: null, error: error instanceof Error ? error.message : "Unknown error" };
+  }
+};
+
+// Most recent jobs first
+export const getFileImportJobs = async (dataSourceIds: string[], limit: number = 10) => {
+  try {
+    if (dataSourceIds.length === 0) {
+      return { data: [] as FileImportJob[], error: null };
+    }
+
+    const { data, error } = await supabase
+      .from("file_import_jobs")
+      .select("*")
+      .in("data_source_id", dataSourceIds)
+      .order("created_at", { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      logger.error("❌ Error fetching file import jobs:", error);
+      return { data: null, error };
+    }
+
+    return { data: (data || []) as FileImportJob[], error: null };
+  } catch (error) {
+    logger.error("❌ Error in getFileImportJobs:", error);
+    return { data: null, error };
+  }
+};
+
+// ===== GOOGLE CREDENTIALS =====
+export const getGoogleCredentials = async (clientId: string) => {
+  try {
+    const { data, error } = await supabase
+      .from("google_credentials")
+      .select("id, client_id, data_source_id, service_account_email, created_at, updated_at")
+      .eq("client_id", clientId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      logger.error("❌ Error fetching Google credentials:", error);
+      return { data: null, error };
+    }
+
+    return { data: (data || []) as GoogleCredentials[], error: null };
+  } catch (error) {
+    logger.error("❌ Error in getGoogleCredentials:", error);
+    return { data: null, error };
+  }
+};
+
+// Stored encrypted server-side. Leave privateKey empty to keep the saved key.
+export const saveGoogleCredentials = async (
+  clientId: string,
+  dataSourceId: string | null,
+  serviceAccountEmail: string,
+  privateKey?: string
+) => {
+  try {
+    const { data, error } = await supabase.rpc("save_google_credentials", {
+      p_client_id: clientId,
+      p_data_source_id: dataSourceId,
+      p_service_account_email: serviceAccountEmail,
+      p_private_key: privateKey || null,
+    });
+
+    if (error) {
+      logger.error("❌ Error saving Google credentials:", error);
+      return { data: null, error };
+    }
+
+    logger.debug("✅ Google credentials saved:", { clientId, dataSourceId });
+    return { data: data as string, error: null };
+  } catch (error) {
+    logger.error("❌ Error in saveGoogleCredentials:", error);
+    return { data: null, error };
+  }
+};
+
+export const deleteGoogleCredentials = async (credentialsId: string) => {
+  try {
+    const { error } = await supabase.rpc("delete_google_credentials", {
+      p_credentials_id: credentialsId,
+    });
+
+    if (error) {
+      logger.error("❌ Error deleting Google credentials:", error);
+      return { data: null, error };
+    }
+
+    logger.debug("✅ Google credentials deleted:", { credentialsId });
+    return { data: { success: true }, error: null };
+  } catch (error) {
+    logger.error("❌ Error in deleteGoogleCredentials:", error);
+    return { data: null, error };
+  }
+};
+
+// ===== CLIENT API KEYS =====
+export const getClientApiKeys = async (clientId: string) => {
+  try {
+    const { data, error } = await supabase
+      .from("client_api_keys")
+      .select("id, client_id, name, key_prefix, scopes, created_at, last_used_at, revoked_at")
+      .eq("client_id", clientId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      logger.error("❌ Error fetching client API keys:", error);
+      return { data: null, error };
+    }
+
+    return { data: (data || []) as ClientApiKey[], error: null };
+  } catch (error) {
+    logger.error("❌ Error in getClientApiKeys:", error);
+    return { data: null, error };
+  }
+};
+
+// Returns the full key, which can't be read back later
+export const createClientApiKey = async (
+  clientId: string,
+  name: string,
+  scopes: ClientApiKeyScope[] = ["metrics:write"]
+) => {
+  try {
+    const { data, error } = await supabase.rpc("create_client_api_key", {
+      p_client_id: clientId,
+      p_name: name,
+      p_scopes: scopes,
+    });
+
+    if (error) {
+      logger.error("❌ Error creating client API key:", error);
+      return { data: null, error };
+    }
+
+    const created = (Array.isArray(data) ? data[0] : data) as { id: string; api_key: string };
+    logger.debug("✅ Client API key created:", { clientId, keyId: created.id });
+    return { data: created, error: null };
+  } catch (error) {
+    logger.error("❌ Error in createClientApiKey:", error);
+    return { data: null, error };
+  }
+};
+
+export const revokeClientApiKey = async (keyId: string) => {
+  try {
+    const { error } = await supabase.rpc("revoke_client_api_key", {
+      p_key_id: keyId,
+    });
+
+    if (error) {
+      logger.error("❌ Error revoking client API key:", error);
+      return { data: null, error };
+    }
+
+    logger.debug("✅ Client API key revoked:", { keyId });
+    return { data: { success: true }, error: null };
+  } catch (error) {
+    logger.error("❌ Error in revokeClientApiKey:", error);
+    return { data: null, error };
+  }
+};
\ No newline at end of file
@@ -18,6 +18,9 @@ export interface MonthlyTargets {
 
 export interface GoalsConfig {
   monthly_targets: MonthlyTargets;
+  // When each target got its current value; goal.hit / goal.missed events
+  // are only sent for months that ended after it (evaluate_client_goals)
+  set_at?: Partial<Record<keyof MonthlyTargets, string>>;
   updated_at?: string;
   updated_by?: string;
 }
@@ -61,9 +64,27 @@ export async function updateClientGoals(
   try {
     logger.debug('📊 Updating client goals', { clientId, monthlyTargets });
 
+    const { data: previous, error: previousError } = await getClientGoals(clientId);
+    if (previousError || !previous) {
+      return { data: null, error: previousError };
+    }
+
+    // New and changed targets are set now; unchanged ones keep their set_at
+    // (none for targets saved before set_at existed)
+    const now = new Date().toISOString();
+    const setAt: GoalsConfig['set_at'] = {};
+    for (const key of Object.keys(monthlyTargets) as Array<keyof MonthlyTargets>) {
+      if (previous.monthly_targets?.[key] !== monthlyTargets[key]) {
+        setAt[key] = now;
+      } else if (previous.set_at?.[key]) {
+        setAt[key] = previous.set_at[key];
+      }
+    }
+
     const goalsConfig: GoalsConfig = {
       monthly_targets: monthlyTargets,
-      updated_at: new Date().toISOString(),
+      set_at: setAt,
+      updated_at: now,
       updated_by: userId,
     };
 
@@ -80,6 +101,10 @@ export async function updateClientGoals(
     }
 
     logger.info('✅ Client goals updated', { clientId, goalsConfig });
+
+    // Goals already reached under the new targets are reported right away
+    await evaluateClientGoals(clientId);
+
     return { data, error: null };
   } catch (error) {
     logger.error('❌ Exception updating client goals', error);
@@ -87,6 +112,30 @@ export async function updateClientGoals(
   }
 }
 
+/**
+ * Evaluate this and last month's goals against the client's metrics and
+ * queue goal.hit / goal.missed webhook events for newly reached or missed
+ * goals. Returns the number of webhook deliveries queued.
+ */
+export async function evaluateClientGoals(clientId: string) {
+  try {
+    const { data, error } = await supabase.rpc('check_client_goals', {
+      p_client_id: clientId,
+    });
+
+    if (error) {
+      logger.error('❌ Error evaluating client goals', error);
+      return { data: null, error };
+    }
+
+    logger.debug('✅ Client goals evaluated', { clientId, queued: data });
+    return { data: (data as number) || 0, error: null };
+  } catch (error) {
+    logger.error('❌ Exception evaluating client goals', error);
+    return { data: null, error };
+  }
+}
+
 /**
  * Calculate goal progress percentage
  */
@@ -21,7 +21,10 @@ export {
   getUserRole,
   getUserClientAccess,
   getUserRoleAndPermissions,
-  ensureUserProfile
+  ensureUserProfile,
+  getMetricsApiTokens,
+  createMetricsApiToken,
+  revokeMetricsApiToken
 } from './users';
 
 // ===== PERMISSIONS MANAGEMENT =====
@@ -60,9 +63,26 @@ export {
   assignAllUnownedClients,
   getClientDataSources,
   createGoogleSheetsDataSources,
-  deleteDataSource
+  createFileDataSource,
+  createPublishedCsvDataSource,
+  createExcelDataSources,
+  updateDataSourceConfig,
+  deleteDataSource,
+  getDataSourceUploads,
+  rollbackDataSourceUpload,
+  queueFileImport,
+  startFileImportJob,
+  getFileImportJobs,
+  getGoogleCredentials,
+  saveGoogleCredentials,
+  deleteGoogleCredentials,
+  getClientApiKeys,
+  createClientApiKey,
+  revokeClientApiKey
 } from './clients';
 
+export type { DataSourceUploadResult } from './clients';
+
 // ===== METRICS MANAGEMENT =====
 export {
   getMetricEntries,
@@ -72,11 +92,13 @@ export {
   addMetricEntry,
   updateMetricEntry,
   deleteMetricEntry,
+  writeMetricToSheet,
   getStaffMetricConfigurations,
   getConfiguredMetricEntries,
   deleteStaffMetricConfiguration,
   deleteMetricConfiguration,
   getDiscoveredMetrics,
+  getClientMetricNames,
   cleanupOrphanedMetricEntries,
   cleanupDuplicatedMetricsBeforeSync,
   getOptimizedDashboardData,
@@ -93,7 +115,16 @@ export {
   testGoogleSheetsAccess,
   syncGoogleSheetsStaff,
   syncGoogleSheetsUndeniable,
-  discoverGoogleSheetsTabs
+  discoverGoogleSheetsTabs,
+  getSheetSyncStatus,
+  getSyncRuns,
+  getSyncRunDiff,
+  getWebhookEndpoints,
+  saveWebhookEndpoint,
+  rotateWebhookSecret,
+  deleteWebhookEndpoint,
+  getWebhookDeliveries,
+  replayWebhookDelivery
 } from './sync';
 
 // ===== SYNC TYPES =====
@@ -110,6 +141,7 @@ export {
 export {
   getClientGoals,
   updateClientGoals,
+  evaluateClientGoals,
   calculateGoalProgress,
   isOverTarget,
   getProgressColor
@@ -5,7 +5,7 @@
 
 import { supabase } from '../supabase';
 import { logger } from '../logger';
-import { TimeFrame, MetricEntry } from '../../types';
+import { TimeFrame, MetricEntry, MetricWriteRequest, MetricWriteResult } from '../../types';
 
 // ===== METRIC ENTRIES =====
 export const getMetricEntries = async (category: string, timeFrame: TimeFrame = 'daily', userId?: string, clientId?: string) => {
@@ -208,6 +208,54 @@ export const deleteMetricEntry = async (entryId: string) => {
   }
 };
 
+// ===== SHEET WRITE-BACK =====
+// Writes a corrected value to the source Google Sheet, then the metrics table.
+// A conflict result (sheet edited since the last sync) comes back as data with
+// success: false so callers can offer to overwrite with force.
+export const writeMetricToSheet = async (metricData: MetricWriteRequest) => {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.user) {
+      return { data: null, error: 'No authenticated user found' };
+    }
+
+    const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+    const anonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+    if (!supabaseUrl || !anonKey) {
+      throw new Error('Missing VITE_SUPABASE_URL or VITE_SUPABASE_ANON_KEY environment variable');
+    }
+
+    const response = await fetch(`${supabaseUrl.replace(/\/$/, '')}/functions/v1/write-metric`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${session.access_token}`,
+        apikey: anonKey
+      },
+      body: JSON.stringify({ ...metricData, user_id: session.user.id })
+    });
+
+    const result: MetricWriteResult | null = await response.json().catch(() => null);
+
+    if (result?.conflict) {
+      logger.warn('⚠️ Sheet value changed since last sync:', result);
+      return { data: result, error: result.message };
+    }
+
+    if (!response.ok || !result?.success) {
+      const message = result?.message || `HTTP ${response.status}: ${response.statusText}`;
+      logger.error('❌ Error writing metric to sheet:', message);
+      return { data: null, error: message };
+    }
+
+    logger.debug('✅ Metric written to sheet:', { cell: result.cell });
+    return { data: result, error: null };
+  } catch (error) {
+    logger.error('❌ Error in writeMetricToSheet:', error);
+    return { data: null, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+};
+
 // ===== METRIC CONFIGURATIONS =====
 export const getStaffMetricConfigurations = async (userId: string, sheetName?: string) => {
   try {
@@ -382,6 +430,36 @@ export const getDiscoveredMetrics = async (userId: string, clientId?: string) =>
   }
 };
 
+// Each metric name the client has data for, with the category and type of
+// its most recent row, e.g. for mapping sheet columns onto existing metrics
+export const getClientMetricNames = async (clientId: string) => {
+  try {
+    const { data, error } = await supabase
+      .from('metrics')
+      .select('metric_name, category, metric_type')
+      .eq('client_id', clientId)
+      .not('metric_name', 'is', null)
+      .order('date', { ascending: false });
+
+    if (error) {
+      logger.error('❌ Error fetching client metric names:', error);
+      return { data: [], error };
+    }
+
+    type MetricName = { metric_name: string; category: string; metric_type: string };
+    const byName = new Map<string, MetricName>();
+    ((data || []) as MetricName[]).forEach(row => {
+      if (!byName.has(row.metric_name)) byName.set(row.metric_name, row);
+    });
+
+    const metrics = Array.from(byName.values()).sort((a, b) => a.metric_name.localeCompare(b.metric_name));
+    return { data: metrics, error: null };
+  } catch (error) {
+    logger.error('❌ Error in getClientMetricNames:', error);
+    return { data: [], error };
+  }
+};
+
 // ===== OPTIMIZED DASHBOARD DATA =====
 export const getOptimizedDashboardData = async (userId: string, clientId?: string) => {
   try {
@@ -415,6 +493,8 @@ export const getOptimizedDashboardData = async (userId: string, clientId?: strin
   }
 };
 
+type HierarchicalSheetType = "google-sheets" | "excel" | "published-csv" | "webhook";
+
 export const getHierarchicalDataStructure = async (userId: string) => {
   try {
     logger.debug("🏗️ Building hierarchical data structure for user:", userId);
@@ -432,7 +512,7 @@ export const getHierarchicalDataStructure = async (userId: string) => {
     // Get all metrics for this user to extract sheets, tabs, and metrics
     const { data: allMetrics, error: metricsError } = await supabase
       .from("metrics")
-      .select("client_id, sheet_name, tab_name, metric_name")
+      .select("client_id, sheet_name, tab_name, metric_name, data_source, data_source_type")
       .eq("user_id", userId)
       .not("sheet_name", "is", null);
 
@@ -451,16 +531,24 @@ export const getHierarchicalDataStructure = async (userId: string) => {
       );
 
       // Group by sheet name
-      const sheetMap = new Map<string, { tabs: Map<string, Set<string>> }>();
+      const sheetMap = new Map<string, { tabs: Map<string, Set<string>>; type: HierarchicalSheetType }>();
 
       clientMetrics.forEach((metric) => {
         if (!metric.sheet_name) return;
 
         if (!sheetMap.has(metric.sheet_name)) {
-          sheetMap.set(metric.sheet_name, { tabs: new Map() });
+          sheetMap.set(metric.sheet_name, { tabs: new Map(), type: "google-sheets" });
         }
 
         const sheet = sheetMap.get(metric.sheet_name)!;
+        // Excel worksheets and CSV files are imported as their own sheets
+        if (metric.data_source === "excel-import") {
+          sheet.type = "excel";
+        } else if (metric.data_source_type === "published_csv") {
+          sheet.type = "published-csv";
+        } else if (metric.data_source_type === "webhook") {
+          sheet.type = "webhook";
+        }
         const tabName = metric.tab_name || "Default";
 
         if (!sheet.tabs.has(tabName)) {
@@ -478,9 +566,7 @@ export const getHierarchicalDataStructure = async (userId: string) => {
           id: `${client.id}-sheet-${sheetIndex}`,
           name: sheetName,
           url: client.google_sheets_url || "",
-          type: (client.data_source === "excel-import"
-            ? "excel"
-            : "google-sheets") as "google-sheets" | "excel",
+          type: sheetData.type,
           isExpanded: false,
           isSelected: true, // Default to selected
           tabs: Array.from(sheetData.tabs.entries()).map(
@@ -6,6 +6,7 @@
 import { supabase } from '../supabase';
 import { logger } from '../logger';
 import { hasPermission, isGlobalAdmin } from "./permissions";
+import { SyncRun, SyncRunDiffRow, WebhookDelivery, WebhookEndpoint, WebhookEventType } from "../../types";
 
 // ===== SYNC STATUS MANAGEMENT =====
 export type SyncStatus = "success" | "error" | "never_synced" | "syncing";
@@ -179,6 +180,76 @@ export const getUndeniableSyncStatus = async (
   }
 };
 
+/**
+ * Per-sheet sync status rows (written by the sync edge functions, including
+ * scheduled runs), most recent first.
+ */
+export const getSheetSyncStatus = async (clientId: string) => {
+  try {
+    const { data, error } = await supabase
+      .from("sync_status")
+      .select("*")
+      .eq("client_id", clientId)
+      .order("last_sync_at", { ascending: false });
+
+    if (error) {
+      logger.error("❌ Error fetching sheet sync status:", error);
+      return { data: null, error };
+    }
+
+    return { data: data || [], error: null };
+  } catch (error) {
+    logger.error("❌ Error in getSheetSyncStatus:", error);
+    return { data: null, error };
+  }
+};
+
+// ===== SYNC RUN HISTORY =====
+export const getSyncRuns = async (clientId: string, limit: number = 50) => {
+  try {
+    const { data, error } = await supabase
+      .from("sync_runs")
+      .select("*")
+      .eq("client_id", clientId)
+      .order("started_at", { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      logger.error("❌ Error fetching sync runs:", error);
+      return { data: null, error };
+    }
+
+    logger.debug("✅ Loaded sync runs:", { clientId, count: data?.length || 0 });
+    return { data: (data || []) as SyncRun[], error: null };
+  } catch (error) {
+    logger.error("❌ Error in getSyncRuns:", error);
+    return { data: null, error };
+  }
+};
+
+/**
+ * Value-level diff between two runs of the same sheet (fromRunId is the older run)
+ */
+export const getSyncRunDiff = async (fromRunId: string, toRunId: string) => {
+  try {
+    const { data, error } = await supabase.rpc("get_sync_run_diff", {
+      p_from_run_id: fromRunId,
+      p_to_run_id: toRunId,
+    });
+
+    if (error) {
+      logger.error("❌ Error fetching sync run diff:", error);
+      return { data: null, error };
+    }
+
+    logger.debug("✅ Loaded sync run diff:", { fromRunId, toRunId, count: data?.length || 0 });
+    return { data: (data || []) as SyncRunDiffRow[], error: null };
+  } catch (error) {
+    logger.error("❌ Error in getSyncRunDiff:", error);
+    return { data: null, error };
+  }
+};
+
 // ===== GOOGLE SHEETS SYNC FUNCTIONS =====
 export const testGoogleSheetsAccess = async (
   spreadsheetId: string,
@@ -279,14 +350,6 @@ export const syncGoogleSheetsStaff = async (
     logger.warn("⚠️ Could not check permissions, continuing with sync");
   }
 
-  // Auto-cleanup duplicated metrics before sync (ensures fresh, optimized data)
-  const cleanupResult = await cleanupDuplicatedMetricsBeforeSync(userId);
-  if (!cleanupResult.success) {
-    logger.warn(
-      "⚠️ Could not clean up old metrics, continuing with sync anyway"
-    );
-  }
-
   // Extract the actual spreadsheet ID from the URL
   const actualSpreadsheetId = extractSpreadsheetId(googleSheetId);
   logger.debug("📊 Extracted spreadsheet ID:", actualSpreadsheetId);
@@ -407,12 +470,6 @@ export const syncGoogleSheetsUndeniable = async (
   logger.debug('🔧 syncGoogleSheetsUndeniable function called');
   logger.debug('📝 Parameters received:', { userId, googleSheetId, sheetName, selectedTabsCount: selectedTabs?.length || 0 });
   
-  // Auto-cleanup duplicated metrics before sync (ensures fresh, optimized data)
-  const cleanupResult = await cleanupDuplicatedMetricsBeforeSync(userId);
-  if (!cleanupResult.success) {
-    logger.warn('⚠️ Could not clean up old metrics, continuing with sync anyway');
-  }
-  
   // Extract the actual spreadsheet ID from the URL
   const actualSpreadsheetId = extractSpreadsheetId(googleSheetId);
   logger.debug('📊 Extracted spreadsheet ID:', actualSpreadsheetId);
@@ -518,9 +575,6 @@ const extractSpreadsheetId = (url: string): string => {
   return url;
 };
 
-// Import cleanup function from metrics module
-const { cleanupDuplicatedMetricsBeforeSync } = await import('./metrics');
-
 // ===== GOOGLE SHEETS TAB DISCOVERY =====
 export const discoverGoogleSheetsTabs = async (
   spreadsheetId: string, 
@@ -591,4 +645,172 @@ export const discoverGoogleSheetsTabs = async (
     logger.error('❌ Tab discovery error:', error);
     return { data: null, error: error instanceof Error ? error.message : 'Unknown error' };
   }
-};
\ No newline at end of file
+};
+
+// ===== WEBHOOKS =====
+// clientId null lists the global endpoints
+export const getWebhookEndpoints = async (clientId: string | null) => {
+  try {
+    let query = supabase
+      .from("webhook_endpoints")
+      .select("id, client_id, url, description, event_types, is_active, created_by, created_at, updated_at");
+    query = clientId ? query.eq("client_id", clientId) : query.is("client_id", null);
+
+    const { data, error } = await query.order("created_at", { ascending: false });
+
+    if (error) {
+      logger.error("❌ Error fetching webhook endpoints:", error);
+      return { data: null, error };
+    }
+
+    return { data: (data || []) as WebhookEndpoint[], error: null };
+  } catch (error) {
+    logger.error("❌ Error in getWebhookEndpoints:", error);
+    return { data: null, error };
+  }
+};
+
+// Creates the endpoint when endpoint.id is missing. signing_secret is only
+// returned on create and can't be read back later.
+export const saveWebhookEndpoint = async (endpoint: {
+  id?: string;
+  client_id: string | null;
+  url: string;
+  description?: string;
+  event_types: WebhookEventType[];
+  is_active?: boolean;
+}) => {
+  try {
+    const { data, error } = await supabase.rpc("save_webhook_endpoint", {
+      p_endpoint_id: endpoint.id ?? null,
+      p_client_id: endpoint.client_id,
+      p_url: endpoint.url,
+      p_description: endpoint.description ?? null,
+      p_event_types: endpoint.event_types,
+      p_is_active: endpoint.is_active ?? true,
+    });
+
+    if (error) {
+      logger.error("❌ Error saving webhook endpoint:", error);
+      return { data: null, error };
+    }
+
+    const saved = (Array.isArray(data) ? data[0] : data) as { id: string; signing_secret: string | null };
+    logger.debug("✅ Webhook endpoint saved:", { endpointId: saved.id });
+    return { data: saved, error: null };
+  } catch (error) {
+    logger.error("❌ Error in saveWebhookEndpoint:", error);
+    return { data: null, error };
+  }
+};
+
+// Returns the new signing secret
+export const rotateWebhookSecret = async (endpointId: string) => {
+  try {
+    const { data, error } = await supabase.rpc("rotate_webhook_secret", {
+      p_endpoint_id: endpointId,
+    });
+
+    if (error) {
+      logger.error("❌ Error rotating webhook secret:", error);
+      return { data: null, error };
+    }
+
+    logger.debug("✅ Webhook secret rotated:", { endpointId });
+    return { data: data as string, error: null };
+  } catch (error) {
+    logger.error("❌ Error in rotateWebhookSecret:", error);
+    return { data: null, error };
+  }
+};
+
+export const deleteWebhookEndpoint = async (endpointId: string) => {
+  try {
+    const { error } = await supabase.rpc("delete_webhook_endpoint", {
+      p_endpoint_id: endpointId,
+    });
+
+    if (error) {
+      logger.error("❌ Error deleting webhook endpoint:", error);
+      return { data: null, error };
+    }
+
+    logger.debug("✅ Webhook endpoint deleted:", { endpointId });
+    return { data: { success: true }, error: null };
+  } catch (error) {
+    logger.error("❌ Error in deleteWebhookEndpoint:", error);
+    return { data: null, error };
+  }
+};
+
+export const getWebhookDeliveries = async (endpointIds: string[], limit: number = 50) => {
+  if (endpointIds.length === 0) {
+    return { data: [] as WebhookDelivery[], error: null };
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from("webhook_deliveries")
+      .select("*")
+      .in("endpoint_id", endpointIds)
+      .order("created_at", { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      logger.error("❌ Error fetching webhook deliveries:", error);
+      return { data: null, error };
+    }
+
+    return { data: (data || []) as WebhookDelivery[], error: null };
+  } catch (error) {
+    logger.error("❌ Error in getWebhookDeliveries:", error);
+    return { data: null, error };
+  }
+};
+
+// Queues a copy of the delivery and asks deliver-webhooks to send it now.
+// A failed send is still retried on schedule.
+export const replayWebhookDelivery = async (deliveryId: string) => {
+  try {
+    const { data: replayId, error } = await supabase.rpc("replay_webhook_delivery", {
+      p_delivery_id: deliveryId,
+    });
+
+    if (error) {
+      logger.error("❌ Error replaying webhook delivery:", error);
+      return { data: null, error: error.message };
+    }
+
+    const { data: { session } } = await supabase.auth.getSession();
+    const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+    const anonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+    if (!session?.user || !supabaseUrl || !anonKey) {
+      return { data: { delivery_id: replayId as string, success: false, message: "Queued for the next delivery run" }, error: null };
+    }
+
+    const response = await fetch(`${supabaseUrl.replace(/\/$/, "")}/functions/v1/deliver-webhooks`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${session.access_token}`,
+        apikey: anonKey,
+      },
+      body: JSON.stringify({ delivery_id: replayId }),
+    });
+
+    const result: { success: boolean; message: string } | null = await response.json().catch(() => null);
+
+    logger.debug("✅ Webhook delivery replayed:", { deliveryId, replayId, result });
+    return {
+      data: {
+        delivery_id: replayId as string,
+        success: !!result?.success,
+        message: result?.message || `HTTP ${response.status}: ${response.statusText}`,
+      },
+      error: null,
+    };
+  } catch (error) {
+    logger.error("❌ Error in replayWebhookDelivery:", error);
+    return { data: null, error: error instanceof Error ? error.message : "Failed to replay webhook delivery" };
+  }
+};
@@ -5,6 +5,7 @@
 
 import { supabase } from '../supabase';
 import { logger } from '../logger';
+import { MetricsApiToken } from '../../types';
 import {
   getUserPermissions,
   getUserRoles,
@@ -119,6 +120,70 @@ export const ensureUserProfile = async (userId: string) => {
   }
 };
 
+// ===== METRICS API TOKENS =====
+// The current user's tokens (all users' for global admins, through RLS)
+export const getMetricsApiTokens = async () => {
+  try {
+    const { data, error } = await supabase
+      .from('metrics_api_tokens')
+      .select('id, name, token_prefix, client_ids, created_by, created_at, expires_at, last_used_at, revoked_at')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      logger.error('❌ Error fetching metrics API tokens:', error);
+      return { data: null, error };
+    }
+
+    return { data: (data || []) as MetricsApiToken[], error: null };
+  } catch (error) {
+    logger.error('❌ Error in getMetricsApiTokens:', error);
+    return { data: null, error };
+  }
+};
+
+// Needs canExportData on every client. Returns the full token, which can't
+// be read back later.
+export const createMetricsApiToken = async (name: string, clientIds: string[], expiresAt: string | null = null) => {
+  try {
+    const { data, error } = await supabase.rpc('create_metrics_api_token', {
+      p_name: name,
+      p_client_ids: clientIds,
+      p_expires_at: expiresAt,
+    });
+
+    if (error) {
+      logger.error('❌ Error creating metrics API token:', error);
+      return { data: null, error };
+    }
+
+    const created = (Array.isArray(data) ? data[0] : data) as { id: string; api_token: string };
+    logger.debug('✅ Metrics API token created:', { tokenId: created.id, clientIds });
+    return { data: created, error: null };
+  } catch (error) {
+    logger.error('❌ Error in createMetricsApiToken:', error);
+    return { data: null, error };
+  }
+};
+
+export const revokeMetricsApiToken = async (tokenId: string) => {
+  try {
+    const { error } = await supabase.rpc('revoke_metrics_api_token', {
+      p_token_id: tokenId,
+    });
+
+    if (error) {
+      logger.error('❌ Error revoking metrics API token:', error);
+      return { data: null, error };
+    }
+
+    logger.debug('✅ Metrics API token revoked:', { tokenId });
+    return { data: { success: true }, error: null };
+  } catch (error) {
+    logger.error('❌ Error in revokeMetricsApiToken:', error);
+    return { data: null, error };
+  }
+};
+
 // ===== EXPORTS =====
 // Re-export new permission system functions for convenience
 export {
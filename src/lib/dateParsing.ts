@@ -0,0 +1,214 @@
+/**
+ * Date Parsing Utilities
+ * Explicit and auto-detected date formats for imported sheet data.
+ * Mirrored in supabase/functions/_shared/dateParsing.ts (SheetDateParser) -
+ * keep the two in step.
+ */
+
+export type DateFormat =
+  | 'auto'
+  | 'MM/DD/YYYY'
+  | 'DD/MM/YYYY'
+  | 'YYYY-MM-DD'
+  | 'excel_serial'
+  | 'week_start';
+
+export type ResolvedDateFormat = Exclude<DateFormat, 'auto'>;
+
+export const DATE_FORMAT_OPTIONS: Array<{ value: DateFormat; label: string }> = [
+  { value: 'auto', label: 'Auto-detect' },
+  { value: 'MM/DD/YYYY', label: 'MM/DD/YYYY (US)' },
+  { value: 'DD/MM/YYYY', label: 'DD/MM/YYYY (UK/EU)' },
+  { value: 'YYYY-MM-DD', label: 'YYYY-MM-DD (ISO)' },
+  { value: 'excel_serial', label: 'Excel serial number' },
+  { value: 'week_start', label: 'Week labels (e.g. "Week of 06/01/2025")' },
+];
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6,
+  jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12,
+};
+
+const ISO_PATTERN = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T\s].*)?$/;
+const NUMERIC_PATTERN = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})$/;
+const SERIAL_PATTERN = /^\d+(\.\d+)?$/;
+const WEEK_PREFIX_PATTERN = /^(week\s*(of|starting|commencing|beginning)?|w\/?c|wk)\b\s*[:-]?\s*/i;
+const ISO_WEEK_PATTERN = /^(\d{4})-?W(\d{1,2})$/i;
+const WEEK_NUMBER_PATTERN = /^(?:week|wk)\s*(\d{1,2})\D+(\d{4})$/i;
+
+const toIsoDate = (year: number, month: number, day: number): string | null => {
+  const fullYear = year < 100 ? 2000 + year : year;
+  const date = new Date(Date.UTC(fullYear, month - 1, day));
+  if (
+    date.getUTCFullYear() !== fullYear ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null;
+  }
+  return date.toISOString().split('T')[0];
+};
+
+// "6 Jan 2025", "Jan 6, 2025", "January 6 2025" - unambiguous in every format
+const parseTextualDate = (text: string): string | null => {
+  let match = text.match(/^(\d{1,2})\s+([a-z]{3,})\.?,?\s+(\d{2,4})$/i);
+  if (match) {
+    const month = MONTHS[match[2].slice(0, 3).toLowerCase()];
+    return month ? toIsoDate(parseInt(match[3], 10), month, parseInt(match[1], 10)) : null;
+  }
+
+  match = text.match(/^([a-z]{3,})\.?\s+(\d{1,2}),?\s+(\d{2,4})$/i);
+  if (match) {
+    const month = MONTHS[match[1].slice(0, 3).toLowerCase()];
+    return month ? toIsoDate(parseInt(match[3], 10), month, parseInt(match[2], 10)) : null;
+  }
+
+  return null;
+};
+
+// "Jan 2025", "January 2025", "Jan-25", "2025-01", "01/2025" -> first of the month
+const parseMonthLabel = (text: string): string | null => {
+  const named = text.match(/^([a-z]{3,})\.?[\s\-']+(\d{2}|\d{4})$/i);
+  if (named) {
+    const month = MONTHS[named[1].slice(0, 3).toLowerCase()];
+    return month ? toIsoDate(parseInt(named[2], 10), month, 1) : null;
+  }
+
+  const yearFirst = text.match(/^(\d{4})[-/](\d{1,2})$/);
+  if (yearFirst) return toIsoDate(parseInt(yearFirst[1], 10), parseInt(yearFirst[2], 10), 1);
+
+  const monthFirst = text.match(/^(\d{1,2})[-/](\d{4})$/);
+  if (monthFirst) return toIsoDate(parseInt(monthFirst[2], 10), parseInt(monthFirst[1], 10), 1);
+
+  return null;
+};
+
+// Monday of ISO week `week` in `year`
+const isoWeekStart = (year: number, week: number): string | null => {
+  if (week < 1 || week > 53) return null;
+  const jan4 = new Date(Date.UTC(year, 0, 4));
+  const mondayOfWeek1 = new Date(jan4.getTime() - ((jan4.getUTCDay() + 6) % 7) * 86400000);
+  const monday = new Date(mondayOfWeek1.getTime() + (week - 1) * 7 * 86400000);
+  return monday.toISOString().split('T')[0];
+};
+
+const serialToIsoDate = (serial: number): string | null => {
+  // Excel's day 0 is 1899-12-30 (accounting for the 1900 leap year bug)
+  const date = new Date(Date.UTC(1899, 11, 30) + Math.floor(serial) * 86400000);
+  return isNaN(date.getTime()) ? null : date.toISOString().split('T')[0];
+};
+
+const stripWeekPrefix = (text: string): string => text.replace(WEEK_PREFIX_PATTERN, '').trim();
+
+const parseCalendarDate = (text: string, dayFirst: boolean): string | null => {
+  const iso = text.match(ISO_PATTERN);
+  if (iso) return toIsoDate(parseInt(iso[1], 10), parseInt(iso[2], 10), parseInt(iso[3], 10));
+
+  const numeric = text.match(NUMERIC_PATTERN);
+  if (numeric) {
+    const [first, second, year] = numeric.slice(1).map(part => parseInt(part, 10));
+    return dayFirst ? toIsoDate(year, second, first) : toIsoDate(year, first, second);
+  }
+
+  return parseTextualDate(text) ?? parseMonthLabel(text);
+};
+
+/**
+ * Parse one value with an explicit format. ISO dates, spelled-out month dates
+ * and month labels are accepted in every format since they can't be misread. Returns null when the
+ * value can't be parsed - callers report it rather than substituting a date.
+ */
+export function parseDateValue(
+  value: unknown,
+  format: ResolvedDateFormat,
+  dayFirst: boolean = format === 'DD/MM/YYYY'
+): string | null {
+  // Numeric date cells (unformatted sheet reads, raw Excel cells) are serial dates
+  if (typeof value === 'number') return serialToIsoDate(value);
+
+  const text = String(value ?? '').trim();
+  if (!text) return null;
+
+  switch (format) {
+    case 'excel_serial':
+      return SERIAL_PATTERN.test(text) ? serialToIsoDate(parseFloat(text)) : parseCalendarDate(text, dayFirst);
+    case 'YYYY-MM-DD': {
+      const iso = text.match(ISO_PATTERN);
+      return iso
+        ? toIsoDate(parseInt(iso[1], 10), parseInt(iso[2], 10), parseInt(iso[3], 10))
+        : parseTextualDate(text) ?? parseMonthLabel(text);
+    }
+    case 'week_start': {
+      const weekNumber = text.match(WEEK_NUMBER_PATTERN);
+      if (weekNumber) return isoWeekStart(parseInt(weekNumber[2], 10), parseInt(weekNumber[1], 10));
+
+      const stripped = stripWeekPrefix(text);
+      const isoWeek = stripped.match(ISO_WEEK_PATTERN);
+      if (isoWeek) return isoWeekStart(parseInt(isoWeek[1], 10), parseInt(isoWeek[2], 10));
+
+      return parseCalendarDate(stripped, dayFirst);
+    }
+    default:
+      return parseCalendarDate(text, dayFirst);
+  }
+}
+
+// Whether numeric a/b/y dates in the column put the day first
+const detectDayFirst = (values: string[]): boolean => {
+  let dayFirstEvidence = 0;
+  let monthFirstEvidence = 0;
+
+  for (const value of values) {
+    const numeric = value.match(NUMERIC_PATTERN);
+    if (!numeric) continue;
+    const first = parseInt(numeric[1], 10);
+    const second = parseInt(numeric[2], 10);
+    if (first > 12 && second <= 12) dayFirstEvidence++;
+    if (second > 12 && first <= 12) monthFirstEvidence++;
+  }
+
+  // Ambiguous columns (every part <= 12) keep the historical US reading
+  return dayFirstEvidence > monthFirstEvidence;
+};
+
+/**
+ * Pick a format by looking at every value in the date column, so a column of
+ * "03/04/2025, 13/04/2025" is read day-first throughout.
+ */
+export function detectDateFormat(values: unknown[]): ResolvedDateFormat {
+  const samples = values.map(value => String(value ?? '').trim()).filter(Boolean);
+  if (samples.length === 0) return 'MM/DD/YYYY';
+
+  if (samples.some(sample => WEEK_PREFIX_PATTERN.test(sample) || ISO_WEEK_PATTERN.test(sample))) {
+    return 'week_start';
+  }
+
+  if (samples.some(sample => NUMERIC_PATTERN.test(sample))) {
+    return detectDayFirst(samples) ? 'DD/MM/YYYY' : 'MM/DD/YYYY';
+  }
+
+  if (samples.some(sample => SERIAL_PATTERN.test(sample))) return 'excel_serial';
+  if (samples.some(sample => ISO_PATTERN.test(sample))) return 'YYYY-MM-DD';
+
+  return 'MM/DD/YYYY';
+}
+
+/**
+ * Build a parser for a whole date column. With 'auto' the format is detected
+ * from the column's values; week labels also detect day/month order.
+ */
+export function createDateParser(
+  columnValues: unknown[],
+  format: DateFormat = 'auto'
+): { format: ResolvedDateFormat; parse: (value: unknown) => string | null } {
+  const resolved = format === 'auto' ? detectDateFormat(columnValues) : format;
+  const samples = columnValues.map(value => stripWeekPrefix(String(value ?? '').trim()));
+  const dayFirst =
+    resolved === 'DD/MM/YYYY' ||
+    (resolved === 'week_start' && detectDayFirst(samples));
+
+  return {
+    format: resolved,
+    parse: (value: unknown) => parseDateValue(value, resolved, dayFirst),
+  };
+}
@@ -1,5 +1,7 @@
 import { supabase } from './supabase';
 import { logger } from './logger';
+import { SyncRunWarning } from '../types';
+import { DataSource, DetectedColumn, SheetLayoutConfig } from '../types/dataSource';
 
 // Function to extract spreadsheet ID from Google Sheets URL
 function extractSpreadsheetId(url: string): string {
@@ -19,24 +21,216 @@ function extractSpreadsheetId(url: string): string {
   return url;
 }
 
+// Resolve the enhanced sync edge function URL, going through the dev proxy when cross-origin
+function getEnhancedSyncUrl(): string {
+  const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+  if (!supabaseUrl) {
+    throw new Error('Missing VITE_SUPABASE_URL environment variable');
+  }
+
+  const currentOrigin = window.location.origin;
+  const supabaseOrigin = new URL(supabaseUrl).origin;
+  const shouldUseProxy = currentOrigin !== supabaseOrigin;
+  return shouldUseProxy
+    ? '/supabase-functions/google-metric-sync-enhanced'
+    : `${supabaseUrl}/functions/v1/google-metric-sync-enhanced`;
+}
+
+export interface SyncPreviewRow {
+  date: string;
+  metric_name: string;
+  category: string;
+  metric_type: string;
+  currency?: string | null;
+  value: number;
+  tab_name: string;
+}
+
+export interface SyncPreviewTab {
+  tab_name: string;
+  success: boolean;
+  message: string;
+  rows_read: number;
+  metrics_processed: number;
+  rows: SyncPreviewRow[];
+  skipped_rows: Array<{ row: number; reason: string }>;
+  warnings: SyncRunWarning[];
+}
+
+// Per-tab result of a batch call to the enhanced sync function
+interface BatchSyncTabResult {
+  tab_name: string;
+  success: boolean;
+  message: string;
+  metricsProcessed: number;
+  rowsRead?: number;
+  changes?: { inserted: number; updated: number; removed: number; unchanged: number };
+  warnings?: SyncRunWarning[];
+  runId?: string;
+  alreadyRunning?: boolean; // Another sync of this tab holds the lock
+  skippedUnchanged?: boolean; // Spreadsheet not modified since the tab's last sync
+  rows?: SyncPreviewRow[];
+  skippedRows?: Array<{ row: number; reason: string }>;
+}
+
+interface BatchSyncResponse {
+  success: boolean;
+  message: string;
+  metricsProcessed: number;
+  tabs?: BatchSyncTabResult[];
+}
+
+/**
+ * Dry-run the enhanced sync for the given tabs: runs the full parse server-side
+ * and returns the rows it would write without touching metrics. All tabs are
+ * read in one batch request.
+ */
+export async function previewGoogleSheetsSync(
+  googleSheetUrl: string,
+  tabNames: string[],
+  clientId?: string,
+  layout?: SheetLayoutConfig
+) {
+  const actualSpreadsheetId = extractSpreadsheetId(googleSheetUrl);
+
+  try {
+    const { getCurrentUserSession } = await import('./database');
+    const { session, error: sessionError } = await getCurrentUserSession();
+
+    if (sessionError || !session?.user) {
+      throw new Error('No authenticated user found. Please log in.');
+    }
+
+    logger.sync(`👀 Previewing tabs: ${tabNames.join(', ')}`);
+
+    const response = await fetch(getEnhancedSyncUrl(), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+      body: JSON.stringify({
+        user_id: session.user.id,
+        client_id: clientId || null,
+        google_sheet_id: actualSpreadsheetId,
+        sheet_names: tabNames,
+        sync_type: "admin",
+        preview_only: true,
+        // Omitted when empty so the data source's saved layout applies
+        source_config: layout && Object.keys(layout).length > 0 ? layout : undefined,
+      }),
+    });
+
+    const result: BatchSyncResponse | null = await response.json().catch(() => null);
+
+    const tabs: SyncPreviewTab[] = tabNames.map(tabName => {
+      const tabResult = result?.tabs?.find(tab => tab.tab_name === tabName);
+      return {
+        tab_name: tabName,
+        success: response.ok && !!tabResult?.success,
+        message: tabResult?.message || result?.message || `HTTP ${response.status}: ${response.statusText}`,
+        rows_read: tabResult?.rowsRead || 0,
+        metrics_processed: tabResult?.metricsProcessed || 0,
+        rows: tabResult?.rows || [],
+        skipped_rows: tabResult?.skippedRows || [],
+        warnings: tabResult?.warnings || [],
+      };
+    });
+
+    return { success: true, data: { tabs }, error: null };
+  } catch (error: unknown) {
+    logger.error('💥 Sync preview error:', error);
+
+    return {
+      success: false,
+      data: null,
+      error: {
+        error: 'Sync Preview Error',
+        details: error instanceof Error ? error.message : String(error)
+      }
+    };
+  }
+}
+
+/**
+ * Read a tab's columns (row labels for dates_as_columns layouts) with sample
+ * values, for the column mapping step. The data source's saved layout applies
+ * unless one is passed.
+ */
+export async function detectGoogleSheetColumns(
+  googleSheetUrl: string,
+  tabName: string,
+  clientId: string,
+  layout?: SheetLayoutConfig
+) {
+  const actualSpreadsheetId = extractSpreadsheetId(googleSheetUrl);
+
+  try {
+    const { getCurrentUserSession } = await import('./database');
+    const { session, error: sessionError } = await getCurrentUserSession();
+
+    if (sessionError || !session?.user) {
+      throw new Error('No authenticated user found. Please log in.');
+    }
+
+    logger.sync(`🔍 Reading columns of tab: ${tabName}`);
+
+    const response = await fetch(getEnhancedSyncUrl(), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+      body: JSON.stringify({
+        user_id: session.user.id,
+        client_id: clientId,
+        google_sheet_id: actualSpreadsheetId,
+        sheet_name: tabName,
+        sync_type: "admin",
+        get_columns_only: true,
+        source_config: layout && Object.keys(layout).length > 0 ? layout : undefined,
+      }),
+    });
+
+    const result: { success: boolean; message: string; columns?: DetectedColumn[] } | null =
+      await response.json().catch(() => null);
+
+    if (!response.ok || !result?.success) {
+      throw new Error(result?.message || `HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    return { success: true, data: result.columns || [], error: null };
+  } catch (error: unknown) {
+    logger.error('💥 Column detection error:', error);
+
+    return {
+      success: false,
+      data: null,
+      error: {
+        error: 'Column Detection Error',
+        details: error instanceof Error ? error.message : String(error)
+      }
+    };
+  }
+}
+
 /**
  * Sync Google Sheets using the dynamic metric configuration system
- * This function reads metric configurations from the database and processes only selected metrics
+ * This function reads metric configurations from the database and processes only selected metrics.
+ * Tabs are skipped when the spreadsheet hasn't changed since their last sync, unless force is set.
  */
-export async function syncGoogleSheetsDynamic(clientId: string, googleSheetId: string, getColumnsOnly: boolean = false) {
+export async function syncGoogleSheetsDynamic(
+  clientId: string,
+  googleSheetId: string,
+  force: boolean = false
+) {
   // Extract the actual spreadsheet ID from the URL
   const actualSpreadsheetId = extractSpreadsheetId(googleSheetId);
 
   try {
-    // Auto-cleanup duplicated metrics before sync for client data too
-    const { getCurrentUserSession, cleanupDuplicatedMetricsBeforeSync } = await import('./database');
+    // Existing rows are diffed and replaced server-side, so no pre-sync cleanup is needed
+    const { getCurrentUserSession } = await import('./database');
     const { session, error: sessionError } = await getCurrentUserSession();
-    if (session?.user?.id) {
-      const cleanupResult = await cleanupDuplicatedMetricsBeforeSync(session.user.id, clientId);
-      if (!cleanupResult.success) {
-        logger.warn('⚠️ Could not clean up old client metrics, continuing with sync anyway');
-      }
-    }
     
     if (sessionError) {
       logger.error('❌ Session error:', sessionError);
@@ -91,87 +285,77 @@ export async function syncGoogleSheetsDynamic(clientId: string, googleSheetId: s
       throw new Error('No tab names found for sync');
     }
 
-    const supabaseUrl = (() => {
-      const url = import.meta.env.VITE_SUPABASE_URL;
-      if (!url) {
-        throw new Error('Missing VITE_SUPABASE_URL environment variable');
-      }
-      return url;
-    })();
-    const currentOrigin = window.location.origin;
-    const supabaseOrigin = new URL(supabaseUrl).origin;
-    const shouldUseProxy = currentOrigin !== supabaseOrigin;
-    const edgeFunctionUrl = shouldUseProxy 
-      ? '/supabase-functions/google-metric-sync-enhanced'
-      : `${supabaseUrl}/functions/v1/google-metric-sync-enhanced`;
+    // All tabs are synced by one batch request (a single Sheets batchGet server-side)
+    logger.sync(`🔄 Syncing tabs: ${tabNames.join(', ')}`);
 
-    // Process all tabs for this client
-    const results = [];
-    let totalMetricsProcessed = 0;
-    
-    for (const tabName of tabNames) {
-      logger.sync(`🔄 Syncing tab: ${tabName}`);
-      
-      const requestBody = {
+    const response = await fetch(getEnhancedSyncUrl(), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+      body: JSON.stringify({
         user_id: session.user.id,
         client_id: clientId,
         google_sheet_id: actualSpreadsheetId,
-        sheet_name: tabName, // Use tab name as sheet name
-        tab_name: tabName,
-        tab_gid: "0", // Default GID
+        sheet_names: tabNames,
         sync_type: "admin", // Set sync type for admin clients
-        get_columns_only: getColumnsOnly,
-      };
-      
-      const response = await fetch(edgeFunctionUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${session.access_token}`,
-        },
-        body: JSON.stringify(requestBody),
-      });
-
-      if (!response.ok) {
-        logger.error(`❌ HTTP Error for tab ${tabName}:`, response.status, response.statusText);
-        
-        try {
-          const errorText = await response.text();
-          logger.error('❌ Error response body:', errorText);
-        } catch {
-          logger.warn('⚠️ Could not parse error response');
-        }
-        
-        // Continue with other tabs even if one fails
-        results.push({
-          tab_name: tabName,
-          success: false,
-          error: `HTTP ${response.status}: ${response.statusText}`
-        });
-        continue;
+        force,
+      }),
+    });
+
+    if (!response.ok) {
+      logger.error('❌ HTTP Error for batch sync:', response.status, response.statusText);
+
+      try {
+        const errorText = await response.text();
+        logger.error('❌ Error response body:', errorText);
+      } catch {
+        logger.warn('⚠️ Could not parse error response');
       }
 
-      const result = await response.json();
-      logger.sync(`✅ Tab ${tabName} sync result:`, result);
-      
-      // DEBUG: Log the actual response from Edge Function
-      logger.debug('🔍 Edge Function Response:', {
-        tabName,
-        success: result.success,
-        metricsProcessed: result.metricsProcessed,
-        message: result.message,
-        fullResult: result
-      });
-      
-      if (result.metricsProcessed) {
-        totalMetricsProcessed += result.metricsProcessed;
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const batchResult: BatchSyncResponse = await response.json();
+    logger.debug('🔍 Edge Function Response:', batchResult);
+
+    // Process all tabs for this client
+    const results = [];
+    let totalMetricsProcessed = 0;
+    const totalChanges = { inserted: 0, updated: 0, removed: 0, unchanged: 0 };
+    let totalWarnings = 0;
+    const alreadyRunningTabs: string[] = [];
+    const skippedUnchangedTabs: string[] = [];
+
+    for (const result of batchResult.tabs || []) {
+      logger.sync(`${result.success ? '✅' : '❌'} Tab ${result.tab_name} sync result:`, result.message);
+
+      totalMetricsProcessed += result.metricsProcessed || 0;
+
+      if (result.changes) {
+        totalChanges.inserted += result.changes.inserted || 0;
+        totalChanges.updated += result.changes.updated || 0;
+        totalChanges.removed += result.changes.removed || 0;
+        totalChanges.unchanged += result.changes.unchanged || 0;
       }
-      
-      results.push({
-        tab_name: tabName,
-        success: true,
-        data: result
-      });
+
+      totalWarnings += result.warnings?.length || 0;
+
+      if (result.alreadyRunning) {
+        alreadyRunningTabs.push(result.tab_name);
+      }
+
+      if (result.skippedUnchanged) {
+        skippedUnchangedTabs.push(result.tab_name);
+      }
+
+      // One failed tab doesn't fail the others
+      results.push(
+        result.success
+          ? { tab_name: result.tab_name, success: true, data: result }
+          : { tab_name: result.tab_name, success: false, error: result.message }
+      );
     }
     
     logger.sync(`✅ All tabs synced. Total metrics processed: ${totalMetricsProcessed}`);
@@ -181,6 +365,10 @@ export async function syncGoogleSheetsDynamic(clientId: string, googleSheetId: s
       data: {
         tabs_processed: results.length,
         total_metrics_processed: totalMetricsProcessed,
+        changes: totalChanges,
+        warnings_count: totalWarnings,
+        already_running_tabs: alreadyRunningTabs,
+        skipped_unchanged_tabs: skippedUnchangedTabs,
         results: results
       },
       error: null
@@ -200,6 +388,59 @@ export async function syncGoogleSheetsDynamic(clientId: string, googleSheetId: s
   }
 }
 
+/**
+ * Sync one published CSV data source now. It goes through the same server-side
+ * parse as Google Sheets tabs, reading the source's public link instead of the
+ * Sheets API.
+ */
+export async function syncPublishedCsvSource(dataSource: DataSource) {
+  try {
+    const { getCurrentUserSession } = await import('./database');
+    const { session, error: sessionError } = await getCurrentUserSession();
+
+    if (sessionError || !session?.user) {
+      throw new Error('No authenticated user found. Please log in.');
+    }
+
+    logger.sync(`🔄 Syncing published CSV: ${dataSource.name}`);
+
+    const response = await fetch(getEnhancedSyncUrl(), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+      body: JSON.stringify({
+        user_id: session.user.id,
+        client_id: dataSource.client_id,
+        google_sheet_id: dataSource.source_config.spreadsheet_id,
+        sheet_name: dataSource.source_config.sheet_name,
+        data_source_id: dataSource.id,
+        sync_type: "admin",
+      }),
+    });
+
+    const result: Omit<BatchSyncTabResult, 'tab_name'> | null = await response.json().catch(() => null);
+
+    if (!result?.success) {
+      throw new Error(result?.message || `HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    return { success: true, data: result, error: null };
+  } catch (error: unknown) {
+    logger.error('💥 Published CSV sync error:', error);
+
+    return {
+      success: false,
+      data: null,
+      error: {
+        error: 'Published CSV Sync Error',
+        details: error instanceof Error ? error.message : String(error)
+      }
+    };
+  }
+}
+
 /**
  * Fallback to standard sync function
  * This is used when metric configurations are not available
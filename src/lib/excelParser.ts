@@ -1,5 +1,7 @@
 import * as XLSX from 'xlsx';
 import { logger } from './logger';
+import { SheetLayoutConfig } from '../types/dataSource';
+import { createDateParser } from './dateParsing';
 
 /**
  * Excel Parser Utility
@@ -11,6 +13,20 @@ export interface ExcelParseResult {
   data: any[];
   error?: string;
   sheetNames: string[];
+  sheetName?: string; // Sheet the data was read from
+}
+
+export interface ExcelWorksheetInfo {
+  name: string;
+  index: number;
+  rows: number; // Rows in the used range, including the header row
+  columns: number;
+}
+
+export interface ExcelWorkbookInfo {
+  success: boolean;
+  sheets: ExcelWorksheetInfo[];
+  error?: string;
 }
 
 export interface MetricEntry {
@@ -27,15 +43,55 @@ export interface MetricEntry {
   tab_gid: string; // Sheet index as string
   data_source_type: "excel_import" | "csv_import";
   data_source_id: string; // Filename or hash for uniqueness
-  metric_type: "actual"; // Default metric type
+  metric_type: string; // "actual" unless the column mapping sets a type
   created_at: string;
   updated_at: string;
 }
 
 /**
- * Parse Excel file and extract data from all sheets
+ * List the worksheets of a workbook with the size of their used range, so
+ * the ones to import can be picked before parsing.
+ */
+export async function listExcelWorksheets(file: File): Promise<ExcelWorkbookInfo> {
+  try {
+    const arrayBuffer = await file.arrayBuffer();
+    const workbook = XLSX.read(arrayBuffer, { type: "array" });
+
+    const sheets = workbook.SheetNames.map((name, index) => {
+      const ref = workbook.Sheets[name]?.["!ref"];
+      if (!ref) return { name, index, rows: 0, columns: 0 };
+
+      const range = XLSX.utils.decode_range(ref);
+      return {
+        name,
+        index,
+        rows: range.e.r - range.s.r + 1,
+        columns: range.e.c - range.s.c + 1,
+      };
+    });
+
+    logger.debug("📊 Listed Excel worksheets:", { fileName: file.name, sheets });
+    return { success: true, sheets };
+  } catch (error) {
+    logger.error("❌ Excel worksheet listing error:", error);
+    return {
+      success: false,
+      sheets: [],
+      error: `Failed to read Excel file: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+}
+
+/**
+ * Parse one worksheet of an Excel file (the first unless sheetName is given)
+ * Honors the data source layout: a named range (which also picks the sheet)
+ * or an A1 range within the worksheet.
  */
-export async function parseExcelFile(file: File): Promise<ExcelParseResult> {
+export async function parseExcelFile(
+  file: File,
+  layout: SheetLayoutConfig = {},
+  sheetName?: string
+): Promise<ExcelParseResult> {
   try {
     logger.debug("📊 Parsing Excel file:", {
       fileName: file.name,
@@ -57,24 +113,45 @@ export async function parseExcelFile(file: File): Promise<ExcelParseResult> {
       };
     }
 
-    // Parse the first sheet by default (can be extended to handle multiple sheets)
-    const firstSheetName = sheetNames[0];
-    const worksheet = workbook.Sheets[firstSheetName];
+    let targetSheetName = sheetName || sheetNames[0];
+    let range = layout.range;
+
+    if (layout.named_range) {
+      const definedName = workbook.Workbook?.Names?.find(
+        (name) => name.Name.toLowerCase() === layout.named_range!.toLowerCase()
+      );
+      if (!definedName) {
+        return {
+          success: false,
+          data: [],
+          error: `Named range "${layout.named_range}" not found`,
+          sheetNames,
+        };
+      }
+      // Ref looks like 'Sheet 1'!$A$1:$D$20
+      const [refSheet, refRange] = definedName.Ref.split("!");
+      targetSheetName = refSheet.replace(/^'|'$/g, "");
+      range = refRange.replace(/\$/g, "");
+    }
+
+    const worksheet = workbook.Sheets[targetSheetName];
 
     if (!worksheet) {
       return {
         success: false,
         data: [],
-        error: `Sheet "${firstSheetName}" not found`,
+        error: `Sheet "${targetSheetName}" not found`,
         sheetNames,
       };
     }
 
     // Convert sheet to JSON using the same approach as Google Sheets
     const jsonData = XLSX.utils.sheet_to_json(worksheet, {
-      header: 1, // Use first row as headers
+      header: 1, // Raw rows; the header row is picked in transformExcelData
       defval: "", // Default value for empty cells
       raw: false, // Parse values (dates, numbers, etc.)
+      dateNF: "yyyy-mm-dd", // Real date cells come out as ISO regardless of their display format
+      ...(range && { range: resolveRange(worksheet, range) }),
     });
 
     logger.debug("📊 Parsed Excel data:", {
@@ -86,6 +163,7 @@ export async function parseExcelFile(file: File): Promise<ExcelParseResult> {
       success: true,
       data: jsonData,
       sheetNames,
+      sheetName: targetSheetName,
     };
   } catch (error: any) {
     logger.error("❌ Excel parsing error:", error);
@@ -98,84 +176,106 @@ export async function parseExcelFile(file: File): Promise<ExcelParseResult> {
   }
 }
 
+/**
+ * Column-only ranges like "A:BZ" are bounded by the sheet's used rows,
+ * since sheet_to_json needs a full A1 range.
+ */
+function resolveRange(worksheet: XLSX.WorkSheet, range: string): string {
+  const used = XLSX.utils.decode_range(worksheet["!ref"] || "A1");
+  const match = range.trim().match(/^([A-Z]+)(\d*):([A-Z]+)(\d*)$/i);
+  if (!match) return range;
+
+  const [, startCol, startRow, endCol, endRow] = match;
+  return `${startCol}${startRow || used.s.r + 1}:${endCol}${endRow || used.e.r + 1}`;
+}
+
 /**
  * Transform Excel data using the same logic as Google Sheets Edge Function
- * This reuses the parsing and categorization logic from the Edge Function
+ * This reuses the parsing and categorization logic from the Edge Function.
+ * Uploads are transformed server-side by process-file-import, which follows
+ * the same layout rules but skips undated rows (reporting them as warnings)
+ * and guesses unmapped metric types like the Google Sheets sync.
  */
 export function transformExcelData(
   rawData: any[][],
   userId: string,
   clientId: string,
   sheetName: string,
-  fileName: string
+  fileName: string,
+  layout: SheetLayoutConfig = {}
 ): MetricEntry[] {
   try {
-    if (!rawData || rawData.length < 2) {
+    const headerRowIndex = Math.max(1, layout.header_row || 1) - 1;
+
+    if (!rawData || rawData.length < headerRowIndex + 2) {
       logger.warn("⚠️ Insufficient Excel data for transformation");
       return [];
     }
 
-    const headers = rawData[0];
-    const dataRows = rawData.slice(1);
-
-    logger.debug("📊 Transforming Excel data:", {
-      headers: headers.length,
-      rows: dataRows.length,
-      sheetName,
+    const headers = rawData[headerRowIndex].map((header) =>
+      String(header ?? "").trim()
+    );
+    const dataRows = rawData.slice(headerRowIndex + 1);
+    const ignored = new Set(
+      (layout.ignored_columns || []).map((column) => column.trim().toLowerCase())
+    );
+    const mappings = new Map(
+      Object.entries(layout.column_mappings || {}).map(([key, mapping]) => [
+        key.trim().toLowerCase(),
+        mapping,
+      ])
+    );
+    mappings.forEach((mapping, key) => {
+      if (mapping.ignore) ignored.add(key);
     });
 
-    const metricEntries: MetricEntry[] = [];
-    const currentDate = new Date().toISOString().split("T")[0];
-
-    // Process each data row
-    dataRows.forEach((row, rowIndex) => {
-      if (!row || row.length === 0) return;
-
-      // Process each column (header)
-      headers.forEach((header, colIndex) => {
-        if (!header || colIndex >= row.length) return;
-
-        const cellValue = row[colIndex];
-        if (!cellValue || cellValue === "") return;
-
-        // Parse the value using the same logic as Google Sheets
-        const parsedValue = parseValue(cellValue);
-        if (parsedValue === null) return;
-
-        // Create metric name from header (same as Google Sheets)
-        const metricName = normalizeMetricName(header);
-
-        // Use smart categorization (same as Google Sheets)
-        const category = categorizeMetric(metricName);
-
-        // Determine file type and generate data source ID
-        const fileType = fileName.toLowerCase().endsWith(".csv")
-          ? "csv_import"
-          : "excel_import";
-        const dataSourceId = `${fileName}_${Date.now()}`; // Unique identifier for this import
-
-        const metricEntry: MetricEntry = {
-          user_id: userId,
-          client_id: clientId,
-          category,
-          metric_name: metricName,
-          value: parsedValue,
-          date: currentDate,
-          data_source: "excel-import",
-          google_sheet_id: null, // Not applicable for Excel/CSV
-          sheet_name: fileName, // Use filename as sheet name
-          tab_name: sheetName, // Sheet name within Excel file
-          tab_gid: "0", // Default to 0 for single sheet files
-          data_source_type: fileType,
-          data_source_id: dataSourceId,
-          metric_type: "actual",
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-        };
+    // Determine file type and generate data source ID
+    const fileType = fileName.toLowerCase().endsWith(".csv")
+      ? "csv_import"
+      : "excel_import";
+    const dataSourceId = fileName; // Same for every import of the file, so rows are replaced rather than added
+
+    const buildEntry = (
+      label: string,
+      cellValue: unknown,
+      date: string
+    ): MetricEntry | null => {
+      if (!cellValue || cellValue === "") return null;
+
+      // Parse the value using the same logic as Google Sheets
+      const parsedValue = parseValue(cellValue);
+      if (parsedValue === null) return null;
+
+      // The column mapping can name, type and categorize the metric;
+      // otherwise it's derived from the header (same as Google Sheets)
+      const mapping = mappings.get(label.toLowerCase());
+      const metricName = mapping?.metric_name || normalizeMetricName(label);
+      const category = mapping?.category || categorizeMetric(metricName);
 
-        metricEntries.push(metricEntry);
-      });
-    });
+      return {
+        user_id: userId,
+        client_id: clientId,
+        category,
+        metric_name: metricName,
+        value: parsedValue,
+        date,
+        data_source: "excel-import",
+        google_sheet_id: null, // Not applicable for Excel/CSV
+        sheet_name: fileName, // Use filename as sheet name
+        tab_name: sheetName, // Sheet name within Excel file
+        tab_gid: "0", // Default to 0 for single sheet files
+        data_source_type: fileType,
+        data_source_id: dataSourceId,
+        metric_type: mapping?.metric_type || "actual",
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      };
+    };
+
+    const metricEntries: MetricEntry[] =
+      layout.orientation === "dates_as_columns"
+        ? transformTransposedRows(headers, dataRows, ignored, layout, headerRowIndex, buildEntry)
+        : transformDateRows(headers, dataRows, ignored, layout, headerRowIndex, buildEntry);
 
     logger.debug("📊 Transformed Excel data:", {
       totalEntries: metricEntries.length,
@@ -190,6 +290,128 @@ export function transformExcelData(
   }
 }
 
+type EntryBuilder = (label: string, cellValue: unknown, date: string) => MetricEntry | null;
+
+/**
+ * One row per date, one column per metric
+ */
+function transformDateRows(
+  headers: string[],
+  dataRows: unknown[][],
+  ignored: Set<string>,
+  layout: SheetLayoutConfig,
+  headerRowIndex: number,
+  buildEntry: EntryBuilder
+): MetricEntry[] {
+  const dateColumnName = (layout.date_column || "Date").trim().toLowerCase();
+  const dateIndex = headers.findIndex(
+    (header) => header.toLowerCase() === dateColumnName
+  );
+
+  if (dateIndex === -1 && layout.date_column) {
+    logger.warn("⚠️ Date column not found in Excel headers:", {
+      dateColumn: layout.date_column,
+      headers,
+    });
+    return [];
+  }
+
+  logger.debug("📊 Transforming Excel data:", {
+    headers: headers.length,
+    rows: dataRows.length,
+    dateColumn: dateIndex >= 0 ? headers[dateIndex] : null,
+  });
+
+  const dateParser = createDateParser(
+    dateIndex >= 0 ? dataRows.map((row) => row?.[dateIndex]) : [],
+    layout.date_format
+  );
+
+  const metricEntries: MetricEntry[] = [];
+  const currentDate = new Date().toISOString().split("T")[0];
+
+  // Process each data row
+  dataRows.forEach((row, rowIndex) => {
+    if (!row || row.length === 0) return;
+
+    // Without a date column every row is dated today, as before
+    let rowDate = currentDate;
+    if (dateIndex >= 0) {
+      const parsedDate = dateParser.parse(row[dateIndex]);
+      if (!parsedDate) {
+        logger.warn("⚠️ Skipping Excel row with unparseable date:", {
+          row: headerRowIndex + rowIndex + 2,
+          value: row[dateIndex],
+          format: dateParser.format,
+        });
+        return;
+      }
+      rowDate = parsedDate;
+    }
+
+    // Process each column (header)
+    headers.forEach((header, colIndex) => {
+      if (!header || colIndex >= row.length) return;
+      if (colIndex === dateIndex || ignored.has(header.toLowerCase())) return;
+
+      const entry = buildEntry(header, row[colIndex], rowDate);
+      if (entry) metricEntries.push(entry);
+    });
+  });
+
+  return metricEntries;
+}
+
+/**
+ * Metric names down the first column, one column per date (month headers map
+ * to the first of the month)
+ */
+function transformTransposedRows(
+  headers: string[],
+  dataRows: unknown[][],
+  ignored: Set<string>,
+  layout: SheetLayoutConfig,
+  headerRowIndex: number,
+  buildEntry: EntryBuilder
+): MetricEntry[] {
+  const dateParser = createDateParser(headers.slice(1), layout.date_format);
+  const dateColumns: Array<{ index: number; date: string }> = [];
+
+  headers.forEach((header, colIndex) => {
+    if (colIndex === 0 || !header || ignored.has(header.toLowerCase())) return;
+
+    const date = dateParser.parse(header);
+    if (!date) {
+      logger.warn("⚠️ Skipping Excel column with unparseable date header:", {
+        row: headerRowIndex + 1,
+        header,
+        format: dateParser.format,
+      });
+      return;
+    }
+    dateColumns.push({ index: colIndex, date });
+  });
+
+  logger.debug("📊 Transforming transposed Excel data:", {
+    metricRows: dataRows.length,
+    dateColumns: dateColumns.length,
+  });
+
+  const metricEntries: MetricEntry[] = [];
+
+  dataRows.forEach((row) => {
+    const label = String(row?.[0] ?? "").trim();
+    if (!label || ignored.has(label.toLowerCase())) return;
+
+    dateColumns.forEach(({ index, date }) => {
+      const entry = buildEntry(label, row[index], date);
+      if (entry) metricEntries.push(entry);
+    });
+  });
+
+  return metricEntries;
+}
+
 /**
  * Parse cell value using the same logic as Google Sheets Edge Function
  */
@@ -333,36 +555,3 @@ function categorizeMetric(metricName: string): string {
   // Default category
   return "other";
 }
-
-/**
- * Insert metric entries into the database
- */
-export async function insertExcelMetricEntries(
-  entries: MetricEntry[]
-): Promise<{ success: boolean; error?: string }> {
-  try {
-    if (entries.length === 0) {
-      return { success: true };
-    }
-
-    const { supabase } = await import("./database");
-
-    const { error } = await supabase.from("metrics").upsert(entries, {
-      onConflict:
-        "user_id,client_id,data_source_id,date,category,metric_name,metric_type",
-    });
-
-    if (error) {
-      logger.error("❌ Failed to insert Excel metric entries:", error);
-      return { success: false, error: error.message };
-    }
-
-    logger.info("✅ Successfully inserted Excel metric entries:", {
-      count: entries.length,
-    });
-    return { success: true };
-  } catch (error: any) {
-    logger.error("❌ Excel metric insertion error:", error);
-    return { success: false, error: error.message };
-  }
-}
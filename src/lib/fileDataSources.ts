@@ -0,0 +1,114 @@
+/**
+ * File Data Sources
+ *
+ * Files are uploaded to storage and parsed server-side by the
+ * process-file-import edge function, which stores each as the source's next
+ * version. Rows are keyed by the data source, so re-importing only changes
+ * what differs, and the same file (by SHA-256) again changes nothing.
+ *
+ * Files are still read in the browser to detect columns for the mapping step.
+ */
+
+import { logger } from './logger';
+import { DataSource, DetectedColumn, FileImportJob } from '../types/dataSource';
+import { parseCsvFile } from './csvParser';
+import { parseExcelFile } from './excelParser';
+import { queueFileImport, startFileImportJob } from './database';
+
+export interface FileImportResult {
+  success: boolean;
+  job?: FileImportJob;
+  error?: string;
+}
+
+export interface FileColumnsResult {
+  success: boolean;
+  columns: DetectedColumn[];
+  error?: string;
+}
+
+const MAX_COLUMN_SAMPLES = 5;
+
+interface FileRows {
+  success: boolean;
+  rows: unknown[][];
+  error?: string;
+}
+
+// Raw rows of a file, read with the data source's CSV options or worksheet
+const readDataSourceFile = async (dataSource: DataSource, file: File): Promise<FileRows> => {
+  const config = dataSource.source_config;
+
+  if (dataSource.source_type === 'csv') {
+    const parsed = await parseCsvFile(file, {
+      delimiter: config.delimiter,
+      encoding: config.encoding,
+      has_headers: config.has_headers,
+    });
+    return { success: parsed.success, rows: parsed.data, error: parsed.error };
+  }
+
+  if (dataSource.source_type === 'xlsx') {
+    const parsed = await parseExcelFile(file, config, config.sheet_name);
+    return { success: parsed.success, rows: parsed.data, error: parsed.error };
+  }
+
+  return {
+    success: false,
+    rows: [],
+    error: `${dataSource.source_type} data sources don't accept file uploads`,
+  };
+};
+
+/**
+ * The columns of a file (row labels for dates_as_columns layouts) with sample
+ * values, for the column mapping step. Nothing is uploaded.
+ */
+export const detectFileColumns = async (dataSource: DataSource, file: File): Promise<FileColumnsResult> => {
+  const { success, rows, error } = await readDataSourceFile(dataSource, file);
+  if (!success) {
+    return { success: false, columns: [], error };
+  }
+
+  const headerRowIndex = Math.max(1, dataSource.source_config.header_row || 1) - 1;
+  const headers = (rows[headerRowIndex] || []).map(header => String(header ?? '').trim());
+  const dataRows = rows.slice(headerRowIndex + 1);
+
+  const samplesOf = (values: unknown[]) =>
+    values
+      .filter(value => value !== undefined && value !== null && String(value).trim() !== '')
+      .slice(0, MAX_COLUMN_SAMPLES)
+      .map(value => String(value));
+
+  const columns =
+    dataSource.source_config.orientation === 'dates_as_columns'
+      ? dataRows.map(row => ({ header: String(row?.[0] ?? '').trim(), samples: samplesOf((row || []).slice(1)) }))
+      : headers.map((header, index) => ({ header, samples: samplesOf(dataRows.map(row => row?.[index])) }));
+
+  return { success: true, columns: columns.filter(column => column.header) };
+};
+
+/**
+ * Upload a file and import it into the data source in the background. The
+ * returned job is queued or already running; follow it with getFileImportJobs.
+ * If the job can't be started right away it stays queued and the
+ * orphaned-job sweep runs it.
+ */
+export const importFileInBackground = async (
+  dataSource: DataSource,
+  file: File
+): Promise<FileImportResult> => {
+  const { data: job, error } = await queueFileImport(dataSource, file);
+
+  if (error || !job) {
+    logger.error('❌ Error queueing file import:', error);
+    return { success: false, error: (error as { message?: string } | null)?.message || 'Failed to upload file' };
+  }
+
+  const { error: startError } = await startFileImportJob(job.id);
+  if (startError) {
+    logger.warn('⚠️ File import queued but not started yet:', startError);
+  }
+
+  return { success: true, job };
+};
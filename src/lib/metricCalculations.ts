@@ -331,13 +331,14 @@ export const validateRawData = (data: RawMetricData): { isValid: boolean; errors
  * Formats calculated metric values for display
  * @param value - The numeric value to format
  * @param metricTypeOrName - Either the metric_type from database ('currency', 'percentage', 'number') or the metric name
+ * @param currency - ISO currency code for 'currency' metrics (metrics.currency), defaults to USD
  */
-export const formatCalculatedMetric = (value: number, metricTypeOrName: string): string => {
+export const formatCalculatedMetric = (value: number, metricTypeOrName: string, currency?: string | null): string => {
   // First check if this is a database metric_type value
   if (metricTypeOrName === 'currency') {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: 'USD',
+      currency: currency || 'USD',
       minimumFractionDigits: 0,
       maximumFractionDigits: 2,
     }).format(value);
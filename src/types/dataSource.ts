@@ -1,11 +1,14 @@
 // Data Source Types for Multi-Source Support
 // Generated: 2025-09-29
 
+import { DateFormat } from '../lib/dateParsing';
+import { SyncRunWarning } from './index';
+
 export interface DataSource {
   id: string;
   client_id: string;
   name: string;
-  source_type: 'google_sheets' | 'csv' | 'xlsx';
+  source_type: 'google_sheets' | 'published_csv' | 'csv' | 'xlsx';
   source_config: DataSourceConfig;
   is_active: boolean;
   display_order: number;
@@ -16,10 +19,22 @@ export interface DataSource {
 export interface DataSourceConfig {
   // Google Sheets configuration
   spreadsheet_id?: string;
-  sheet_name?: string;
-  range?: string;
+  sheet_name?: string; // Tab name; for xlsx sources, the worksheet that is imported
+  range?: string; // A1 range, e.g. "A:BZ" or "A5:Z500" (defaults to "A:AZ")
   auto_sync?: boolean;
   sync_frequency?: 'daily' | 'weekly' | 'monthly';
+  provider?: 'google' | 'fixture'; // fixture: read from local files instead of Google (defaults to the SHEET_PROVIDER secret, then google)
+  csv_url?: string; // published_csv: the tab's "Publish to web" CSV link; spreadsheet_id groups a document's tabs
+
+  // Sheet layout (Google Sheets and Excel)
+  named_range?: string; // Used instead of range when set
+  header_row?: number; // 1-based row within the range that holds the headers (defaults to 1)
+  date_column?: string; // Header of the date column (defaults to "Date")
+  date_format?: DateFormat; // How date cells are read (defaults to "auto", detected per column)
+  ignored_columns?: string[]; // Headers that are never imported as metrics
+  orientation?: 'dates_as_rows' | 'dates_as_columns'; // dates_as_columns: metric names down the first column (defaults to dates_as_rows)
+  value_render?: 'formatted' | 'unformatted'; // unformatted: raw numbers and serial dates, types from cell number formats (Google Sheets, defaults to formatted)
+  column_mappings?: Record<string, ColumnMapping>; // Keyed by header (row label for dates_as_columns), matched case-insensitively
   
   // CSV/XLSX configuration
   file_name?: string;
@@ -29,8 +44,118 @@ export interface DataSourceConfig {
   has_headers?: boolean;
   delimiter?: string;
   encoding?: string;
+  current_version?: number; // Version of the upload whose rows are live
+}
+
+// How one column becomes a metric. Unset fields fall back to what the sync
+// detects: the normalized header, the type guessed from the values and the
+// category guessed from the name.
+export interface ColumnMapping {
+  ignore?: boolean; // Never imported, like ignored_columns
+  metric_name?: string; // An existing metric of the client, or a new one
+  metric_type?: 'currency' | 'percentage' | 'number';
+  category?: string; // e.g. 'spend-revenue', 'funnel-volume'
+}
+
+// A column found in the header row, with a few of its values
+export interface DetectedColumn {
+  header: string;
+  samples: string[];
+}
+
+// One uploaded file of a csv/xlsx data source. Exactly one version is current;
+// rolling back makes an earlier one current again.
+export interface DataSourceUpload {
+  id: string;
+  data_source_id: string;
+  client_id: string;
+  version: number;
+  file_name: string;
+  file_size: number | null;
+  content_hash: string | null; // SHA-256 of the file
+  row_count: number;
+  metric_count: number;
+  metrics_added: number | null; // Changes made when uploaded (null for older uploads)
+  metrics_updated: number | null;
+  metrics_removed: number | null;
+  is_current: boolean;
+  uploaded_by: string | null;
+  uploaded_at: string;
+}
+
+// Background parse of a file uploaded to storage (process-file-import edge
+// function). Progress is written to the row as the job runs.
+export interface FileImportJob {
+  id: string;
+  data_source_id: string;
+  client_id: string;
+  storage_path: string;
+  file_name: string;
+  file_size: number | null;
+  status: 'queued' | 'processing' | 'completed' | 'failed';
+  stage: 'downloading' | 'parsing' | 'transforming' | 'saving' | null;
+  progress: number; // 0-100
+  rows_total: number | null;
+  rows_processed: number;
+  attempts: number;
+  result: {
+    upload_id: string;
+    version: number;
+    unchanged: boolean;
+    metrics_added: number;
+    metrics_updated: number;
+    metrics_removed: number;
+    metrics_unchanged: number;
+    // Rows and date columns skipped for a missing or unparseable date (first 500)
+    warning_count?: number;
+    warnings?: SyncRunWarning[];
+  } | null;
+  error_message: string | null;
+  created_by: string | null;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
 }
 
+// Google service account for a client (data_source_id null) or one data source.
+// The private key is write-only: it is stored encrypted and never read back.
+export interface GoogleCredentials {
+  id: string;
+  client_id: string;
+  data_source_id: string | null;
+  service_account_email: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Key for pushing metrics into one client (ingest-metrics). Only its prefix
+// is ever readable; the full key is shown once, when it's created.
+export interface ClientApiKey {
+  id: string;
+  client_id: string;
+  name: string;
+  key_prefix: string;
+  scopes: ClientApiKeyScope[];
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+}
+
+export type ClientApiKeyScope = 'metrics:write';
+
+export type SheetLayoutConfig = Pick<
+  DataSourceConfig,
+  | 'range'
+  | 'named_range'
+  | 'header_row'
+  | 'date_column'
+  | 'date_format'
+  | 'ignored_columns'
+  | 'orientation'
+  | 'value_render'
+  | 'column_mappings'
+>;
+
 export interface OverviewDisplayMode {
   mode: 'combined' | 'individual' | 'joint';
   selectedSources: string[]; // Data source IDs
@@ -28,6 +28,7 @@ export interface Client {
       cpa?: number;
       sales?: number;
     };
+    set_at?: Record<string, string>; // When each target got its current value
     updated_at?: string;
     updated_by?: string;
   };
@@ -70,6 +71,7 @@ export interface MetricEntry {
   // Client-specific fields for targets and metric types
   target_value?: number;
   metric_type?: 'actual' | 'target' | 'calculated';
+  currency?: string | null; // ISO code for currency metrics, from the sheet's number format
 }
 
 export interface DashboardMetric {
@@ -122,12 +124,131 @@ export interface SyncStatus {
   client_id: string;
   google_sheet_id: string;
   sheet_name?: string;
-  sync_status: 'success' | 'error' | 'never_synced' | 'syncing';
+  // 'skipped': the spreadsheet was unchanged since the last sync, so nothing was read
+  sync_status: 'success' | 'error' | 'never_synced' | 'syncing' | 'skipped';
   last_sync_at?: string;
   last_successful_sync_at?: string;
   sync_error_message?: string;
+  source_modified_at?: string; // Spreadsheet's Drive modifiedTime as of the last successful sync
   total_sync_count: number;
   successful_sync_count: number;
   created_at?: string;
   updated_at?: string;
-}
\ No newline at end of file
+}
+
+export interface SyncRunWarning {
+  row: number;
+  column?: string;
+  // 'date_fallback' only appears on runs recorded before unparseable dates were skipped
+  type: 'missing_date' | 'unparseable_date' | 'date_fallback' | 'unparseable_value';
+  value?: string;
+  message: string;
+}
+
+export interface SyncRun {
+  id: string;
+  client_id: string;
+  user_id?: string;
+  data_source_id?: string;
+  google_sheet_id: string;
+  sheet_name: string;
+  triggered_by: 'manual' | 'scheduler';
+  status: 'running' | 'success' | 'error';
+  started_at: string;
+  finished_at?: string;
+  rows_read: number;
+  metrics_processed: number;
+  metrics_inserted: number;
+  metrics_updated: number;
+  metrics_removed: number;
+  metrics_unchanged: number;
+  warning_count: number;
+  warnings: SyncRunWarning[];
+  error_message?: string;
+  // Failed runs: 'retryable' errors (quota, Google outage) may pass on the next sync
+  error_class?: 'retryable' | 'permanent';
+  error_reason?: string;
+}
+
+export interface SyncRunDiffRow {
+  change_type: 'added' | 'removed' | 'changed';
+  tab_name?: string;
+  date: string;
+  category?: string;
+  metric_name: string;
+  metric_type?: string;
+  old_value: number | null;
+  new_value: number | null;
+}
+
+// Outgoing webhooks (deliver-webhooks edge function). Endpoints without a
+// client_id are global and receive every client's events.
+export type WebhookEventType = 'sync.completed' | 'sync.failed' | 'goal.hit' | 'goal.missed';
+
+export interface WebhookEndpoint {
+  id: string;
+  client_id: string | null;
+  url: string;
+  description: string | null;
+  event_types: WebhookEventType[];
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  endpoint_id: string;
+  client_id: string | null;
+  event_id: string;
+  event_type: WebhookEventType;
+  payload: Record<string, unknown>;
+  status: 'pending' | 'delivering' | 'succeeded' | 'failed';
+  attempts: number;
+  next_attempt_at: string;
+  last_attempt_at: string | null;
+  response_status: number | null;
+  error_message: string | null;
+  replay_of: string | null;
+  created_at: string;
+  delivered_at: string | null;
+}
+
+// Correction written back to the source Google Sheet (write-metric edge function)
+export interface MetricWriteRequest {
+  client_id: string;
+  google_sheet_id: string;
+  sheet_name: string;
+  tab_name: string;
+  metric_name: string;
+  value: number;
+  date: string;
+  category: string;
+  metric_type: 'currency' | 'percentage' | 'number';
+  force?: boolean; // Overwrite even if the cell changed in the sheet since the last sync
+}
+
+export interface MetricWriteResult {
+  success: boolean;
+  message: string;
+  cell?: string | null;
+  previous_value?: number | null;
+  // Set when the sheet no longer matches the last synced value
+  conflict?: boolean;
+  sheet_value?: number | null;
+  synced_value?: number | null;
+}
+// Token for the read-only metrics API (metrics-api edge function). Only its
+// prefix is ever readable; the full token is shown once, when it's minted.
+export interface MetricsApiToken {
+  id: string;
+  name: string;
+  token_prefix: string;
+  client_ids: string[];
+  created_by: string;
+  created_at: string;
+  expires_at: string | null;
+  last_used_at: string | null;
+  revoked_at: string | null;
+}
@@ -0,0 +1,202 @@
+// Explicit and auto-detected date formats, shared by the edge functions that
+// read sheet and file rows. Mirrors src/lib/dateParsing.ts (the browser build
+// can't import from here) - keep the two in step.
+
+export type DateFormat = 'auto' | 'MM/DD/YYYY' | 'DD/MM/YYYY' | 'YYYY-MM-DD' | 'excel_serial' | 'week_start';
+export type ResolvedDateFormat = Exclude<DateFormat, 'auto'>;
+
+export class SheetDateParser {
+  private static readonly MONTHS: Record<string, number> = {
+    jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6,
+    jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12,
+  };
+
+  private static readonly ISO_PATTERN = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T\s].*)?$/;
+  private static readonly NUMERIC_PATTERN = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})$/;
+  private static readonly SERIAL_PATTERN = /^\d+(\.\d+)?$/;
+  private static readonly WEEK_PREFIX_PATTERN = /^(week\s*(of|starting|commencing|beginning)?|w\/?c|wk)\b\s*[:-]?\s*/i;
+  private static readonly ISO_WEEK_PATTERN = /^(\d{4})-?W(\d{1,2})$/i;
+  private static readonly WEEK_NUMBER_PATTERN = /^(?:week|wk)\s*(\d{1,2})\D+(\d{4})$/i;
+
+  /**
+   * Build a parser for a whole date column. With 'auto' the format is detected
+   * from every value in the column, so "03/04/2025, 13/04/2025" is read day-first.
+   */
+  static forColumn(
+    columnValues: unknown[],
+    format: DateFormat = 'auto'
+  ): { format: ResolvedDateFormat; parse: (value: unknown) => string | null } {
+    const resolved = format === 'auto' ? this.detectFormat(columnValues) : format;
+    const samples = columnValues.map(value => this.stripWeekPrefix(String(value ?? '').trim()));
+    const dayFirst =
+      resolved === 'DD/MM/YYYY' ||
+      (resolved === 'week_start' && this.detectDayFirst(samples));
+
+    return {
+      format: resolved,
+      parse: (value: unknown) => this.parse(value, resolved, dayFirst),
+    };
+  }
+
+  // Returns null for unparseable values - callers report them instead of guessing
+  static parse(value: unknown, format: ResolvedDateFormat, dayFirst: boolean = format === 'DD/MM/YYYY'): string | null {
+    // Date cells read unformatted arrive as serial numbers whatever their display format
+    if (typeof value === 'number') return this.serialToIsoDate(value);
+
+    const text = String(value ?? '').trim();
+    if (!text) return null;
+
+    switch (format) {
+      case 'excel_serial':
+        return this.SERIAL_PATTERN.test(text) ? this.serialToIsoDate(parseFloat(text)) : this.parseCalendarDate(text, dayFirst);
+      case 'YYYY-MM-DD': {
+        const iso = text.match(this.ISO_PATTERN);
+        return iso
+          ? this.toIsoDate(parseInt(iso[1], 10), parseInt(iso[2], 10), parseInt(iso[3], 10))
+          : this.parseTextualDate(text) ?? this.parseMonthLabel(text);
+      }
+      case 'week_start': {
+        const weekNumber = text.match(this.WEEK_NUMBER_PATTERN);
+        if (weekNumber) return this.isoWeekStart(parseInt(weekNumber[2], 10), parseInt(weekNumber[1], 10));
+
+        const stripped = this.stripWeekPrefix(text);
+        const isoWeek = stripped.match(this.ISO_WEEK_PATTERN);
+        if (isoWeek) return this.isoWeekStart(parseInt(isoWeek[1], 10), parseInt(isoWeek[2], 10));
+
+        return this.parseCalendarDate(stripped, dayFirst);
+      }
+      default:
+        return this.parseCalendarDate(text, dayFirst);
+    }
+  }
+
+  static detectFormat(values: unknown[]): ResolvedDateFormat {
+    const samples = values.map(value => String(value ?? '').trim()).filter(Boolean);
+    if (samples.length === 0) return 'MM/DD/YYYY';
+
+    if (samples.some(sample => this.WEEK_PREFIX_PATTERN.test(sample) || this.ISO_WEEK_PATTERN.test(sample))) {
+      return 'week_start';
+    }
+
+    if (samples.some(sample => this.NUMERIC_PATTERN.test(sample))) {
+      return this.detectDayFirst(samples) ? 'DD/MM/YYYY' : 'MM/DD/YYYY';
+    }
+
+    if (samples.some(sample => this.SERIAL_PATTERN.test(sample))) return 'excel_serial';
+    if (samples.some(sample => this.ISO_PATTERN.test(sample))) return 'YYYY-MM-DD';
+
+    return 'MM/DD/YYYY';
+  }
+
+  // Ambiguous columns (every part <= 12) keep the historical US reading
+  private static detectDayFirst(values: string[]): boolean {
+    let dayFirstEvidence = 0;
+    let monthFirstEvidence = 0;
+
+    for (const value of values) {
+      const numeric = value.match(this.NUMERIC_PATTERN);
+      if (!numeric) continue;
+      const first = parseInt(numeric[1], 10);
+      const second = parseInt(numeric[2], 10);
+      if (first > 12 && second <= 12) dayFirstEvidence++;
+      if (second > 12 && first <= 12) monthFirstEvidence++;
+    }
+
+    return dayFirstEvidence > monthFirstEvidence;
+  }
+
+  private static stripWeekPrefix(text: string): string {
+    return text.replace(this.WEEK_PREFIX_PATTERN, '').trim();
+  }
+
+  private static parseCalendarDate(text: string, dayFirst: boolean): string | null {
+    const iso = text.match(this.ISO_PATTERN);
+    if (iso) return this.toIsoDate(parseInt(iso[1], 10), parseInt(iso[2], 10), parseInt(iso[3], 10));
+
+    const numeric = text.match(this.NUMERIC_PATTERN);
+    if (numeric) {
+      const [first, second, year] = numeric.slice(1).map(part => parseInt(part, 10));
+      return dayFirst ? this.toIsoDate(year, second, first) : this.toIsoDate(year, first, second);
+    }
+
+    return this.parseTextualDate(text) ?? this.parseMonthLabel(text);
+  }
+
+  // "6 Jan 2025", "Jan 6, 2025" - unambiguous in every format
+  private static parseTextualDate(text: string): string | null {
+    let match = text.match(/^(\d{1,2})\s+([a-z]{3,})\.?,?\s+(\d{2,4})$/i);
+    if (match) {
+      const month = this.MONTHS[match[2].slice(0, 3).toLowerCase()];
+      return month ? this.toIsoDate(parseInt(match[3], 10), month, parseInt(match[1], 10)) : null;
+    }
+
+    match = text.match(/^([a-z]{3,})\.?\s+(\d{1,2}),?\s+(\d{2,4})$/i);
+    if (match) {
+      const month = this.MONTHS[match[1].slice(0, 3).toLowerCase()];
+      return month ? this.toIsoDate(parseInt(match[3], 10), month, parseInt(match[2], 10)) : null;
+    }
+
+    return null;
+  }
+
+  // "Jan 2025", "January 2025", "Jan-25", "2025-01", "01/2025" -> first of the month
+  private static parseMonthLabel(text: string): string | null {
+    const named = text.match(/^([a-z]{3,})\.?[\s\-']+(\d{2}|\d{4})$/i);
+    if (named) {
+      const month = this.MONTHS[named[1].slice(0, 3).toLowerCase()];
+      return month ? this.toIsoDate(parseInt(named[2], 10), month, 1) : null;
+    }
+
+    const yearFirst = text.match(/^(\d{4})[-/](\d{1,2})$/);
+    if (yearFirst) return this.toIsoDate(parseInt(yearFirst[1], 10), parseInt(yearFirst[2], 10), 1);
+
+    const monthFirst = text.match(/^(\d{1,2})[-/](\d{4})$/);
+    if (monthFirst) return this.toIsoDate(parseInt(monthFirst[2], 10), parseInt(monthFirst[1], 10), 1);
+
+    return null;
+  }
+
+  // Monday of ISO week `week` in `year`
+  private static isoWeekStart(year: number, week: number): string | null {
+    if (week < 1 || week > 53) return null;
+    const jan4 = new Date(Date.UTC(year, 0, 4));
+    const mondayOfWeek1 = new Date(jan4.getTime() - ((jan4.getUTCDay() + 6) % 7) * 86400000);
+    const monday = new Date(mondayOfWeek1.getTime() + (week - 1) * 7 * 86400000);
+    return monday.toISOString().split('T')[0];
+  }
+
+  private static serialToIsoDate(serial: number): string | null {
+    // Excel's day 0 is 1899-12-30 (accounting for the 1900 leap year bug)
+    const date = new Date(Date.UTC(1899, 11, 30) + Math.floor(serial) * 86400000);
+    return isNaN(date.getTime()) ? null : date.toISOString().split('T')[0];
+  }
+
+  private static toIsoDate(year: number, month: number, day: number): string | null {
+    const fullYear = year < 100 ? 2000 + year : year;
+    const date = new Date(Date.UTC(fullYear, month - 1, day));
+    if (
+      date.getUTCFullYear() !== fullYear ||
+      date.getUTCMonth() !== month - 1 ||
+      date.getUTCDate() !== day
+    ) {
+      return null;
+    }
+    return date.toISOString().split('T')[0];
+  }
+}
+
+// YYYY-MM-DD, or an ISO timestamp whose date part is used as sent. Impossible
+// dates (2025-02-30) fail the UTC round trip. For API input, so it has no
+// counterpart in src/lib/dateParsing.ts.
+export function parseIsoDate(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const match = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})(?:[T\s].*)?$/);
+  if (!match) return null;
+
+  const [year, month, day] = [parseInt(match[1], 10), parseInt(match[2], 10), parseInt(match[3], 10)];
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return `${match[1]}-${match[2]}-${match[3]}`;
+}
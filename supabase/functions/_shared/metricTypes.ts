@@ -0,0 +1,75 @@
+// Metric naming and type guessing shared by the edge functions that store
+// metrics, so a metric pushed through the API matches the same metric imported
+// from a file.
+
+export type MetricType = 'currency' | 'percentage' | 'number';
+
+// Type of a metric with no mapped type or number format, from a display
+// value (symbols win) and then the metric name
+export function detectMetricType(value: string, metricName: string): MetricType {
+  const nameLower = metricName.toLowerCase();
+
+  // Check for currency symbols in value (strongest indicator)
+  if (/[$€£]/.test(value)) return 'currency';
+
+  // Check for percentage in value (strong indicator)
+  if (value.includes('%')) return 'percentage';
+
+  // Special cases that should be numbers (not currency)
+  if (
+    /roas|roi|bounce|click|impression|lead|conversion|call|show|close|email|session/i.test(
+      nameLower
+    )
+  ) {
+    // These are counts or ratios, not currency
+    return 'number';
+  }
+
+  // CTR and rate metrics are percentages
+  if (/ctr|rate|percent|ratio|opt-in/i.test(nameLower)) {
+    return 'percentage';
+  }
+
+  // Cost and spend metrics are currency
+  if (
+    /cost|spend|spent|revenue|price|budget|cpm|cpc|cpa|aov/i.test(nameLower)
+  ) {
+    return 'currency';
+  }
+
+  // Default to number
+  return 'number';
+}
+
+// Header to stored metric name: lowercase, punctuation dropped, spaces to _
+export function normalizeMetricName(header: string): string {
+  return header
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, '')
+    .replace(/\s+/g, '_')
+    .trim();
+}
+
+// Dashboard category from keywords in the metric name
+export function categorizeMetric(metricName: string): string {
+  if (!metricName) return 'other';
+  const name = metricName.toLowerCase();
+
+  if (name.includes('growth') || name.includes('increase')) return 'growth';
+  if (name.includes('performance') || name.includes('efficiency') || name.includes('roi') || name.includes('roas')) {
+    return 'performance';
+  }
+  if (name.includes('cold') || name.includes('email') || name.includes('outreach')) return 'cold-email';
+  if (name.includes('ad') || name.includes('spend') || name.includes('campaign') || name.includes('cpc') || name.includes('cpm')) {
+    return 'ads';
+  }
+  if (name.includes('spam') || name.includes('automation') || name.includes('sequence')) return 'spam-outreach';
+  if (name.includes('revenue') || name.includes('sales') || name.includes('income') || name.includes('profit')) {
+    return 'spend_revenue';
+  }
+  if (name.includes('cost') || name.includes('expense') || name.includes('budget')) return 'cost_per_show';
+  if (name.includes('funnel') || name.includes('conversion') || name.includes('opt_in') || name.includes('show_rate')) {
+    return 'funnel_conversion';
+  }
+  return 'other';
+}
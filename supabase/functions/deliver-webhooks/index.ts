@@ -0,0 +1,337 @@
+// Deliver Webhooks Edge Function
+// Sends queued webhook deliveries (emit_webhook_event) to their endpoints.
+//
+//   Service role, {}                 - sends every due delivery, including
+//                                      retries (run on a schedule, and by
+//                                      syncs after they queue events)
+//   User JWT, { delivery_id }        - sends one pending delivery now, e.g. a
+//                                      replay; it must be visible to the user
+//
+// Each request is a POST of the event payload as JSON, signed with the
+// endpoint's secret:
+//
+//   X-Webhook-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+//   X-Webhook-Event: sync.completed
+//   X-Webhook-Delivery: <delivery id>
+//
+// A 2xx response delivers it. Anything else is retried with exponential
+// backoff until MAX_ATTEMPTS, after which the delivery is failed and can
+// still be replayed by hand.
+//
+// Endpoints are registered by client admins, so requests only go to public
+// addresses (checked after resolving the host), redirects are not followed
+// and only the response status is kept.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.4';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+interface DeliverWebhooksRequest {
+  delivery_id?: string;
+}
+
+interface ClaimedDelivery {
+  delivery_id: string;
+  event_id: string;
+  event_type: string;
+  payload: Record<string, unknown>;
+  attempts: number;
+  url: string;
+  secret: string;
+}
+
+interface DeliveryOutcome {
+  delivered: boolean;
+  responseStatus: number | null;
+  errorMessage: string | null;
+}
+
+const BATCH_SIZE = 50;
+const MAX_ATTEMPTS = 8;
+const REQUEST_TIMEOUT_MS = 10000;
+// 1, 2, 4 ... 64 minutes between attempts
+const BASE_RETRY_DELAY_MS = 60000;
+
+async function hmacSha256Hex(secret: string, message: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+  return Array.from(new Uint8Array(signature)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Loopback, private, shared, link-local (cloud metadata), benchmarking and
+// multicast/reserved ranges, IPv4 and IPv6 (including IPv4-mapped)
+function isPrivateAddress(address: string): boolean {
+  const ip = address.replace(/^\[|\]$/g, '').toLowerCase();
+  const v4 = ip.replace(/^::ffff:/, '').match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (v4) {
+    const [a, b] = [Number(v4[1]), Number(v4[2])];
+    return a === 0 || a === 10 || a === 127 || a >= 224
+      || (a === 100 && b >= 64 && b <= 127)
+      || (a === 169 && b === 254)
+      || (a === 172 && b >= 16 && b <= 31)
+      || (a === 192 && b === 168)
+      || (a === 198 && (b === 18 || b === 19));
+  }
+  if (ip.includes(':')) {
+    return ip === '::' || ip === '::1' || /^f[cd]/.test(ip) || /^fe[89ab]/.test(ip) || ip.startsWith('ff');
+  }
+  return false;
+}
+
+// Why the endpoint may not be called, or null. is_public_webhook_url already
+// rejects IP addresses and internal names when the endpoint is saved; this
+// also catches public names that resolve to private addresses.
+async function checkEndpointHost(url: string): Promise<string | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'Invalid endpoint URL';
+  }
+  if (parsed.protocol !== 'https:') {
+    return 'Endpoint URL must be https';
+  }
+
+  const host = parsed.hostname.toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost') || isPrivateAddress(host)) {
+    return `${host} is not a public host`;
+  }
+  if (/^[\d.]+$/.test(host) || host.startsWith('[')) {
+    return null;
+  }
+
+  const addresses = (await Promise.all([
+    Deno.resolveDns(host, 'A').catch(() => [] as string[]),
+    Deno.resolveDns(host, 'AAAA').catch(() => [] as string[])
+  ])).flat();
+  if (addresses.length === 0) {
+    return `Could not resolve ${host}`;
+  }
+  const privateAddress = addresses.find(isPrivateAddress);
+  return privateAddress ? `${host} resolves to a non-public address (${privateAddress})` : null;
+}
+
+function retryDelayMs(attempts: number): number {
+  return BASE_RETRY_DELAY_MS * 2 ** (attempts - 1);
+}
+
+async function sendDelivery(delivery: ClaimedDelivery): Promise<DeliveryOutcome> {
+  const hostError = await checkEndpointHost(delivery.url);
+  if (hostError) {
+    return { delivered: false, responseStatus: null, errorMessage: hostError };
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const signature = await hmacSha256Hex(delivery.secret, `${timestamp}.${body}`);
+
+  try {
+    const response = await fetch(delivery.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'metrics-webhooks/1',
+        'X-Webhook-Signature': `t=${timestamp},v1=${signature}`,
+        'X-Webhook-Event': delivery.event_type,
+        'X-Webhook-Delivery': delivery.delivery_id
+      },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    });
+    await response.body?.cancel();
+
+    const redirected = response.status >= 300 && response.status < 400;
+    return {
+      delivered: response.ok,
+      responseStatus: response.status,
+      errorMessage: response.ok
+        ? null
+        : `Endpoint responded ${response.status}${redirected ? ' (redirects are not followed)' : ''}`
+    };
+  } catch (error: unknown) {
+    const timedOut = error instanceof DOMException && error.name === 'TimeoutError';
+    return {
+      delivered: false,
+      responseStatus: null,
+      errorMessage: timedOut
+        ? `No response within ${REQUEST_TIMEOUT_MS / 1000}s`
+        : error instanceof Error ? error.message : 'Request failed'
+    };
+  }
+}
+
+async function recordOutcome(
+  supabaseService: SupabaseClient,
+  delivery: ClaimedDelivery,
+  outcome: DeliveryOutcome
+): Promise<'succeeded' | 'pending' | 'failed'> {
+  const status = outcome.delivered ? 'succeeded' : delivery.attempts >= MAX_ATTEMPTS ? 'failed' : 'pending';
+
+  const { error } = await supabaseService
+    .from('webhook_deliveries')
+    .update({
+      status,
+      response_status: outcome.responseStatus,
+      error_message: outcome.errorMessage,
+      delivered_at: outcome.delivered ? new Date().toISOString() : null,
+      next_attempt_at: status === 'pending'
+        ? new Date(Date.now() + retryDelayMs(delivery.attempts)).toISOString()
+        : undefined
+    })
+    .eq('id', delivery.delivery_id);
+
+  if (error) {
+    // Left in delivering, so it is claimed again once stale
+    console.error('❌ Could not record webhook delivery outcome:', delivery.delivery_id, error);
+  }
+  return status;
+}
+
+async function deliver(supabaseService: SupabaseClient, deliveries: ClaimedDelivery[]) {
+  const counts = { succeeded: 0, pending: 0, failed: 0 };
+
+  for (const delivery of deliveries) {
+    const outcome = await sendDelivery(delivery);
+    const status = await recordOutcome(supabaseService, delivery, outcome);
+    counts[status]++;
+
+    if (outcome.delivered) {
+      console.log(`✅ Delivered ${delivery.event_type} (${delivery.delivery_id}) to ${delivery.url}`);
+    } else {
+      console.warn(
+        `⚠️ ${delivery.event_type} (${delivery.delivery_id}) to ${delivery.url} failed on attempt ${delivery.attempts}:`,
+        outcome.errorMessage
+      );
+    }
+  }
+
+  return counts;
+}
+
+async function claimDeliveries(
+  supabaseService: SupabaseClient,
+  deliveryId: string | null
+): Promise<ClaimedDelivery[]> {
+  const { data, error } = await supabaseService.rpc('claim_webhook_deliveries', {
+    p_limit: BATCH_SIZE,
+    p_delivery_id: deliveryId
+  });
+  if (error) {
+    throw new Error(`Could not claim webhook deliveries: ${error.message}`);
+  }
+  return (data || []) as ClaimedDelivery[];
+}
+
+Deno.serve(async (req) => {
+  const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS'
+  };
+
+  const json = (body: Record<string, unknown>, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const request: DeliverWebhooksRequest = await req.json().catch(() => ({}));
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return json({ success: false, message: 'Missing or invalid Authorization header' }, 401);
+    }
+    const token = authHeader.replace('Bearer ', '');
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Service role without a delivery: send everything that is due
+    if (token === supabaseServiceKey && !request.delivery_id) {
+      let claimed = 0;
+      const totals = { succeeded: 0, pending: 0, failed: 0 };
+      // Stop after a few batches; the next run picks up the rest
+      for (let batch = 0; batch < 5; batch++) {
+        const deliveries = await claimDeliveries(supabaseService, null);
+        if (deliveries.length === 0) break;
+
+        claimed += deliveries.length;
+        const counts = await deliver(supabaseService, deliveries);
+        totals.succeeded += counts.succeeded;
+        totals.pending += counts.pending;
+        totals.failed += counts.failed;
+      }
+
+      console.log(`📤 Webhook run: ${claimed} sent`, totals);
+      return json({
+        success: true,
+        message: `Sent ${claimed} webhook deliveries (${totals.succeeded} delivered, ${totals.pending} will retry, ${totals.failed} failed)`,
+        ...totals
+      });
+    }
+
+    if (!request.delivery_id) {
+      return json({ success: false, message: 'Missing required parameter: delivery_id' }, 400);
+    }
+
+    // The delivery must be visible to the caller (webhook_deliveries RLS),
+    // i.e. they manage its endpoint
+    if (token !== supabaseServiceKey) {
+      const supabase = createClient(supabaseUrl, supabaseAnonKey);
+      const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+      if (authError || !user) {
+        console.error('❌ JWT validation failed:', authError);
+        return json({ success: false, message: 'Invalid JWT token' }, 401);
+      }
+
+      const supabaseUser = createClient(supabaseUrl, supabaseAnonKey, {
+        global: { headers: { Authorization: `Bearer ${token}` } }
+      });
+      const { data: visibleDelivery } = await supabaseUser
+        .from('webhook_deliveries')
+        .select('id')
+        .eq('id', request.delivery_id)
+        .maybeSingle();
+      if (!visibleDelivery) {
+        return json({ success: false, message: 'Webhook delivery not found' }, 404);
+      }
+    }
+
+    const [delivery] = await claimDeliveries(supabaseService, request.delivery_id);
+    if (!delivery) {
+      return json({ success: false, message: 'Webhook delivery is not pending, or its endpoint is disabled' }, 409);
+    }
+
+    const outcome = await sendDelivery(delivery);
+    const status = await recordOutcome(supabaseService, delivery, outcome);
+
+    return json({
+      success: outcome.delivered,
+      message: outcome.delivered
+        ? `Delivered (HTTP ${outcome.responseStatus})`
+        : `Delivery failed: ${outcome.errorMessage}${status === 'pending' ? ' - it will be retried' : ''}`,
+      status,
+      response_status: outcome.responseStatus
+    });
+  } catch (error: unknown) {
+    console.error('❌ Deliver webhooks error:', error);
+    return json({
+      success: false,
+      message: `Internal server error: ${error instanceof Error ? error.message : 'Unknown error'}`
+    }, 500);
+  }
+});
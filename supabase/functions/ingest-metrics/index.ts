@@ -0,0 +1,224 @@
+// Ingest Metrics Edge Function
+// Accepts batches of metrics for one client from systems that can POST data
+// but don't keep a spreadsheet (CRMs, call trackers). Authenticated with a
+// client API key (create_client_api_key) sent as `Authorization: Bearer <key>`
+// or `x-api-key: <key>`; the key decides the client.
+//
+//   POST { "metrics": [{ "metric_name": "Calls", "date": "2025-10-01", "value": 42, "category"?: "ads" }] }
+//
+// Each row is validated on its own: valid rows are upserted into metrics
+// (data_source_type 'webhook') and the response lists the rejected ones by
+// index. Sending the same metric and date again updates its value.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.4';
+import { parseIsoDate } from '../_shared/dateParsing.ts';
+import { categorizeMetric, normalizeMetricName } from '../_shared/metricTypes.ts';
+
+interface IngestMetricsRequest {
+  metrics?: unknown;
+}
+
+interface ApiKey {
+  key_id: string;
+  client_id: string;
+  name: string;
+  scopes: string[];
+  user_id: string | null;
+}
+
+interface IngestedMetric {
+  date: string;
+  category: string;
+  metric_name: string;
+  metric_type: string;
+  value: number;
+}
+
+interface RowError {
+  index: number;
+  field?: string;
+  message: string;
+}
+
+const MAX_ROWS = 1000;
+// Values are stored as NUMERIC(15,2)
+const MAX_ABS_VALUE = 1e13;
+
+// JSON numbers, or numeric strings with an optional $, thousands separators
+// or trailing % ("12.5%" is 0.125). Stricter than the sheet parsers: a string
+// that isn't entirely a number is rejected rather than read up to the first
+// non-digit.
+function parseValue(value: unknown): number | null {
+  if (typeof value === 'number') return isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+
+  let text = value.trim().replace(/[$,\s]/g, '');
+  const isPercent = text.endsWith('%');
+  if (isPercent) text = text.slice(0, -1);
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(text)) return null;
+
+  const parsed = parseFloat(text);
+  return isPercent ? parsed / 100 : parsed;
+}
+
+function validateRow(row: unknown, index: number): { metric?: IngestedMetric; error?: RowError } {
+  if (!row || typeof row !== 'object' || Array.isArray(row)) {
+    return { error: { index, message: 'Row must be an object' } };
+  }
+  const input = row as Record<string, unknown>;
+
+  const rawName = typeof input.metric_name === 'string' ? input.metric_name : '';
+  const metricName = normalizeMetricName(rawName);
+  if (!metricName) {
+    return { error: { index, field: 'metric_name', message: 'metric_name is required' } };
+  }
+
+  const date = parseIsoDate(input.date);
+  if (!date) {
+    return { error: { index, field: 'date', message: 'date must be YYYY-MM-DD' } };
+  }
+
+  const value = parseValue(input.value);
+  if (value === null) {
+    return { error: { index, field: 'value', message: 'value must be a number' } };
+  }
+  if (Math.abs(value) >= MAX_ABS_VALUE) {
+    return { error: { index, field: 'value', message: 'value is too large' } };
+  }
+
+  let category = categorizeMetric(metricName);
+  if (input.category !== undefined && input.category !== null && input.category !== '') {
+    if (typeof input.category !== 'string' || !input.category.trim()) {
+      return { error: { index, field: 'category', message: 'category must be a string' } };
+    }
+    category = input.category.trim();
+  }
+
+  return { metric: { date, category, metric_name: metricName, metric_type: 'actual', value } };
+}
+
+function readApiKey(req: Request): string | null {
+  const headerKey = req.headers.get('x-api-key');
+  if (headerKey) return headerKey.trim();
+
+  const authHeader = req.headers.get('Authorization');
+  if (authHeader && authHeader.startsWith('Bearer ')) return authHeader.replace('Bearer ', '').trim();
+
+  return null;
+}
+
+Deno.serve(async (req) => {
+  const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-api-key, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS'
+  };
+
+  const json = (body: Record<string, unknown>, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return json({ success: false, message: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const apiKey = readApiKey(req);
+    if (!apiKey) {
+      return json({ success: false, message: 'Missing API key' }, 401);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
+
+    // 1. Resolve the key to its client
+    const { data: keyRows, error: keyError } = await supabaseService.rpc('authenticate_client_api_key', {
+      p_api_key: apiKey
+    });
+    if (keyError) {
+      throw new Error(`Could not check the API key: ${keyError.message}`);
+    }
+    const key = ((keyRows || []) as ApiKey[])[0];
+    if (!key) {
+      console.warn('⚠️ Rejected unknown or revoked API key:', apiKey.slice(0, 11));
+      return json({ success: false, message: 'Invalid or revoked API key' }, 401);
+    }
+    if (!key.scopes.includes('metrics:write')) {
+      return json({ success: false, message: 'This API key cannot write metrics' }, 403);
+    }
+    if (!key.user_id) {
+      return json({ success: false, message: 'The client has no owner to record metrics for' }, 409);
+    }
+
+    // 2. Validate each row
+    let request: IngestMetricsRequest;
+    try {
+      request = await req.json();
+    } catch {
+      return json({ success: false, message: 'Body must be JSON' }, 400);
+    }
+
+    const rows = request?.metrics;
+    if (!Array.isArray(rows) || rows.length === 0) {
+      return json({ success: false, message: 'Body must have a non-empty "metrics" array' }, 400);
+    }
+    if (rows.length > MAX_ROWS) {
+      return json({ success: false, message: `At most ${MAX_ROWS} metrics per request` }, 413);
+    }
+
+    const metrics: IngestedMetric[] = [];
+    const errors: RowError[] = [];
+    rows.forEach((row, index) => {
+      const result = validateRow(row, index);
+      if (result.metric) metrics.push(result.metric);
+      if (result.error) errors.push(result.error);
+    });
+
+    if (metrics.length === 0) {
+      return json({
+        success: false,
+        message: 'No valid metrics in the request',
+        accepted: 0,
+        rejected: errors.length,
+        errors
+      }, 400);
+    }
+
+    // 3. Upsert the valid rows
+    const { data: applied, error: ingestError } = await supabaseService.rpc('ingest_client_metrics', {
+      p_key_id: key.key_id,
+      p_rows: metrics
+    });
+    if (ingestError) {
+      throw new Error(ingestError.message || 'Failed to save metrics');
+    }
+
+    console.log(`📨 Ingested ${metrics.length} metrics for client ${key.client_id} with key "${key.name}":`, {
+      ...(applied as Record<string, number>),
+      rejected: errors.length
+    });
+
+    return json({
+      success: true,
+      message: errors.length > 0
+        ? `Saved ${metrics.length} metrics, rejected ${errors.length}`
+        : `Saved ${metrics.length} metrics`,
+      accepted: metrics.length,
+      rejected: errors.length,
+      ...(applied as Record<string, number>),
+      errors
+    });
+  } catch (error: unknown) {
+    console.error('❌ Ingest metrics error:', error);
+    return json({
+      success: false,
+      message: `Failed to ingest metrics: ${error instanceof Error ? error.message : 'Unknown error'}`
+    }, 500);
+  }
+});
@@ -0,0 +1,264 @@
+// Metrics API Edge Function
+// Read-only, versioned API for pulling a client's metrics. Authenticated with
+// a metrics API token (create_metrics_api_token) sent as
+// `Authorization: Bearer <token>`; a token only sees the clients it was minted
+// for, and only while its owner may still export their data.
+//
+//   GET /metrics-api/v1/clients
+//   GET /metrics-api/v1/clients/:clientId/metrics
+//       ?from=YYYY-MM-DD&to=YYYY-MM-DD
+//       &category=ads,growth&metric=leads,calls&sheet=Daily%20Metrics (repeatable)
+//       &granularity=day|week|month   (omit for one row per stored metric)
+//       &limit=500&offset=0            (limit at most 999)
+//
+// Aggregated rows carry sum, avg, min, max and count per period, metric,
+// category and metric_type; weeks start on Monday.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.4';
+import { parseIsoDate } from '../_shared/dateParsing.ts';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+type Granularity = 'day' | 'week' | 'month';
+
+interface ApiToken {
+  token_id: string;
+  user_id: string;
+  client_ids: string[];
+}
+
+interface MetricsQuery {
+  from: string | null;
+  to: string | null;
+  categories: string[] | null;
+  sheetNames: string[] | null;
+  metricNames: string[] | null;
+  granularity: Granularity | null;
+  limit: number;
+  offset: number;
+}
+
+const API_VERSION = 'v1';
+// A page reads limit + 1 rows, which must stay within PostgREST's max_rows
+// (1000, supabase/config.toml) or the extra row is silently cut and
+// next_offset comes back null
+const DEFAULT_LIMIT = 500;
+const MAX_LIMIT = 999;
+const GRANULARITIES: Granularity[] = ['day', 'week', 'month'];
+
+class ApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+function readDateParam(params: URLSearchParams, name: string): string | null {
+  const value = params.get(name);
+  if (!value) return null;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || !parseIsoDate(value)) {
+    throw new ApiError(400, `${name} must be YYYY-MM-DD`);
+  }
+  return value;
+}
+
+// Repeated and/or comma-separated values. Sheet names may contain commas, so
+// they are only taken repeated.
+function readListParam(params: URLSearchParams, name: string, splitCommas = true): string[] | null {
+  const values = params
+    .getAll(name)
+    .flatMap(value => (splitCommas ? value.split(',') : [value]))
+    .map(value => value.trim())
+    .filter(Boolean);
+  return values.length > 0 ? values : null;
+}
+
+function readIntParam(params: URLSearchParams, name: string, fallback: number, min: number, max: number): number {
+  const value = params.get(name);
+  if (value === null || value === '') return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+    throw new ApiError(400, `${name} must be a whole number from ${min} to ${max}`);
+  }
+  return parsed;
+}
+
+function parseMetricsQuery(params: URLSearchParams): MetricsQuery {
+  const granularity = params.get('granularity');
+  if (granularity && !GRANULARITIES.includes(granularity as Granularity)) {
+    throw new ApiError(400, 'granularity must be day, week or month');
+  }
+
+  const query: MetricsQuery = {
+    from: readDateParam(params, 'from'),
+    to: readDateParam(params, 'to'),
+    categories: readListParam(params, 'category'),
+    sheetNames: readListParam(params, 'sheet', false),
+    metricNames: readListParam(params, 'metric'),
+    granularity: (granularity as Granularity) || null,
+    limit: readIntParam(params, 'limit', DEFAULT_LIMIT, 1, MAX_LIMIT),
+    offset: readIntParam(params, 'offset', 0, 0, 10000000)
+  };
+
+  if (query.from && query.to && query.from > query.to) {
+    throw new ApiError(400, 'from must not be after to');
+  }
+  return query;
+}
+
+// One row more than the page is read to tell whether there is a next page
+async function listMetrics(
+  supabase: SupabaseClient,
+  clientId: string,
+  query: MetricsQuery
+): Promise<Record<string, unknown>[]> {
+  if (query.granularity) {
+    const { data, error } = await supabase.rpc('aggregate_client_metrics', {
+      p_client_id: clientId,
+      p_granularity: query.granularity,
+      p_from: query.from,
+      p_to: query.to,
+      p_categories: query.categories,
+      p_sheet_names: query.sheetNames,
+      p_metric_names: query.metricNames,
+      p_limit: query.limit + 1,
+      p_offset: query.offset
+    });
+    if (error) throw new Error(error.message);
+
+    return ((data || []) as Record<string, unknown>[]).map(row => ({
+      period_start: row.period_start,
+      metric_name: row.metric_name,
+      category: row.category,
+      metric_type: row.metric_type,
+      sum: Number(row.value_sum),
+      avg: Number(row.value_avg),
+      min: Number(row.value_min),
+      max: Number(row.value_max),
+      count: row.row_count
+    }));
+  }
+
+  let request = supabase
+    .from('metrics')
+    .select('date, metric_name, category, metric_type, value, currency, sheet_name, tab_name, data_source_type, updated_at')
+    .eq('client_id', clientId);
+  if (query.from) request = request.gte('date', query.from);
+  if (query.to) request = request.lte('date', query.to);
+  if (query.categories) request = request.in('category', query.categories);
+  if (query.sheetNames) request = request.in('sheet_name', query.sheetNames);
+  if (query.metricNames) request = request.in('metric_name', query.metricNames);
+
+  const { data, error } = await request
+    .order('date', { ascending: true })
+    .order('metric_name', { ascending: true })
+    .order('id', { ascending: true })
+    .range(query.offset, query.offset + query.limit);
+  if (error) throw new Error(error.message);
+
+  return ((data || []) as Record<string, unknown>[]).map(row => ({ ...row, value: Number(row.value) }));
+}
+
+Deno.serve(async (req) => {
+  const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Methods': 'GET, OPTIONS'
+  };
+
+  const json = (body: Record<string, unknown>, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'GET') {
+    return json({ success: false, message: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return json({ success: false, message: 'Missing or invalid Authorization header' }, 401);
+    }
+    const apiToken = authHeader.replace('Bearer ', '').trim();
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: tokenRows, error: tokenError } = await supabaseService.rpc('authenticate_metrics_api_token', {
+      p_api_token: apiToken
+    });
+    if (tokenError) {
+      throw new Error(`Could not check the API token: ${tokenError.message}`);
+    }
+    const token = ((tokenRows || []) as ApiToken[])[0];
+    if (!token) {
+      console.warn('⚠️ Rejected unknown, revoked or expired API token:', apiToken.slice(0, 11));
+      return json({ success: false, message: 'Invalid, revoked or expired API token' }, 401);
+    }
+
+    // Path after the function name: v1/clients[/:clientId/metrics]
+    const url = new URL(req.url);
+    const segments = url.pathname.split('/').filter(Boolean);
+    const route = segments.slice(segments.indexOf('metrics-api') + 1);
+
+    if (route[0] !== API_VERSION) {
+      return json({ success: false, message: `Unknown API version. Use /${API_VERSION}/...` }, 404);
+    }
+
+    // GET /v1/clients
+    if (route.length === 2 && route[1] === 'clients') {
+      const { data: clients, error } = await supabaseService
+        .from('clients')
+        .select('id, name')
+        .in('id', token.client_ids)
+        .order('name', { ascending: true });
+      if (error) throw new Error(error.message);
+
+      return json({ success: true, data: clients || [] });
+    }
+
+    // GET /v1/clients/:clientId/metrics
+    if (route.length === 4 && route[1] === 'clients' && route[3] === 'metrics') {
+      const clientId = route[2];
+      if (!token.client_ids.includes(clientId)) {
+        return json({ success: false, message: 'This token has no access to that client' }, 403);
+      }
+
+      const query = parseMetricsQuery(url.searchParams);
+      const rows = await listMetrics(supabaseService, clientId, query);
+      const hasMore = rows.length > query.limit;
+
+      console.log(`📤 Metrics API: ${Math.min(rows.length, query.limit)} rows for client ${clientId} (token ${token.token_id})`);
+
+      return json({
+        success: true,
+        data: rows.slice(0, query.limit),
+        meta: {
+          client_id: clientId,
+          granularity: query.granularity,
+          from: query.from,
+          to: query.to,
+          limit: query.limit,
+          offset: query.offset,
+          next_offset: hasMore ? query.offset + query.limit : null
+        }
+      });
+    }
+
+    return json({ success: false, message: 'Not found' }, 404);
+  } catch (error: unknown) {
+    if (error instanceof ApiError) {
+      return json({ success: false, message: error.message }, error.status);
+    }
+    console.error('❌ Metrics API error:', error);
+    return json({
+      success: false,
+      message: `Internal server error: ${error instanceof Error ? error.message : 'Unknown error'}`
+    }, 500);
+  }
+});
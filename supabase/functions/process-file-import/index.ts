@@ -0,0 +1,637 @@
+// Process File Import Edge Function
+// Parses a csv/xlsx file uploaded to the data-source-files bucket and stores it
+// as its data source's next upload version (store_data_source_upload). Runs in
+// the background: the request returns as soon as the job is claimed, progress
+// is written to the file_import_jobs row, and the import finishes even if the
+// browser that started it is closed.
+// Called with the service role key and no job_id, it picks up queued jobs that
+// were never started and processing jobs whose worker died.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.4';
+import * as XLSX from 'https://esm.sh/xlsx@0.18.5';
+import { SheetDateParser, type DateFormat } from '../_shared/dateParsing.ts';
+import { categorizeMetric, detectMetricType, normalizeMetricName } from '../_shared/metricTypes.ts';
+
+// Keeps the worker alive after the response is sent (Supabase Edge Runtime)
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+interface ProcessFileImportRequest {
+  job_id?: string;
+}
+
+interface FileImportJob {
+  id: string;
+  data_source_id: string;
+  client_id: string;
+  storage_path: string;
+  file_name: string;
+  file_size: number | null;
+  status: 'queued' | 'processing' | 'completed' | 'failed';
+  attempts: number;
+  created_by: string | null;
+}
+
+// Subset of DataSourceConfig (src/types/dataSource.ts) used to read a file
+interface FileSourceConfig {
+  sheet_name?: string;
+  range?: string;
+  named_range?: string;
+  header_row?: number;
+  date_column?: string;
+  date_format?: DateFormat;
+  ignored_columns?: string[];
+  orientation?: 'dates_as_rows' | 'dates_as_columns';
+  column_mappings?: Record<string, ColumnMapping>;
+  delimiter?: string;
+  encoding?: string;
+  has_headers?: boolean;
+}
+
+interface ColumnMapping {
+  ignore?: boolean;
+  metric_name?: string;
+  metric_type?: 'currency' | 'percentage' | 'number';
+  category?: string;
+}
+
+interface FileDataSource {
+  id: string;
+  name: string;
+  source_type: 'google_sheets' | 'csv' | 'xlsx';
+  source_config: FileSourceConfig;
+}
+
+// One entry of data_source_uploads.metrics
+interface UploadedMetric {
+  date: string;
+  category: string;
+  metric_name: string;
+  metric_type: string;
+  value: number;
+}
+
+// A skipped row or date column, stored on the job result like sync run warnings
+interface ImportWarning {
+  row: number;
+  column?: string;
+  type: 'missing_date' | 'unparseable_date';
+  value?: string;
+  message: string;
+}
+
+interface JobProgress {
+  status?: FileImportJob['status'];
+  stage?: 'downloading' | 'parsing' | 'transforming' | 'saving' | null;
+  progress?: number;
+  rows_total?: number;
+  rows_processed?: number;
+  result?: Record<string, unknown>;
+  error_message?: string;
+  finished_at?: string;
+}
+
+const BUCKET = 'data-source-files';
+// Rows transformed between progress updates
+const PROGRESS_CHUNK_ROWS = 2000;
+// A processing job without a progress update for this long is assumed dead
+const STALE_JOB_MINUTES = 15;
+// A queued job the browser hasn't started within this long is started by the sweep
+const ORPHANED_JOB_MINUTES = 2;
+const MAX_ATTEMPTS = 3;
+const SWEEP_LIMIT = 5;
+// Warnings kept on the job result; warning_count has the total
+const MAX_STORED_WARNINGS = 500;
+
+// ===== Parsing =====
+// Mirrors src/lib/csvParser.ts and src/lib/excelParser.ts, so a file stores
+// the same metrics whether it was parsed here or in the browser (and
+// re-importing it is recognized as unchanged) - keep them in step.
+
+function parseCsv(bytes: Uint8Array, config: FileSourceConfig): string[][] {
+  let text: string;
+  try {
+    // TextDecoder drops a leading byte order mark by default
+    text = new TextDecoder(config.encoding || 'utf-8').decode(bytes);
+  } catch {
+    throw new Error(`Unsupported encoding "${config.encoding}"`);
+  }
+
+  const delimiter = !config.delimiter
+    ? ','
+    : config.delimiter === '\\t' || config.delimiter.toLowerCase() === 'tab' ? '\t' : config.delimiter;
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i += 2;
+          continue;
+        }
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      i++;
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (text.startsWith(delimiter, i)) {
+      row.push(field);
+      field = '';
+      i += delimiter.length;
+      continue;
+    } else if (char === '\n' || char === '\r') {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+      if (char === '\r' && text[i + 1] === '\n') i++;
+    } else {
+      field += char;
+    }
+    i++;
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const nonEmpty = rows.filter(r => !(r.length === 1 && r[0].trim() === ''));
+  if (nonEmpty.length === 0) {
+    throw new Error('CSV file is empty');
+  }
+
+  if (config.has_headers === false) {
+    const width = Math.max(...nonEmpty.map(r => r.length));
+    nonEmpty.unshift(Array.from({ length: width }, (_, index) => `Column ${index + 1}`));
+  }
+
+  return nonEmpty;
+}
+
+// One worksheet (config.sheet_name, or the first) honoring a named or A1 range
+function parseWorkbook(bytes: Uint8Array, config: FileSourceConfig): unknown[][] {
+  const workbook = XLSX.read(bytes, { type: 'array' });
+  if (workbook.SheetNames.length === 0) {
+    throw new Error('No sheets found in Excel file');
+  }
+
+  let sheetName = config.sheet_name || workbook.SheetNames[0];
+  let range = config.range;
+
+  if (config.named_range) {
+    const definedName = workbook.Workbook?.Names?.find(
+      (name: { Name: string; Ref: string }) => name.Name.toLowerCase() === config.named_range!.toLowerCase()
+    );
+    if (!definedName) {
+      throw new Error(`Named range "${config.named_range}" not found`);
+    }
+    // Ref looks like 'Sheet 1'!$A$1:$D$20
+    const [refSheet, refRange] = definedName.Ref.split('!');
+    sheetName = refSheet.replace(/^'|'$/g, '');
+    range = refRange.replace(/\$/g, '');
+  }
+
+  const worksheet = workbook.Sheets[sheetName];
+  if (!worksheet) {
+    throw new Error(`Sheet "${sheetName}" not found`);
+  }
+
+  return XLSX.utils.sheet_to_json(worksheet, {
+    header: 1,
+    defval: '',
+    raw: false,
+    dateNF: 'yyyy-mm-dd', // Real date cells come out as ISO regardless of their display format
+    ...(range && { range: resolveRange(worksheet, range) }),
+  }) as unknown[][];
+}
+
+// Column-only ranges like "A:BZ" are bounded by the sheet's used rows
+function resolveRange(worksheet: XLSX.WorkSheet, range: string): string {
+  const used = XLSX.utils.decode_range(worksheet['!ref'] || 'A1');
+  const match = range.trim().match(/^([A-Z]+)(\d*):([A-Z]+)(\d*)$/i);
+  if (!match) return range;
+
+  const [, startCol, startRow, endCol, endRow] = match;
+  return `${startCol}${startRow || used.s.r + 1}:${endCol}${endRow || used.e.r + 1}`;
+}
+
+function parseValue(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value === 'number') return isNaN(value) ? null : value;
+  if (typeof value !== 'string') return null;
+
+  const trimmed = value.trim();
+  if (trimmed === '') return null;
+
+  const parsed = parseFloat(trimmed);
+  if (!isNaN(parsed)) return parsed;
+
+  if (trimmed.endsWith('%')) {
+    const percentValue = parseFloat(trimmed.replace('%', ''));
+    return isNaN(percentValue) ? null : percentValue / 100;
+  }
+
+  const currencyParsed = parseFloat(trimmed.replace(/[$,\s]/g, ''));
+  return isNaN(currencyParsed) ? null : currencyParsed;
+}
+
+/**
+ * Raw rows to metrics, reporting the number of data rows done every
+ * PROGRESS_CHUNK_ROWS rows. Rows and date columns without a usable date are
+ * skipped and reported as warnings - never dated today.
+ */
+async function transformRows(
+  rows: unknown[][],
+  config: FileSourceConfig,
+  onProgress: (rowsProcessed: number) => Promise<void>
+): Promise<{ metrics: UploadedMetric[]; warnings: ImportWarning[] }> {
+  const headerRowIndex = Math.max(1, config.header_row || 1) - 1;
+  const warnings: ImportWarning[] = [];
+  if (rows.length < headerRowIndex + 2) return { metrics: [], warnings };
+
+  const headers = (rows[headerRowIndex] || []).map(header => String(header ?? '').trim());
+  const dataRows = rows.slice(headerRowIndex + 1);
+  const ignored = new Set((config.ignored_columns || []).map(column => column.trim().toLowerCase()));
+  const mappings = new Map(
+    Object.entries(config.column_mappings || {}).map(([key, mapping]) => [key.trim().toLowerCase(), mapping])
+  );
+  mappings.forEach((mapping, key) => {
+    if (mapping.ignore) ignored.add(key);
+  });
+
+  const metrics: UploadedMetric[] = [];
+  const addMetric = (label: string, cellValue: unknown, date: string) => {
+    if (!cellValue || cellValue === '') return;
+    const value = parseValue(cellValue);
+    if (value === null) return;
+
+    // An unmapped type is guessed as in the Google Sheets sync
+    const mapping = mappings.get(label.toLowerCase());
+    const metricName = mapping?.metric_name || normalizeMetricName(label);
+    metrics.push({
+      date,
+      category: mapping?.category || categorizeMetric(metricName),
+      metric_name: metricName,
+      metric_type: mapping?.metric_type || detectMetricType(String(cellValue), label),
+      value,
+    });
+  };
+
+  // Rows are numbered as in the file (within the range), header row first
+  const eachRow = async (handle: (row: unknown[], fileRow: number) => void) => {
+    for (const [index, row] of dataRows.entries()) {
+      const isBlank = !row || row.every(cell => cell === null || cell === undefined || String(cell).trim() === '');
+      if (!isBlank) handle(row, headerRowIndex + index + 2);
+      if ((index + 1) % PROGRESS_CHUNK_ROWS === 0) await onProgress(index + 1);
+    }
+    await onProgress(dataRows.length);
+  };
+
+  if (config.orientation === 'dates_as_columns') {
+    const dateParser = SheetDateParser.forColumn(headers.slice(1), config.date_format);
+    const dateColumns: Array<{ index: number; date: string }> = [];
+    headers.forEach((header, index) => {
+      if (index === 0 || !header || ignored.has(header.toLowerCase())) return;
+      const date = dateParser.parse(header);
+      if (date) {
+        dateColumns.push({ index, date });
+        return;
+      }
+      warnings.push({
+        row: headerRowIndex + 1,
+        column: header,
+        type: 'unparseable_date',
+        value: header,
+        message: `Could not parse column header "${header}" as ${dateParser.format}, column skipped`
+      });
+    });
+
+    await eachRow(row => {
+      const label = String(row[0] ?? '').trim();
+      if (!label || ignored.has(label.toLowerCase())) return;
+      dateColumns.forEach(({ index, date }) => addMetric(label, row[index], date));
+    });
+    return { metrics, warnings };
+  }
+
+  const dateColumn = config.date_column || 'Date';
+  const dateIndex = headers.findIndex(header => header.toLowerCase() === dateColumn.trim().toLowerCase());
+  if (dateIndex === -1) {
+    throw new Error(`Date column "${dateColumn}" not found in headers: ${headers.filter(Boolean).join(', ')}`);
+  }
+
+  const dateParser = SheetDateParser.forColumn(dataRows.map(row => row?.[dateIndex]), config.date_format);
+
+  await eachRow((row, fileRow) => {
+    const rawDate = row[dateIndex];
+    const hasDate = rawDate !== null && rawDate !== undefined && String(rawDate).trim() !== '';
+    const date = hasDate ? dateParser.parse(rawDate) : null;
+    if (!date) {
+      warnings.push({
+        row: fileRow,
+        column: headers[dateIndex],
+        type: hasDate ? 'unparseable_date' : 'missing_date',
+        value: hasDate ? String(rawDate) : undefined,
+        message: hasDate
+          ? `Could not parse date "${rawDate}" as ${dateParser.format}, row skipped`
+          : 'Row has no date, row skipped'
+      });
+      return;
+    }
+
+    headers.forEach((header, index) => {
+      if (!header || index >= row.length) return;
+      if (index === dateIndex || ignored.has(header.toLowerCase())) return;
+      addMetric(header, row[index], date);
+    });
+  });
+  return { metrics, warnings };
+}
+
+async function sha256Hex(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// ===== Jobs =====
+
+// Marks the job processing unless another worker got there first
+async function claimJob(supabase: SupabaseClient, job: FileImportJob): Promise<FileImportJob | null> {
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('file_import_jobs')
+    .update({
+      status: 'processing',
+      attempts: job.attempts + 1,
+      started_at: now,
+      heartbeat_at: now,
+      error_message: null
+    })
+    .eq('id', job.id)
+    .eq('status', job.status)
+    .eq('attempts', job.attempts)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error('❌ Could not claim import job:', job.id, error);
+    return null;
+  }
+  return data as FileImportJob | null;
+}
+
+async function runJob(supabase: SupabaseClient, job: FileImportJob): Promise<void> {
+  // Progress is best-effort: a failed update never fails the import itself
+  const report = async (progress: JobProgress) => {
+    const { error } = await supabase
+      .from('file_import_jobs')
+      .update({ ...progress, heartbeat_at: new Date().toISOString() })
+      .eq('id', job.id);
+    if (error) console.warn('⚠️ Could not update import job progress:', error);
+  };
+
+  try {
+    console.log(`📥 Importing ${job.file_name} into data source ${job.data_source_id} (job ${job.id})`);
+    await report({ stage: 'downloading', progress: 5 });
+
+    const { data: source, error: sourceError } = await supabase
+      .from('data_sources')
+      .select('id, name, source_type, source_config')
+      .eq('id', job.data_source_id)
+      .single();
+    if (sourceError || !source) {
+      throw new Error('Data source not found');
+    }
+    const dataSource = source as FileDataSource;
+    if (dataSource.source_type !== 'csv' && dataSource.source_type !== 'xlsx') {
+      throw new Error(`${dataSource.source_type} data sources don't accept file uploads`);
+    }
+
+    const { data: file, error: downloadError } = await supabase.storage.from(BUCKET).download(job.storage_path);
+    if (downloadError || !file) {
+      throw new Error(`Could not download ${job.file_name}: ${downloadError?.message || 'file not found'}`);
+    }
+    const bytes = new Uint8Array(await file.arrayBuffer());
+
+    await report({ stage: 'parsing', progress: 15 });
+    const config = dataSource.source_config || {};
+    const rows = dataSource.source_type === 'csv' ? parseCsv(bytes, config) : parseWorkbook(bytes, config);
+
+    const headerRowIndex = Math.max(1, config.header_row || 1) - 1;
+    const rowCount = Math.max(0, rows.length - headerRowIndex - 1);
+    await report({ stage: 'transforming', progress: 20, rows_total: rowCount, rows_processed: 0 });
+
+    const { metrics, warnings } = await transformRows(rows, config, rowsProcessed =>
+      report({
+        rows_processed: rowsProcessed,
+        progress: 20 + Math.round((60 * rowsProcessed) / Math.max(1, rowCount))
+      })
+    );
+    if (metrics.length === 0) {
+      const skipped = warnings.length > 0 ? ` ${warnings.length} rows or columns were skipped for their dates.` : '';
+      throw new Error(`No metrics found in the file. Check the header row, date column and delimiter.${skipped}`);
+    }
+    if (warnings.length > 0) {
+      console.warn(`⚠️ Import job ${job.id}: ${warnings.length} rows or columns skipped for their dates`);
+    }
+
+    await report({ stage: 'saving', progress: 85 });
+    const columns = (rows[headerRowIndex] || []).map(header => String(header ?? '').trim()).filter(Boolean);
+    const { data, error } = await supabase.rpc('store_data_source_upload', {
+      p_data_source_id: dataSource.id,
+      p_uploaded_by: job.created_by,
+      p_file_name: job.file_name,
+      p_file_size: job.file_size ?? bytes.length,
+      p_content_hash: await sha256Hex(bytes),
+      p_row_count: rowCount,
+      p_columns: columns,
+      p_metrics: metrics
+    });
+    if (error) {
+      throw new Error(error.message || 'Failed to store the upload');
+    }
+
+    const result = {
+      ...((Array.isArray(data) ? data[0] : data) as Record<string, unknown>),
+      warning_count: warnings.length,
+      warnings: warnings.slice(0, MAX_STORED_WARNINGS)
+    };
+    await report({
+      status: 'completed',
+      stage: null,
+      progress: 100,
+      result,
+      finished_at: new Date().toISOString()
+    });
+    console.log(`✅ Import job ${job.id} completed:`, result);
+  } catch (error: unknown) {
+    console.error(`❌ Import job ${job.id} failed:`, error);
+    await report({
+      status: 'failed',
+      stage: null,
+      error_message: error instanceof Error ? error.message : 'Unknown error',
+      finished_at: new Date().toISOString()
+    });
+  }
+}
+
+// Queued jobs nobody started, and processing jobs that stopped reporting.
+// Jobs out of attempts are failed instead of retried.
+async function sweepJobs(supabase: SupabaseClient): Promise<{ started: number; failed: number }> {
+  const orphanedBefore = new Date(Date.now() - ORPHANED_JOB_MINUTES * 60000).toISOString();
+  const staleBefore = new Date(Date.now() - STALE_JOB_MINUTES * 60000).toISOString();
+
+  const { data, error } = await supabase
+    .from('file_import_jobs')
+    .select('id, data_source_id, client_id, storage_path, file_name, file_size, status, attempts, created_by')
+    .or(`and(status.eq.queued,created_at.lt.${orphanedBefore}),and(status.eq.processing,heartbeat_at.lt.${staleBefore})`)
+    .order('created_at', { ascending: true })
+    .limit(SWEEP_LIMIT);
+
+  if (error) {
+    throw new Error(`Failed to load pending import jobs: ${error.message}`);
+  }
+
+  let started = 0;
+  let failed = 0;
+  for (const job of (data || []) as FileImportJob[]) {
+    if (job.attempts >= MAX_ATTEMPTS) {
+      await supabase
+        .from('file_import_jobs')
+        .update({
+          status: 'failed',
+          stage: null,
+          error_message: `Import stopped responding after ${job.attempts} attempts`,
+          finished_at: new Date().toISOString()
+        })
+        .eq('id', job.id)
+        .eq('status', job.status);
+      failed++;
+      continue;
+    }
+
+    const claimed = await claimJob(supabase, job);
+    if (!claimed) continue;
+    await runJob(supabase, claimed);
+    started++;
+  }
+
+  return { started, failed };
+}
+
+Deno.serve(async (req) => {
+  const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS'
+  };
+
+  const json = (body: Record<string, unknown>, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const request: ProcessFileImportRequest = await req.json().catch(() => ({}));
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return json({ success: false, message: 'Missing or invalid Authorization header' }, 401);
+    }
+    const token = authHeader.replace('Bearer ', '');
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Service role without a job: sweep orphaned and stale jobs
+    if (token === supabaseServiceKey && !request.job_id) {
+      const { started, failed } = await sweepJobs(supabaseService);
+      console.log(`🧹 Import sweep: ${started} jobs run, ${failed} failed after too many attempts`);
+      return json({ success: true, message: `Ran ${started} pending import jobs (${failed} failed)`, started, failed });
+    }
+
+    if (!request.job_id) {
+      return json({ success: false, message: 'Missing required parameter: job_id' }, 400);
+    }
+
+    // The job must be visible to the caller (file_import_jobs RLS), which
+    // create_file_import_job already required to queue it
+    if (token !== supabaseServiceKey) {
+      const supabase = createClient(supabaseUrl, supabaseAnonKey);
+      const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+      if (authError || !user) {
+        console.error('❌ JWT validation failed:', authError);
+        return json({ success: false, message: 'Invalid JWT token' }, 401);
+      }
+
+      const supabaseUser = createClient(supabaseUrl, supabaseAnonKey, {
+        global: { headers: { Authorization: `Bearer ${token}` } }
+      });
+      const { data: visibleJob } = await supabaseUser
+        .from('file_import_jobs')
+        .select('id')
+        .eq('id', request.job_id)
+        .maybeSingle();
+      if (!visibleJob) {
+        return json({ success: false, message: 'Import job not found' }, 404);
+      }
+    }
+
+    const { data: jobRow, error: jobError } = await supabaseService
+      .from('file_import_jobs')
+      .select('id, data_source_id, client_id, storage_path, file_name, file_size, status, attempts, created_by')
+      .eq('id', request.job_id)
+      .single();
+    if (jobError || !jobRow) {
+      return json({ success: false, message: 'Import job not found' }, 404);
+    }
+
+    const job = jobRow as FileImportJob;
+    if (job.status !== 'queued') {
+      return json({ success: false, message: `Import job is already ${job.status}`, status: job.status }, 409);
+    }
+
+    const claimed = await claimJob(supabaseService, job);
+    if (!claimed) {
+      return json({ success: false, message: 'Import job was started by another worker' }, 409);
+    }
+
+    const work = runJob(supabaseService, claimed);
+    if (typeof EdgeRuntime !== 'undefined') {
+      EdgeRuntime.waitUntil(work);
+    } else {
+      await work;
+    }
+
+    return json({ success: true, message: 'Import started', job_id: job.id }, 202);
+  } catch (error: unknown) {
+    console.error('Process file import error:', error);
+    return json({
+      success: false,
+      message: `Internal server error: ${error instanceof Error ? error.message : 'Unknown error'}`
+    }, 500);
+  }
+});
@@ -0,0 +1,231 @@
+// Sync Scheduler Edge Function
+// Finds auto-sync data sources (Google Sheets tabs and published CSV links) that
+// are due (per source_config.sync_frequency) and runs google-metric-sync-enhanced
+// once per spreadsheet (all its due tabs in one batch call), a few spreadsheets
+// at a time.
+// Invoked on a cron with the service role key (see the data_sources migration).
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.4';
+
+interface DueDataSource {
+  data_source_id: string;
+  client_id: string;
+  user_id: string;
+  google_sheet_id: string;
+  sheet_name: string;
+  sync_frequency: string;
+  last_sync_at: string | null;
+}
+
+interface SchedulerRequest {
+  max_concurrency?: number;
+  limit?: number;
+}
+
+interface ScheduledSyncResult {
+  data_source_id: string;
+  client_id: string;
+  sheet_name: string;
+  success: boolean;
+  message: string;
+  metricsProcessed: number;
+  // The spreadsheet hadn't changed since the tab's last sync
+  skippedUnchanged?: boolean;
+}
+
+// Due tabs of one spreadsheet, synced together
+interface SpreadsheetBatch {
+  client_id: string;
+  user_id: string;
+  google_sheet_id: string;
+  sources: DueDataSource[];
+}
+
+const DEFAULT_CONCURRENCY = 3;
+const DEFAULT_LIMIT = 50;
+
+function groupBySpreadsheet(sources: DueDataSource[]): SpreadsheetBatch[] {
+  const batches = new Map<string, SpreadsheetBatch>();
+  for (const source of sources) {
+    const key = `${source.client_id}:${source.user_id}:${source.google_sheet_id}`;
+    const batch = batches.get(key) || {
+      client_id: source.client_id,
+      user_id: source.user_id,
+      google_sheet_id: source.google_sheet_id,
+      sources: []
+    };
+    batch.sources.push(source);
+    batches.set(key, batch);
+  }
+  return [...batches.values()];
+}
+
+async function runScheduledSync(
+  batch: SpreadsheetBatch,
+  syncUrl: string,
+  serviceKey: string
+): Promise<ScheduledSyncResult[]> {
+  const failAll = (message: string) =>
+    batch.sources.map(source => ({
+      data_source_id: source.data_source_id,
+      client_id: source.client_id,
+      sheet_name: source.sheet_name,
+      success: false,
+      message,
+      metricsProcessed: 0
+    }));
+
+  try {
+    const response = await fetch(syncUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${serviceKey}`
+      },
+      body: JSON.stringify({
+        user_id: batch.user_id,
+        client_id: batch.client_id,
+        google_sheet_id: batch.google_sheet_id,
+        sheet_names: batch.sources.map(source => source.sheet_name),
+        sync_type: 'admin',
+        triggered_by: 'scheduler'
+      })
+    });
+
+    const result = await response.json().catch(() => null);
+
+    if (!response.ok || !result) {
+      return failAll(result?.message || `HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const tabs: Array<{
+      tab_name: string;
+      success: boolean;
+      message: string;
+      metricsProcessed?: number;
+      skippedUnchanged?: boolean;
+    }> = result.tabs || [];
+
+    return batch.sources.map(source => {
+      const tab = tabs.find(t => t.tab_name === source.sheet_name);
+      return {
+        data_source_id: source.data_source_id,
+        client_id: source.client_id,
+        sheet_name: source.sheet_name,
+        success: !!tab?.success,
+        message: tab?.message || result.message,
+        metricsProcessed: tab?.metricsProcessed || 0,
+        skippedUnchanged: !!tab?.skippedUnchanged
+      };
+    });
+  } catch (error: unknown) {
+    return failAll(error instanceof Error ? error.message : 'Unknown error');
+  }
+}
+
+// Runs tasks with at most `limit` in flight, preserving input order in the results
+async function runWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const lanes = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index]);
+    }
+  });
+
+  await Promise.all(lanes);
+  return results;
+}
+
+Deno.serve(async (req) => {
+  const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS'
+  };
+
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    // Only the cron job (service role) may trigger scheduled syncs
+    const authHeader = req.headers.get('Authorization');
+    if (authHeader !== `Bearer ${supabaseServiceKey}`) {
+      console.error('❌ Scheduler called without service role key');
+      return new Response(
+        JSON.stringify({ success: false, message: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const body: SchedulerRequest = await req.json().catch(() => ({}));
+    const maxConcurrency = Math.max(
+      1,
+      body.max_concurrency ||
+        parseInt(Deno.env.get('SYNC_SCHEDULER_CONCURRENCY') || '', 10) ||
+        DEFAULT_CONCURRENCY
+    );
+    const limit = body.limit || DEFAULT_LIMIT;
+
+    const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: dueSources, error: dueError } = await supabaseService.rpc(
+      'get_due_data_sources',
+      { p_limit: limit }
+    );
+
+    if (dueError) {
+      console.error('❌ Error loading due data sources:', dueError);
+      throw new Error(`Failed to load due data sources: ${dueError.message}`);
+    }
+
+    const sources = (dueSources || []) as DueDataSource[];
+    console.log(`🕒 ${sources.length} data sources due for sync (concurrency ${maxConcurrency} spreadsheets)`);
+
+    if (sources.length === 0) {
+      return new Response(
+        JSON.stringify({ success: true, message: 'No data sources due for sync', results: [] }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const syncUrl = `${supabaseUrl}/functions/v1/google-metric-sync-enhanced`;
+    const batches = groupBySpreadsheet(sources);
+    const batchResults = await runWithConcurrency(batches, maxConcurrency, (batch) =>
+      runScheduledSync(batch, syncUrl, supabaseServiceKey)
+    );
+    const results = batchResults.flat();
+
+    const succeeded = results.filter(r => r.success).length;
+    const failed = results.length - succeeded;
+    const skipped = results.filter(r => r.skippedUnchanged).length;
+    console.log(`✅ Scheduled sync finished: ${succeeded} succeeded (${skipped} skipped, unchanged), ${failed} failed`);
+
+    return new Response(
+      JSON.stringify({
+        success: failed === 0,
+        message: `Synced ${succeeded - skipped} of ${results.length} due data sources (${skipped} skipped, unchanged)`,
+        results
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    console.error('Sync scheduler error:', error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        message: `Internal server error: ${error instanceof Error ? error.message : 'Unknown error'}`
+      }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,503 @@
+// Write Metric Edge Function
+// Corrects a single metric value: writes it into the matching cell of the
+// client's Google Sheet tab, then updates the synced metrics row.
+// See docs/future-features/write-metrics.md.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.4';
+import { SheetDateParser, type DateFormat } from '../_shared/dateParsing.ts';
+import {
+  fetchGoogleApi,
+  GoogleAccessTokens,
+  GoogleApiError,
+  resolveGoogleCredentialsId
+} from '../_shared/googleApi.ts';
+
+interface WriteMetricRequest {
+  user_id: string;
+  client_id: string;
+  google_sheet_id: string;
+  sheet_name: string;
+  tab_name: string;
+  metric_name: string;
+  value: number;
+  date: string; // YYYY-MM-DD
+  category: string;
+  metric_type: 'currency' | 'percentage' | 'number';
+  // Overwrite the cell even if it changed in the sheet since the last sync
+  force?: boolean;
+}
+
+// Subset of DataSourceConfig (src/types/dataSource.ts) needed to locate a cell
+interface SheetLayout {
+  range?: string;
+  named_range?: string;
+  header_row?: number;
+  date_column?: string;
+  date_format?: DateFormat;
+  ignored_columns?: string[];
+  orientation?: 'dates_as_rows' | 'dates_as_columns';
+  column_mappings?: Record<string, ColumnMapping>;
+}
+
+// The parts of a column mapping that decide which metric a label is stored as
+interface ColumnMapping {
+  ignore?: boolean;
+  metric_name?: string;
+}
+
+// Where the metric lives in the sheet. `cell` is null when the date has no
+// row yet (dates-as-rows layout only) and a new row has to be appended.
+interface CellLocation {
+  cell: string | null;
+  currentValue: string;
+  append?: { range: string; row: string[]; valueIndex: number };
+}
+
+interface MetricRow {
+  id: string;
+  value: number;
+}
+
+// Values are stored as NUMERIC(15,2), so compare at cent precision
+const VALUE_TOLERANCE = 0.005;
+
+// Writing needs the read/write Sheets scope (the sync only reads)
+const GOOGLE_SHEETS_SCOPE = Deno.env.get('GOOGLE_SHEETS_SCOPE') || 'https://www.googleapis.com/auth/spreadsheets';
+
+// Same rules as EnhancedDataTransformer.parseValue in the sync function
+function parseSheetValue(value: string): number | null {
+  let text = String(value ?? '').trim();
+  if (!text || text === '-') return null;
+  if (text.startsWith('(') && text.endsWith(')')) {
+    text = '-' + text.slice(1, -1);
+  }
+  const parsed = parseFloat(text.replace(/[$€£,%]/g, ''));
+  return isNaN(parsed) ? null : parsed;
+}
+
+// 0 -> A, 25 -> Z, 26 -> AA
+function columnLetter(index: number): string {
+  let letters = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+function columnIndex(letters: string): number {
+  return letters.toUpperCase().split('').reduce((total, char) => total * 26 + char.charCodeAt(0) - 64, 0) - 1;
+}
+
+function quoteSheetName(sheetName: string): string {
+  return `'${sheetName.replace(/'/g, "''")}'`;
+}
+
+// Index of the label (header, or row label for dates_as_columns) the sync
+// stores as metricName: column mappings can rename a label or ignore it
+function findMetricLabel(labels: string[], metricName: string, layout: SheetLayout): number {
+  const mappings = new Map(
+    Object.entries(layout.column_mappings || {}).map(([key, mapping]) => [key.trim().toLowerCase(), mapping])
+  );
+  // ignored_columns name columns, so they don't apply to transposed sheets
+  const ignored = new Set(
+    layout.orientation === 'dates_as_columns' ? [] : (layout.ignored_columns || []).map(c => c.trim().toLowerCase())
+  );
+  const target = metricName.trim().toLowerCase();
+
+  return labels.findIndex(label => {
+    const key = label.trim().toLowerCase();
+    const mapping = mappings.get(key);
+    if (!key || mapping?.ignore || ignored.has(key)) return false;
+    return (mapping?.metric_name || label).trim().toLowerCase() === target;
+  });
+}
+
+class GoogleSheetsWriter {
+  private accessToken: string;
+  private credentialsId: string | null;
+
+  // credentialsId: the google_credentials row the token was minted for (null = global account)
+  constructor(accessToken: string, credentialsId: string | null = null) {
+    this.accessToken = accessToken;
+    this.credentialsId = credentialsId;
+  }
+
+  // A writer for the service account the sync uses for this client/spreadsheet
+  // (client credentials first, then the global one)
+  static async connect(
+    supabaseService: ReturnType<typeof createClient>,
+    clientId: string,
+    spreadsheetId: string
+  ): Promise<GoogleSheetsWriter> {
+    const credentialsId = await resolveGoogleCredentialsId(supabaseService, clientId, null, spreadsheetId);
+    const accessToken = await GoogleAccessTokens.get(credentialsId, GOOGLE_SHEETS_SCOPE);
+    return new GoogleSheetsWriter(accessToken, credentialsId);
+  }
+
+  // Finds the cell for (metric, date) using the same layout rules as the sync
+  async locateCell(
+    spreadsheetId: string,
+    sheetName: string,
+    layout: SheetLayout,
+    metricName: string,
+    date: string
+  ): Promise<CellLocation> {
+    const range = layout.range || 'A:AZ';
+    const rangeRef = layout.named_range
+      ? layout.named_range
+      : range.includes('!') ? range : `${quoteSheetName(sheetName)}!${range}`;
+
+    const response = await this.fetchSheetsApi(
+      `https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}/values/${encodeURIComponent(rangeRef)}`,
+      {},
+      'Google Sheets API'
+    );
+
+    const data = await response.json();
+    const rows: string[][] = data.values || [];
+    const headerRow = Math.max(1, layout.header_row || 1);
+
+    if (rows.length < headerRow) {
+      throw new Error(`Sheet has no header row (row ${headerRow} of the range)`);
+    }
+
+    // The API echoes the resolved range (e.g. "'Tab'!B5:Z100"): tab, first column and row
+    const resolved = String(data.range || '').match(/^(.*)!\$?([A-Z]+)\$?(\d+)/i);
+    const tabRef = resolved ? resolved[1] : quoteSheetName(sheetName);
+    const startColumn = resolved ? columnIndex(resolved[2]) : 0;
+    const startRow = resolved ? parseInt(resolved[3], 10) : 1;
+
+    const headers = rows[headerRow - 1].map(header => String(header ?? '').trim());
+    const dataRows = rows.slice(headerRow);
+    const firstDataRow = startRow + headerRow;
+    const cellAt = (rowIndex: number, colIndex: number) =>
+      `${tabRef}!${columnLetter(startColumn + colIndex)}${firstDataRow + rowIndex}`;
+
+    if (layout.orientation === 'dates_as_columns') {
+      const dateParser = SheetDateParser.forColumn(headers.slice(1), layout.date_format);
+      const colIndex = headers.findIndex((header, index) => index > 0 && dateParser.parse(header) === date);
+      const rowIndex = findMetricLabel(dataRows.map(row => String(row[0] ?? '')), metricName, layout);
+
+      if (colIndex === -1) throw new Error(`No column for ${date} in the header row`);
+      if (rowIndex === -1) throw new Error(`Metric "${metricName}" not found in the first column`);
+
+      return {
+        cell: cellAt(rowIndex, colIndex),
+        currentValue: String(dataRows[rowIndex][colIndex] ?? '')
+      };
+    }
+
+    const dateColumnName = (layout.date_column || 'Date').trim().toLowerCase();
+    const dateIndex = headers.findIndex(header => header.toLowerCase() === dateColumnName);
+    const metricIndex = findMetricLabel(headers, metricName, layout);
+
+    if (dateIndex === -1) throw new Error(`Date column "${layout.date_column || 'Date'}" not found`);
+    if (metricIndex === -1) throw new Error(`Column "${metricName}" not found in the header row`);
+
+    const dateParser = SheetDateParser.forColumn(dataRows.map(row => row[dateIndex]), layout.date_format);
+    const rowIndex = dataRows.findIndex(row => dateParser.parse(row[dateIndex]) === date);
+
+    if (rowIndex === -1) {
+      const row = new Array(Math.max(dateIndex, metricIndex) + 1).fill('');
+      row[dateIndex] = date;
+      return { cell: null, currentValue: '', append: { range: rangeRef, row, valueIndex: metricIndex } };
+    }
+
+    return {
+      cell: cellAt(rowIndex, metricIndex),
+      currentValue: String(dataRows[rowIndex][metricIndex] ?? '')
+    };
+  }
+
+  // The tab's sheetId (the gid in its URL), as the sync's listTabs reads it
+  async getTabGid(spreadsheetId: string, tabName: string): Promise<string> {
+    const response = await this.fetchSheetsApi(
+      `https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}?fields=${encodeURIComponent('sheets.properties(title,sheetId)')}`,
+      {},
+      'Google Sheets API'
+    );
+
+    const data = await response.json();
+    const tab = (data.sheets || []).find(
+      (sheet: { properties?: { title?: string } }) => sheet.properties?.title === tabName
+    );
+    if (tab?.properties?.sheetId === undefined) {
+      throw new Error(`Tab "${tabName}" not found in the spreadsheet`);
+    }
+    return String(tab.properties.sheetId);
+  }
+
+  async updateCell(spreadsheetId: string, cell: string, value: string): Promise<void> {
+    await this.fetchSheetsApi(
+      `https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}/values/${encodeURIComponent(cell)}?valueInputOption=USER_ENTERED`,
+      {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ values: [[value]] })
+      },
+      'Google Sheets write'
+    );
+  }
+
+  async appendRow(spreadsheetId: string, range: string, row: string[]): Promise<string | null> {
+    // A repeated append would add the row twice
+    const response = await this.fetchSheetsApi(
+      `https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}/values/${encodeURIComponent(range)}:append?valueInputOption=USER_ENTERED&insertDataOption=INSERT_ROWS`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ values: [row] })
+      },
+      'Google Sheets append',
+      { idempotent: false }
+    );
+
+    const result = await response.json();
+    return result.updates?.updatedRange || null;
+  }
+
+  // A token Google rejects is dropped from the cache so the next call mints a new one
+  private async fetchSheetsApi(
+    url: string,
+    init: RequestInit,
+    label: string,
+    options?: { idempotent?: boolean }
+  ): Promise<Response> {
+    try {
+      return await fetchGoogleApi(url, {
+        ...init,
+        headers: { ...init.headers, 'Authorization': `Bearer ${this.accessToken}` }
+      }, label, options);
+    } catch (error: unknown) {
+      if (error instanceof GoogleApiError && error.reason === 'unauthorized') {
+        await GoogleAccessTokens.invalidate(this.credentialsId, GOOGLE_SHEETS_SCOPE);
+      }
+      throw error;
+    }
+  }
+}
+
+function validateRequest(request: WriteMetricRequest): string | null {
+  const required: Array<keyof WriteMetricRequest> = [
+    'client_id', 'google_sheet_id', 'sheet_name', 'tab_name', 'metric_name', 'date', 'category', 'metric_type'
+  ];
+  const missing = required.filter(field => !request[field]);
+  if (missing.length > 0) return `Missing required parameters: ${missing.join(', ')}`;
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(request.date) || isNaN(Date.parse(request.date))) {
+    return 'date must be YYYY-MM-DD';
+  }
+  if (typeof request.value !== 'number' || !isFinite(request.value)) {
+    return 'value must be a number';
+  }
+  if (!['currency', 'percentage', 'number'].includes(request.metric_type)) {
+    return 'metric_type must be currency, percentage or number';
+  }
+  return null;
+}
+
+Deno.serve(async (req) => {
+  const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS'
+  };
+
+  const json = (body: Record<string, unknown>, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const request: WriteMetricRequest = await req.json();
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return json({ success: false, message: 'Missing or invalid Authorization header' }, 401);
+    }
+    const token = authHeader.replace('Bearer ', '');
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    const supabase = createClient(supabaseUrl, supabaseAnonKey);
+    const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
+
+    // 1. Validate JWT and permissions
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+    if (authError || !user) {
+      console.error('❌ JWT validation failed:', authError);
+      return json({ success: false, message: 'Invalid JWT token' }, 401);
+    }
+
+    const { data: hasSyncPermission, error: permError } = await supabase.rpc('has_permission', {
+      p_user_id: user.id,
+      p_permission: 'canSyncData'
+    });
+    if (permError || !hasSyncPermission) {
+      console.error('❌ User cannot write metrics:', user.id, permError);
+      return json({ success: false, message: 'Insufficient permissions to edit metrics' }, 403);
+    }
+
+    const validationError = validateRequest(request);
+    if (validationError) {
+      return json({ success: false, message: validationError }, 400);
+    }
+
+    // 2. Verify the user has access to the client
+    const { data: hasAccess, error: accessError } = await supabase.rpc('can_access_client', {
+      p_user_id: user.id,
+      p_client_id: request.client_id
+    });
+    if (accessError || !hasAccess) {
+      console.error('❌ User cannot access client:', user.id, request.client_id, accessError);
+      return json({ success: false, message: 'You do not have access to this client' }, 403);
+    }
+
+    // Database work runs as the user so metrics RLS still applies
+    const supabaseUser = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: `Bearer ${token}` } }
+    });
+
+    // Layout of the tab, as used by the sync
+    const { data: sources } = await supabaseUser
+      .from('data_sources')
+      .select('source_config')
+      .eq('client_id', request.client_id)
+      .eq('source_type', 'google_sheets')
+      .eq('source_config->>spreadsheet_id', request.google_sheet_id)
+      .eq('source_config->>sheet_name', request.tab_name)
+      .limit(1);
+    const layout: SheetLayout = sources?.[0]?.source_config || {};
+
+    // Value as of the last sync (or the last write-back)
+    const { data: existingRows, error: existingError } = await supabaseUser
+      .from('metrics')
+      .select('id, value')
+      .eq('client_id', request.client_id)
+      .eq('google_sheet_id', request.google_sheet_id)
+      .eq('sheet_name', request.sheet_name)
+      .eq('tab_name', request.tab_name)
+      .eq('metric_name', request.metric_name)
+      .eq('date', request.date);
+    if (existingError) {
+      throw new Error(`Failed to load current metric: ${existingError.message}`);
+    }
+    const existing = (existingRows || []) as MetricRow[];
+    const syncedValue = existing.length > 0 ? Number(existing[0].value) : null;
+
+    // 3. Locate the cell and detect conflicting edits made in the sheet
+    const writer = await GoogleSheetsWriter.connect(
+      supabaseService,
+      request.client_id,
+      request.google_sheet_id
+    );
+    const location = await writer.locateCell(
+      request.google_sheet_id,
+      request.tab_name,
+      layout,
+      request.metric_name,
+      request.date
+    );
+
+    const sheetValue = parseSheetValue(location.currentValue);
+    const changedInSheet =
+      sheetValue === null || syncedValue === null
+        ? sheetValue !== syncedValue
+        : Math.abs(sheetValue - syncedValue) > VALUE_TOLERANCE;
+
+    if (changedInSheet && !request.force) {
+      console.warn('⚠️ Write conflict:', { cell: location.cell, sheetValue, syncedValue });
+      return json({
+        success: false,
+        conflict: true,
+        message: `The sheet value (${location.currentValue || 'empty'}) changed since the last sync (${syncedValue ?? 'empty'}). Re-sync or overwrite it.`,
+        cell: location.cell,
+        sheet_value: sheetValue,
+        synced_value: syncedValue
+      }, 409);
+    }
+
+    // A new metrics row needs the tab's gid; looked up before writing so a
+    // missing tab fails without touching the sheet
+    const tabGid = existing.length > 0
+      ? null
+      : await writer.getTabGid(request.google_sheet_id, request.tab_name);
+
+    // 4. Write to Google Sheets. Percentages are written as "12.5%" - also into
+    // empty or appended cells - or the sheet would read 12.5 as 1250%.
+    const cellValue = request.metric_type === 'percentage' ? `${request.value}%` : String(request.value);
+
+    let writtenCell = location.cell;
+    if (location.cell) {
+      await writer.updateCell(request.google_sheet_id, location.cell, cellValue);
+    } else if (location.append) {
+      // No row for this date yet - add one with just the date and the value
+      const row = [...location.append.row];
+      row[location.append.valueIndex] = cellValue;
+      writtenCell = await writer.appendRow(request.google_sheet_id, location.append.range, row);
+    }
+
+    // 5. Update the metrics row(s) the sync produced, or insert a new one
+    if (existing.length > 0) {
+      const { error: updateError } = await supabaseUser
+        .from('metrics')
+        .update({ value: request.value, metric_type: request.metric_type })
+        .in('id', existing.map(row => row.id));
+      if (updateError) {
+        throw new Error(`Sheet updated but saving the metric failed: ${updateError.message}`);
+      }
+    } else {
+      const { error: insertError } = await supabaseUser.from('metrics').insert({
+        user_id: user.id,
+        client_id: request.client_id,
+        google_sheet_id: request.google_sheet_id,
+        sheet_name: request.sheet_name,
+        tab_name: request.tab_name,
+        tab_gid: tabGid,
+        metric_name: request.metric_name,
+        value: request.value,
+        date: request.date,
+        category: request.category,
+        metric_type: request.metric_type,
+        data_source_type: 'google_sheets',
+        data_source_id: request.google_sheet_id,
+        created_at: new Date().toISOString()
+      });
+      if (insertError) {
+        throw new Error(`Sheet updated but saving the metric failed: ${insertError.message}`);
+      }
+    }
+
+    // Audit trail for write-backs
+    console.log('✍️ Metric written:', {
+      user_id: user.id,
+      client_id: request.client_id,
+      tab_name: request.tab_name,
+      metric_name: request.metric_name,
+      date: request.date,
+      old_value: syncedValue,
+      new_value: request.value,
+      cell: writtenCell,
+      forced: !!request.force && changedInSheet
+    });
+
+    return json({
+      success: true,
+      message: `Saved ${request.metric_name} for ${request.date}`,
+      cell: writtenCell,
+      previous_value: syncedValue
+    });
+  } catch (error: unknown) {
+    console.error('❌ Write metric error:', error);
+    return json({
+      success: false,
+      message: `Failed to write metric: ${error instanceof Error ? error.message : 'Unknown error'}`
+    }, 500);
+  }
+});
@@ -0,0 +1,277 @@
+-- ==============================================
+-- DATA SOURCES + SCHEDULED SYNC SUPPORT
+-- ==============================================
+-- Adds the data_sources table described by src/types/dataSource.ts so that
+-- per-source settings (auto_sync, sync_frequency, ...) have somewhere to live,
+-- keeps it populated from clients.google_sheets_url / google_sheets_tabs, and
+-- adds the helpers used by the sync-scheduler edge function:
+--   - record_sync_status(...)   upserts sync_status counters for a run
+--   - get_due_data_sources(...) lists auto-sync sources that are due
+
+-- ==============================================
+-- DATA SOURCES TABLE
+-- ==============================================
+
+CREATE TABLE IF NOT EXISTS public.data_sources (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    client_id UUID REFERENCES public.clients(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    source_type TEXT NOT NULL CHECK (source_type IN ('google_sheets', 'csv', 'xlsx')),
+    source_config JSONB NOT NULL DEFAULT '{}',
+    is_active BOOLEAN DEFAULT TRUE,
+    display_order INTEGER DEFAULT 0,
+    created_by UUID,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    -- Per source type, so a file source named like a sheet tab doesn't keep
+    -- the tab from getting its own source
+    UNIQUE (client_id, source_type, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_data_sources_client_id ON public.data_sources(client_id);
+CREATE INDEX IF NOT EXISTS idx_data_sources_source_type ON public.data_sources(source_type);
+CREATE INDEX IF NOT EXISTS idx_data_sources_auto_sync ON public.data_sources(((source_config->>'auto_sync')::BOOLEAN))
+WHERE is_active = TRUE;
+
+COMMENT ON TABLE public.data_sources IS 'Per-client data sources (one row per Google Sheets tab or uploaded file). source_config matches DataSourceConfig in src/types/dataSource.ts';
+
+ALTER TABLE public.data_sources ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read data sources for accessible clients" ON public.data_sources;
+CREATE POLICY "Users can read data sources for accessible clients" ON public.data_sources
+  FOR SELECT TO authenticated
+  USING (can_access_client(auth.uid(), client_id));
+
+DROP POLICY IF EXISTS "Admins and staff can manage data sources" ON public.data_sources;
+CREATE POLICY "Admins and staff can manage data sources" ON public.data_sources
+  FOR ALL TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.userRoles ur
+      JOIN public.roles r ON ur.role_id = r.id
+      WHERE ur.user_id = auth.uid()
+      AND r.name IN ('admin', 'staff')
+      AND (ur.is_global = TRUE OR ur.client_id = data_sources.client_id)
+    )
+  );
+
+-- ==============================================
+-- KEEP DATA SOURCES IN STEP WITH CLIENT TABS
+-- ==============================================
+
+CREATE OR REPLACE FUNCTION sync_client_data_sources()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_spreadsheet_id TEXT;
+BEGIN
+  IF NEW.google_sheets_url IS NULL OR NEW.google_sheets_url = '' THEN
+    RETURN NEW;
+  END IF;
+
+  v_spreadsheet_id := COALESCE(
+    substring(NEW.google_sheets_url FROM '/spreadsheets/d/([a-zA-Z0-9_-]+)'),
+    NEW.google_sheets_url
+  );
+
+  INSERT INTO public.data_sources (client_id, name, source_type, source_config, display_order, created_by)
+  SELECT
+    NEW.id,
+    tab.name,
+    'google_sheets',
+    jsonb_build_object(
+      'spreadsheet_id', v_spreadsheet_id,
+      'sheet_name', tab.name,
+      'range', 'A:AZ',
+      'auto_sync', FALSE,
+      'sync_frequency', 'daily'
+    ),
+    tab.position - 1,
+    auth.uid()
+  FROM unnest(COALESCE(NEW.google_sheets_tabs, '{}')) WITH ORDINALITY AS tab(name, position)
+  ON CONFLICT (client_id, source_type, name) DO UPDATE
+  SET is_active = TRUE,
+      source_config = data_sources.source_config || jsonb_build_object('spreadsheet_id', v_spreadsheet_id),
+      updated_at = NOW();
+
+  -- Tabs that were deselected stop being synced but keep their settings
+  UPDATE public.data_sources
+  SET is_active = FALSE, updated_at = NOW()
+  WHERE client_id = NEW.id
+  AND source_type = 'google_sheets'
+  AND is_active = TRUE
+  AND NOT (name = ANY (COALESCE(NEW.google_sheets_tabs, '{}')));
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trg_sync_client_data_sources ON public.clients;
+CREATE TRIGGER trg_sync_client_data_sources
+  AFTER INSERT OR UPDATE OF google_sheets_url, google_sheets_tabs ON public.clients
+  FOR EACH ROW EXECUTE FUNCTION sync_client_data_sources();
+
+-- Backfill existing clients
+INSERT INTO public.data_sources (client_id, name, source_type, source_config, display_order, created_by)
+SELECT
+  c.id,
+  tab.name,
+  'google_sheets',
+  jsonb_build_object(
+    'spreadsheet_id', COALESCE(substring(c.google_sheets_url FROM '/spreadsheets/d/([a-zA-Z0-9_-]+)'), c.google_sheets_url),
+    'sheet_name', tab.name,
+    'range', 'A:AZ',
+    'auto_sync', FALSE,
+    'sync_frequency', 'daily'
+  ),
+  tab.position - 1,
+  c.owner_id
+FROM public.clients c
+CROSS JOIN LATERAL unnest(COALESCE(c.google_sheets_tabs, '{}')) WITH ORDINALITY AS tab(name, position)
+WHERE c.google_sheets_url IS NOT NULL AND c.google_sheets_url <> ''
+ON CONFLICT (client_id, source_type, name) DO NOTHING;
+
+-- ==============================================
+-- SYNC STATUS RECORDING
+-- ==============================================
+
+CREATE OR REPLACE FUNCTION record_sync_status(
+  p_user_id UUID,
+  p_client_id UUID,
+  p_google_sheet_id TEXT,
+  p_sheet_name TEXT,
+  p_status TEXT,
+  p_error_message TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO public.sync_status (
+    user_id, client_id, google_sheet_id, sheet_name, sync_status,
+    last_sync_at, last_successful_sync_at, sync_error_message,
+    total_sync_count, successful_sync_count
+  )
+  VALUES (
+    p_user_id, p_client_id, p_google_sheet_id, p_sheet_name, p_status,
+    NOW(),
+    CASE WHEN p_status = 'success' THEN NOW() ELSE NULL END,
+    CASE WHEN p_status = 'error' THEN p_error_message ELSE NULL END,
+    CASE WHEN p_status = 'syncing' THEN 0 ELSE 1 END,
+    CASE WHEN p_status = 'success' THEN 1 ELSE 0 END
+  )
+  ON CONFLICT (user_id, client_id, google_sheet_id, sheet_name) DO UPDATE
+  SET sync_status = EXCLUDED.sync_status,
+      last_sync_at = NOW(),
+      last_successful_sync_at = CASE
+        WHEN p_status = 'success' THEN NOW()
+        ELSE sync_status.last_successful_sync_at
+      END,
+      sync_error_message = CASE
+        WHEN p_status = 'error' THEN p_error_message
+        WHEN p_status = 'success' THEN NULL
+        ELSE sync_status.sync_error_message
+      END,
+      total_sync_count = sync_status.total_sync_count + CASE WHEN p_status = 'syncing' THEN 0 ELSE 1 END,
+      successful_sync_count = sync_status.successful_sync_count + CASE WHEN p_status = 'success' THEN 1 ELSE 0 END,
+      updated_at = NOW();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only called from edge functions with the service role key; it takes any
+-- user/client id, so it must not be reachable from the browser.
+REVOKE EXECUTE ON FUNCTION record_sync_status(UUID, UUID, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION record_sync_status(UUID, UUID, TEXT, TEXT, TEXT, TEXT) TO service_role;
+
+-- ==============================================
+-- DUE DATA SOURCES FOR THE SCHEDULER
+-- ==============================================
+
+CREATE OR REPLACE FUNCTION get_due_data_sources(p_limit INTEGER DEFAULT 50)
+RETURNS TABLE(
+  data_source_id UUID,
+  client_id UUID,
+  user_id UUID,
+  google_sheet_id TEXT,
+  sheet_name TEXT,
+  sync_frequency TEXT,
+  last_sync_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    ds.id,
+    ds.client_id,
+    COALESCE(ss.user_id, ds.created_by, c.owner_id),
+    ds.source_config->>'spreadsheet_id',
+    ds.source_config->>'sheet_name',
+    COALESCE(ds.source_config->>'sync_frequency', 'daily'),
+    ss.last_sync_at
+  FROM public.data_sources ds
+  JOIN public.clients c ON c.id = ds.client_id
+  LEFT JOIN LATERAL (
+    SELECT s.user_id, s.last_sync_at, s.sync_status
+    FROM public.sync_status s
+    WHERE s.client_id = ds.client_id
+    AND s.google_sheet_id = ds.source_config->>'spreadsheet_id'
+    AND s.sheet_name = ds.source_config->>'sheet_name'
+    ORDER BY s.last_sync_at DESC NULLS LAST
+    LIMIT 1
+  ) ss ON TRUE
+  WHERE ds.is_active = TRUE
+  AND ds.source_type = 'google_sheets'
+  AND COALESCE((ds.source_config->>'auto_sync')::BOOLEAN, FALSE) = TRUE
+  AND ds.source_config->>'spreadsheet_id' IS NOT NULL
+  AND ds.source_config->>'sheet_name' IS NOT NULL
+  AND COALESCE(ss.user_id, ds.created_by, c.owner_id) IS NOT NULL
+  -- Skip sources with a run in flight (a stuck 'syncing' row is retried after 30 minutes)
+  AND NOT (ss.sync_status = 'syncing' AND ss.last_sync_at > NOW() - INTERVAL '30 minutes')
+  AND (
+    ss.last_sync_at IS NULL OR
+    ss.last_sync_at <= NOW() - CASE COALESCE(ds.source_config->>'sync_frequency', 'daily')
+      WHEN 'weekly' THEN INTERVAL '7 days'
+      WHEN 'monthly' THEN INTERVAL '1 month'
+      ELSE INTERVAL '1 day'
+    END
+  )
+  ORDER BY ss.last_sync_at ASC NULLS FIRST
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION get_due_data_sources(INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_due_data_sources(INTEGER) TO service_role;
+
+-- ==============================================
+-- SCHEDULING
+-- ==============================================
+-- The sync-scheduler edge function is invoked on a cron. With pg_cron and
+-- pg_net enabled, schedule it hourly (store the service role key in Vault):
+--
+--   SELECT cron.schedule(
+--     'sync-scheduler-hourly',
+--     '0 * * * *',
+--     $cron$
+--     SELECT net.http_post(
+--       url := 'https://<project-ref>.supabase.co/functions/v1/sync-scheduler',
+--       headers := jsonb_build_object(
+--         'Content-Type', 'application/json',
+--         'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+--       ),
+--       body := '{}'::jsonb
+--     );
+--     $cron$
+--   );
+
+-- ==============================================
+-- VERIFICATION
+-- ==============================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.tables
+    WHERE table_schema = 'public' AND table_name = 'data_sources'
+  ) THEN
+    RAISE EXCEPTION 'Table data_sources missing';
+  END IF;
+
+  RAISE NOTICE '✅ data_sources table, record_sync_status and get_due_data_sources created';
+END $$;
@@ -0,0 +1,136 @@
+-- ==============================================
+-- SYNC RUN HISTORY
+-- ==============================================
+-- sync_status only keeps the latest status per sheet. sync_runs records every
+-- run (who/when/what changed plus parse warnings) and sync_run_metrics keeps
+-- the values each run synced so any two runs can be diffed.
+
+CREATE TABLE IF NOT EXISTS public.sync_runs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+    user_id UUID,
+    data_source_id UUID REFERENCES public.data_sources(id) ON DELETE SET NULL,
+    google_sheet_id TEXT NOT NULL,
+    sheet_name TEXT NOT NULL,
+    triggered_by TEXT NOT NULL DEFAULT 'manual' CHECK (triggered_by IN ('manual', 'scheduler')),
+    status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'success', 'error')),
+    started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    finished_at TIMESTAMPTZ,
+    rows_read INTEGER DEFAULT 0,
+    metrics_processed INTEGER DEFAULT 0,
+    metrics_inserted INTEGER DEFAULT 0,
+    metrics_updated INTEGER DEFAULT 0,
+    metrics_removed INTEGER DEFAULT 0,
+    metrics_unchanged INTEGER DEFAULT 0,
+    warning_count INTEGER DEFAULT 0,
+    warnings JSONB NOT NULL DEFAULT '[]',
+    error_message TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_runs_client_started ON public.sync_runs(client_id, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_sync_runs_sheet ON public.sync_runs(client_id, google_sheet_id, sheet_name);
+
+COMMENT ON TABLE public.sync_runs IS 'One row per Google Sheets sync run with change counts and parse warnings';
+COMMENT ON COLUMN public.sync_runs.warnings IS 'Row-level parse warnings: [{row, column, type, value, message}] (capped, see warning_count for the total)';
+
+-- Values synced by each run (the staged rows handed to apply_metric_sync)
+CREATE TABLE IF NOT EXISTS public.sync_run_metrics (
+    run_id UUID NOT NULL REFERENCES public.sync_runs(id) ON DELETE CASCADE,
+    tab_name TEXT,
+    date DATE NOT NULL,
+    category TEXT,
+    metric_name TEXT NOT NULL,
+    metric_type TEXT,
+    value NUMERIC(15,2)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_run_metrics_run ON public.sync_run_metrics(run_id);
+
+-- ==============================================
+-- RLS
+-- ==============================================
+-- Runs are written by the sync edge function with the service role; users
+-- who can access the client can read its history.
+
+ALTER TABLE public.sync_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sync_run_metrics ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read sync runs for accessible clients" ON public.sync_runs;
+CREATE POLICY "Users can read sync runs for accessible clients" ON public.sync_runs
+  FOR SELECT TO authenticated
+  USING (can_access_client(auth.uid(), client_id));
+
+DROP POLICY IF EXISTS "Users can read sync run metrics for accessible clients" ON public.sync_run_metrics;
+CREATE POLICY "Users can read sync run metrics for accessible clients" ON public.sync_run_metrics
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.sync_runs sr
+      WHERE sr.id = sync_run_metrics.run_id
+      AND can_access_client(auth.uid(), sr.client_id)
+    )
+  );
+
+-- ==============================================
+-- RUN DIFF
+-- ==============================================
+-- Value-level diff between two runs. Rows only in the later run are 'added',
+-- rows only in the earlier run are 'removed', differing values are 'changed'.
+
+CREATE OR REPLACE FUNCTION get_sync_run_diff(p_from_run_id UUID, p_to_run_id UUID)
+RETURNS TABLE(
+  change_type TEXT,
+  tab_name TEXT,
+  date DATE,
+  category TEXT,
+  metric_name TEXT,
+  metric_type TEXT,
+  old_value NUMERIC,
+  new_value NUMERIC
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    CASE
+      WHEN a.run_id IS NULL THEN 'added'
+      WHEN b.run_id IS NULL THEN 'removed'
+      ELSE 'changed'
+    END,
+    COALESCE(b.tab_name, a.tab_name),
+    COALESCE(b.date, a.date),
+    COALESCE(b.category, a.category),
+    COALESCE(b.metric_name, a.metric_name),
+    COALESCE(b.metric_type, a.metric_type),
+    a.value,
+    b.value
+  FROM (SELECT * FROM public.sync_run_metrics WHERE run_id = p_from_run_id) a
+  FULL OUTER JOIN (SELECT * FROM public.sync_run_metrics WHERE run_id = p_to_run_id) b
+    ON a.tab_name IS NOT DISTINCT FROM b.tab_name
+    AND a.date = b.date
+    AND a.category IS NOT DISTINCT FROM b.category
+    AND a.metric_name = b.metric_name
+    AND a.metric_type IS NOT DISTINCT FROM b.metric_type
+  WHERE a.run_id IS NULL
+     OR b.run_id IS NULL
+     OR a.value IS DISTINCT FROM b.value
+  ORDER BY 3, 5;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION get_sync_run_diff(UUID, UUID) TO authenticated;
+
+-- ==============================================
+-- VERIFICATION
+-- ==============================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.tables
+    WHERE table_schema = 'public' AND table_name = 'sync_runs'
+  ) THEN
+    RAISE EXCEPTION 'Table sync_runs missing';
+  END IF;
+
+  RAISE NOTICE '✅ sync_runs, sync_run_metrics and get_sync_run_diff created';
+END $$;
@@ -0,0 +1,107 @@
+-- ==============================================
+-- SYNC LOCKS
+-- ==============================================
+-- A sync diffs a tab's staged rows against its stored metrics and applies the
+-- inserts, updates and removals (apply_metric_sync). Two overlapping runs of the
+-- same tab diff against the same rows and can apply conflicting changes or
+-- report misleading counts and sync status. The sync edge function takes a lease
+-- per (client, spreadsheet, tab) before writing and releases it when done. A
+-- lease that is never released (crashed or timed-out run) expires on its own.
+
+CREATE TABLE IF NOT EXISTS public.sync_locks (
+    client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+    google_sheet_id TEXT NOT NULL,
+    sheet_name TEXT NOT NULL,
+    lock_id UUID NOT NULL DEFAULT gen_random_uuid(),
+    locked_by UUID,
+    triggered_by TEXT NOT NULL DEFAULT 'manual',
+    locked_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMPTZ NOT NULL,
+    PRIMARY KEY (client_id, google_sheet_id, sheet_name)
+);
+
+COMMENT ON TABLE public.sync_locks IS 'Sync leases per client/spreadsheet/tab; expired rows are free to take';
+
+-- Only the sync edge function (service role) touches locks
+ALTER TABLE public.sync_locks ENABLE ROW LEVEL SECURITY;
+
+-- ==============================================
+-- ACQUIRE / RELEASE
+-- ==============================================
+
+-- Takes the lease if it is free or expired. When someone else holds it,
+-- acquired is false and the current holder is returned instead.
+CREATE OR REPLACE FUNCTION acquire_sync_lock(
+  p_client_id UUID,
+  p_google_sheet_id TEXT,
+  p_sheet_name TEXT,
+  p_user_id UUID,
+  p_triggered_by TEXT DEFAULT 'manual',
+  p_ttl_seconds INTEGER DEFAULT 600
+)
+RETURNS TABLE(
+  acquired BOOLEAN,
+  lock_id UUID,
+  locked_by UUID,
+  triggered_by TEXT,
+  locked_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_lock_id UUID;
+BEGIN
+  INSERT INTO public.sync_locks AS sl (
+    client_id, google_sheet_id, sheet_name, locked_by, triggered_by, expires_at
+  )
+  VALUES (
+    p_client_id, p_google_sheet_id, p_sheet_name, p_user_id, p_triggered_by,
+    NOW() + make_interval(secs => p_ttl_seconds)
+  )
+  ON CONFLICT (client_id, google_sheet_id, sheet_name) DO UPDATE
+  SET lock_id = gen_random_uuid(),
+      locked_by = EXCLUDED.locked_by,
+      triggered_by = EXCLUDED.triggered_by,
+      locked_at = NOW(),
+      expires_at = EXCLUDED.expires_at
+  WHERE sl.expires_at <= NOW()
+  RETURNING sl.lock_id INTO v_lock_id;
+
+  RETURN QUERY
+  SELECT v_lock_id IS NOT NULL, l.lock_id, l.locked_by, l.triggered_by, l.locked_at, l.expires_at
+  FROM public.sync_locks l
+  WHERE l.client_id = p_client_id
+    AND l.google_sheet_id = p_google_sheet_id
+    AND l.sheet_name = p_sheet_name;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Releases only the caller's own lease, so a run that outlived its lease can't
+-- free one a later run has since taken
+CREATE OR REPLACE FUNCTION release_sync_lock(p_lock_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  DELETE FROM public.sync_locks WHERE lock_id = p_lock_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION acquire_sync_lock(UUID, TEXT, TEXT, UUID, TEXT, INTEGER) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION release_sync_lock(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION acquire_sync_lock(UUID, TEXT, TEXT, UUID, TEXT, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION release_sync_lock(UUID) TO service_role;
+
+-- ==============================================
+-- VERIFICATION
+-- ==============================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.tables
+    WHERE table_schema = 'public' AND table_name = 'sync_locks'
+  ) THEN
+    RAISE EXCEPTION 'Table sync_locks missing';
+  END IF;
+
+  RAISE NOTICE '✅ sync_locks, acquire_sync_lock and release_sync_lock created';
+END $$;
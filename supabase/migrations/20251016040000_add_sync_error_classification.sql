@@ -0,0 +1,31 @@
+-- ==============================================
+-- SYNC ERROR CLASSIFICATION
+-- ==============================================
+-- Failed runs record whether running the sync again can help:
+--   retryable - quota (429), Google 5xx or network errors that outlasted the retries
+--   permanent - sheet not shared (403), missing spreadsheet (404), bad range,
+--               credentials, or sheet data that can't be synced
+-- error_reason holds the specific cause (rate_limited, not_shared, not_found, ...).
+
+ALTER TABLE public.sync_runs
+  ADD COLUMN IF NOT EXISTS error_class TEXT CHECK (error_class IN ('retryable', 'permanent')),
+  ADD COLUMN IF NOT EXISTS error_reason TEXT;
+
+COMMENT ON COLUMN public.sync_runs.error_class IS 'Failed runs only: retryable (transient Google/network error) or permanent';
+COMMENT ON COLUMN public.sync_runs.error_reason IS 'Failed runs only: rate_limited, server_error, network, not_shared, not_found, invalid_range, unauthorized, bad_request, no_data, sync_error';
+
+-- ==============================================
+-- VERIFICATION
+-- ==============================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'sync_runs' AND column_name = 'error_class'
+  ) THEN
+    RAISE EXCEPTION 'Column sync_runs.error_class missing';
+  END IF;
+
+  RAISE NOTICE '✅ sync_runs.error_class and error_reason added';
+END $$;
@@ -0,0 +1,37 @@
+-- ==============================================
+-- GOOGLE ACCESS TOKEN CACHE
+-- ==============================================
+-- Service account access tokens live about an hour. The sync edge function
+-- keeps the current one here so a new isolate can reuse it instead of reading
+-- the private key, signing a JWT and calling Google's OAuth endpoint again.
+-- Rows are replaced when a token nears expiry. A cached token may be served
+-- until it expires even after the service account key is rotated.
+
+CREATE TABLE IF NOT EXISTS public.google_access_tokens (
+    cache_key TEXT PRIMARY KEY,
+    access_token TEXT NOT NULL,
+    expires_at TIMESTAMPTZ NOT NULL,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.google_access_tokens IS 'Short-lived Google OAuth access tokens shared between edge function invocations (service role only)';
+
+-- Bearer tokens: no policies, so only the service role can read or write them
+ALTER TABLE public.google_access_tokens ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.google_access_tokens FROM anon, authenticated;
+
+-- ==============================================
+-- VERIFICATION
+-- ==============================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.tables
+    WHERE table_schema = 'public' AND table_name = 'google_access_tokens'
+  ) THEN
+    RAISE EXCEPTION 'Table google_access_tokens missing';
+  END IF;
+
+  RAISE NOTICE '✅ google_access_tokens created';
+END $$;
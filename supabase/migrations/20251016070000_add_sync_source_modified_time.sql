@@ -0,0 +1,142 @@
+-- ==============================================
+-- SKIP UNCHANGED SPREADSHEETS
+-- ==============================================
+-- The sync records the spreadsheet's Drive modifiedTime with each successful
+-- run. When the spreadsheet hasn't been modified since, later runs (scheduled
+-- or manual, unless forced) skip the tab and record sync_status = 'skipped'.
+--
+-- modifiedTime covers the whole spreadsheet, so an edit to any tab re-syncs
+-- every tab of it. A data source whose layout changed after its last full sync
+-- is never skipped.
+
+ALTER TABLE public.sync_status
+  ADD COLUMN IF NOT EXISTS source_modified_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.sync_status.source_modified_at IS 'Drive modifiedTime of the spreadsheet as of the last successful sync';
+COMMENT ON COLUMN public.sync_status.sync_status IS 'pending, syncing, success, error, or skipped (unchanged since the last sync)';
+
+-- ==============================================
+-- SYNC STATUS RECORDING
+-- ==============================================
+-- Same as before, plus:
+--   'skipped' - updates last_sync_at (so the scheduler treats the tab as
+--               synced) but not the success timestamp or counters
+--   p_source_modified_at - stored on 'success' runs
+
+DROP FUNCTION IF EXISTS record_sync_status(UUID, UUID, TEXT, TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION record_sync_status(
+  p_user_id UUID,
+  p_client_id UUID,
+  p_google_sheet_id TEXT,
+  p_sheet_name TEXT,
+  p_status TEXT,
+  p_error_message TEXT DEFAULT NULL,
+  p_source_modified_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO public.sync_status (
+    user_id, client_id, google_sheet_id, sheet_name, sync_status,
+    last_sync_at, last_successful_sync_at, sync_error_message,
+    total_sync_count, successful_sync_count, source_modified_at
+  )
+  VALUES (
+    p_user_id, p_client_id, p_google_sheet_id, p_sheet_name, p_status,
+    NOW(),
+    CASE WHEN p_status = 'success' THEN NOW() ELSE NULL END,
+    CASE WHEN p_status = 'error' THEN p_error_message ELSE NULL END,
+    CASE WHEN p_status IN ('syncing', 'skipped') THEN 0 ELSE 1 END,
+    CASE WHEN p_status = 'success' THEN 1 ELSE 0 END,
+    CASE WHEN p_status = 'success' THEN p_source_modified_at ELSE NULL END
+  )
+  ON CONFLICT (user_id, client_id, google_sheet_id, sheet_name) DO UPDATE
+  SET sync_status = EXCLUDED.sync_status,
+      last_sync_at = NOW(),
+      last_successful_sync_at = CASE
+        WHEN p_status = 'success' THEN NOW()
+        ELSE sync_status.last_successful_sync_at
+      END,
+      sync_error_message = CASE
+        WHEN p_status = 'error' THEN p_error_message
+        WHEN p_status = 'success' THEN NULL
+        ELSE sync_status.sync_error_message
+      END,
+      total_sync_count = sync_status.total_sync_count + CASE WHEN p_status IN ('syncing', 'skipped') THEN 0 ELSE 1 END,
+      successful_sync_count = sync_status.successful_sync_count + CASE WHEN p_status = 'success' THEN 1 ELSE 0 END,
+      source_modified_at = CASE
+        WHEN p_status = 'success' THEN p_source_modified_at
+        ELSE sync_status.source_modified_at
+      END,
+      updated_at = NOW();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION record_sync_status(UUID, UUID, TEXT, TEXT, TEXT, TEXT, TIMESTAMPTZ) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION record_sync_status(UUID, UUID, TEXT, TEXT, TEXT, TEXT, TIMESTAMPTZ) TO service_role;
+
+-- ==============================================
+-- UNCHANGED CHECK
+-- ==============================================
+
+-- True when the tab's last run succeeded (or was itself skipped) against a
+-- spreadsheet modified no later than p_modified_at, and its data source layout
+-- hasn't changed since that sync.
+CREATE OR REPLACE FUNCTION is_sync_source_unchanged(
+  p_client_id UUID,
+  p_google_sheet_id TEXT,
+  p_sheet_name TEXT,
+  p_modified_at TIMESTAMPTZ
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_status public.sync_status%ROWTYPE;
+BEGIN
+  IF p_modified_at IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  SELECT * INTO v_status
+  FROM public.sync_status s
+  WHERE s.client_id = p_client_id
+    AND s.google_sheet_id = p_google_sheet_id
+    AND s.sheet_name = p_sheet_name
+  ORDER BY s.last_sync_at DESC NULLS LAST
+  LIMIT 1;
+
+  IF v_status.id IS NULL
+    OR v_status.sync_status NOT IN ('success', 'skipped')
+    OR v_status.source_modified_at IS NULL
+    OR v_status.source_modified_at < p_modified_at THEN
+    RETURN FALSE;
+  END IF;
+
+  RETURN NOT EXISTS (
+    SELECT 1 FROM public.data_sources ds
+    WHERE ds.client_id = p_client_id
+      AND ds.source_type = 'google_sheets'
+      AND ds.source_config->>'spreadsheet_id' = p_google_sheet_id
+      AND ds.source_config->>'sheet_name' = p_sheet_name
+      AND ds.updated_at > v_status.last_successful_sync_at
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+REVOKE EXECUTE ON FUNCTION is_sync_source_unchanged(UUID, TEXT, TEXT, TIMESTAMPTZ) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION is_sync_source_unchanged(UUID, TEXT, TEXT, TIMESTAMPTZ) TO service_role;
+
+-- ==============================================
+-- VERIFICATION
+-- ==============================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'sync_status' AND column_name = 'source_modified_at'
+  ) THEN
+    RAISE EXCEPTION 'Column sync_status.source_modified_at missing';
+  END IF;
+
+  RAISE NOTICE '✅ sync_status.source_modified_at, record_sync_status and is_sync_source_unchanged updated';
+END $$;
@@ -0,0 +1,149 @@
+-- ==============================================
+-- METRIC CURRENCY
+-- ==============================================
+-- Sheets read with unformatted values (source_config.value_render =
+-- 'unformatted') take metric_type and currency from each cell's number format
+-- instead of the display text; formatted reads take the currency from the
+-- symbol in the value. currency is the ISO code (USD, EUR, ...) for currency
+-- metrics and NULL otherwise, or when the sheet doesn't say.
+
+ALTER TABLE public.metrics
+  ADD COLUMN IF NOT EXISTS currency TEXT;
+
+COMMENT ON COLUMN public.metrics.currency IS 'ISO 4217 code from the source cell''s number format (currency metrics only)';
+
+-- ==============================================
+-- INCREMENTAL SYNC WITH CURRENCY
+-- ==============================================
+-- Same as 20251016000000_add_apply_metric_sync_function, also staging and
+-- applying each row's currency.
+
+CREATE OR REPLACE FUNCTION apply_metric_sync(
+  p_user_id UUID,
+  p_client_id UUID,
+  p_google_sheet_id TEXT,
+  p_sheet_name TEXT,
+  p_rows JSONB
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_staged INTEGER := 0;
+  v_inserted INTEGER := 0;
+  v_updated INTEGER := 0;
+  v_removed INTEGER := 0;
+BEGIN
+  DROP TABLE IF EXISTS staged_metrics;
+
+  -- Stage incoming rows; the last occurrence of a duplicate key wins
+  CREATE TEMP TABLE staged_metrics ON COMMIT DROP AS
+  SELECT DISTINCT ON (tab_name, date, category, metric_name, metric_type)
+    e.row->>'tab_name' AS tab_name,
+    e.row->>'tab_gid' AS tab_gid,
+    e.row->>'data_source_type' AS data_source_type,
+    e.row->>'data_source_id' AS data_source_id,
+    e.row->>'metric_name' AS metric_name,
+    e.row->>'category' AS category,
+    e.row->>'metric_type' AS metric_type,
+    NULLIF(e.row->>'currency', '') AS currency,
+    ROUND((e.row->>'value')::NUMERIC, 2)::NUMERIC(15,2) AS value,
+    (e.row->>'date')::DATE AS date
+  FROM jsonb_array_elements(p_rows) WITH ORDINALITY AS e(row, idx)
+  ORDER BY tab_name, date, category, metric_name, metric_type, e.idx DESC;
+
+  GET DIAGNOSTICS v_staged = ROW_COUNT;
+
+  -- Rows that no longer exist in the sheet
+  DELETE FROM public.metrics m
+  WHERE m.user_id = p_user_id
+  AND m.client_id = p_client_id
+  AND m.google_sheet_id = p_google_sheet_id
+  AND m.sheet_name = p_sheet_name
+  AND NOT EXISTS (
+    SELECT 1 FROM staged_metrics s
+    WHERE s.tab_name = m.tab_name
+    AND s.date = m.date
+    AND s.category = m.category
+    AND s.metric_name = m.metric_name
+    AND s.metric_type = m.metric_type
+  );
+
+  GET DIAGNOSTICS v_removed = ROW_COUNT;
+
+  -- Rows whose value, currency or tab metadata changed
+  UPDATE public.metrics m
+  SET value = s.value,
+      currency = s.currency,
+      tab_gid = s.tab_gid,
+      data_source_id = s.data_source_id,
+      updated_at = NOW()
+  FROM staged_metrics s
+  WHERE m.user_id = p_user_id
+  AND m.client_id = p_client_id
+  AND m.google_sheet_id = p_google_sheet_id
+  AND m.sheet_name = p_sheet_name
+  AND s.tab_name = m.tab_name
+  AND s.date = m.date
+  AND s.category = m.category
+  AND s.metric_name = m.metric_name
+  AND s.metric_type = m.metric_type
+  AND (
+    m.value IS DISTINCT FROM s.value OR
+    m.currency IS DISTINCT FROM s.currency OR
+    m.tab_gid IS DISTINCT FROM s.tab_gid
+  );
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  -- Rows that are new to the sheet
+  INSERT INTO public.metrics (
+    user_id, client_id, google_sheet_id, sheet_name, tab_name, tab_gid,
+    data_source_type, data_source_id, metric_name, category, metric_type,
+    currency, value, date, created_at, updated_at
+  )
+  SELECT
+    p_user_id, p_client_id, p_google_sheet_id, p_sheet_name, s.tab_name, s.tab_gid,
+    s.data_source_type, s.data_source_id, s.metric_name, s.category, s.metric_type,
+    s.currency, s.value, s.date, NOW(), NOW()
+  FROM staged_metrics s
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.metrics m
+    WHERE m.user_id = p_user_id
+    AND m.client_id = p_client_id
+    AND m.google_sheet_id = p_google_sheet_id
+    AND m.sheet_name = p_sheet_name
+    AND m.tab_name = s.tab_name
+    AND m.date = s.date
+    AND m.category = s.category
+    AND m.metric_name = s.metric_name
+    AND m.metric_type = s.metric_type
+  );
+
+  GET DIAGNOSTICS v_inserted = ROW_COUNT;
+
+  RETURN jsonb_build_object(
+    'inserted', v_inserted,
+    'updated', v_updated,
+    'removed', v_removed,
+    'unchanged', v_staged - v_inserted - v_updated
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION apply_metric_sync(UUID, UUID, TEXT, TEXT, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION apply_metric_sync(UUID, UUID, TEXT, TEXT, JSONB) TO service_role;
+
+-- ==============================================
+-- VERIFICATION
+-- ==============================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'metrics' AND column_name = 'currency'
+  ) THEN
+    RAISE EXCEPTION 'Column metrics.currency missing';
+  END IF;
+
+  RAISE NOTICE '✅ metrics.currency added and apply_metric_sync updated';
+END $$;
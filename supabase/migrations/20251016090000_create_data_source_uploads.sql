@@ -0,0 +1,257 @@
+-- ==============================================
+-- FILE DATA SOURCE UPLOADS
+-- ==============================================
+-- CSV (and Excel) data sources are fed by uploading a file. Every upload is
+-- kept as a numbered version holding the metrics parsed from it; exactly one
+-- version per data source is current, and its metrics are the source's rows in
+-- public.metrics (data_source_id = the data source id).
+--
+-- A new upload replaces the previous upload's rows in one transaction, and
+-- rolling back re-applies an earlier version the same way.
+
+CREATE TABLE IF NOT EXISTS public.data_source_uploads (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    data_source_id UUID NOT NULL REFERENCES public.data_sources(id) ON DELETE CASCADE,
+    client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    file_name TEXT NOT NULL,
+    file_size BIGINT,
+    row_count INTEGER NOT NULL DEFAULT 0,
+    metric_count INTEGER NOT NULL DEFAULT 0,
+    -- [{date, category, metric_name, metric_type, value}, ...] as parsed from the file
+    metrics JSONB NOT NULL DEFAULT '[]'::JSONB,
+    is_current BOOLEAN NOT NULL DEFAULT FALSE,
+    uploaded_by UUID,
+    uploaded_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (data_source_id, version)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_data_source_uploads_current
+  ON public.data_source_uploads(data_source_id) WHERE is_current;
+
+COMMENT ON TABLE public.data_source_uploads IS 'Versioned file uploads for csv/xlsx data sources; the current version''s metrics are live in metrics';
+
+ALTER TABLE public.data_source_uploads ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view uploads for accessible clients" ON public.data_source_uploads;
+CREATE POLICY "Users can view uploads for accessible clients" ON public.data_source_uploads
+  FOR SELECT TO authenticated
+  USING (can_access_client(auth.uid(), client_id));
+
+-- ==============================================
+-- APPLYING A VERSION
+-- ==============================================
+
+-- Replaces the data source's metrics with the given upload's and marks it
+-- current. Internal: callers check permissions first.
+CREATE OR REPLACE FUNCTION apply_data_source_upload_version(p_upload_id UUID)
+RETURNS TABLE(metrics_inserted INTEGER, metrics_removed INTEGER) AS $$
+DECLARE
+  v_upload public.data_source_uploads%ROWTYPE;
+  v_source public.data_sources%ROWTYPE;
+  v_inserted INTEGER := 0;
+  v_removed INTEGER := 0;
+BEGIN
+  SELECT * INTO v_upload FROM public.data_source_uploads WHERE id = p_upload_id;
+  SELECT * INTO v_source FROM public.data_sources WHERE id = v_upload.data_source_id FOR UPDATE;
+
+  DELETE FROM public.metrics
+  WHERE client_id = v_source.client_id
+    AND google_sheet_id IS NULL
+    AND data_source_id = v_source.id::TEXT;
+
+  GET DIAGNOSTICS v_removed = ROW_COUNT;
+
+  -- The last occurrence of a duplicate key in the file wins
+  INSERT INTO public.metrics (
+    user_id, client_id, date, category, metric_name, metric_type, value,
+    data_source, google_sheet_id, sheet_name, tab_name, tab_gid,
+    data_source_type, data_source_id, created_at, updated_at
+  )
+  SELECT DISTINCT ON (m.date, m.category, m.metric_name, m.metric_type)
+    v_upload.uploaded_by, v_source.client_id, m.date, m.category, m.metric_name, m.metric_type,
+    ROUND(m.value, 2),
+    'excel-import', NULL, v_source.name, v_source.name, '0',
+    CASE WHEN v_source.source_type = 'csv' THEN 'csv_import' ELSE 'excel_import' END,
+    v_source.id::TEXT, NOW(), NOW()
+  FROM (
+    SELECT
+      (e.row->>'date')::DATE AS date,
+      e.row->>'category' AS category,
+      e.row->>'metric_name' AS metric_name,
+      COALESCE(e.row->>'metric_type', 'actual') AS metric_type,
+      (e.row->>'value')::NUMERIC AS value,
+      e.idx
+    FROM jsonb_array_elements(v_upload.metrics) WITH ORDINALITY AS e(row, idx)
+  ) m
+  ORDER BY m.date, m.category, m.metric_name, m.metric_type, m.idx DESC;
+
+  GET DIAGNOSTICS v_inserted = ROW_COUNT;
+
+  -- Two statements: the partial unique index is checked row by row
+  UPDATE public.data_source_uploads
+  SET is_current = FALSE
+  WHERE data_source_id = v_source.id AND is_current AND id <> p_upload_id;
+
+  UPDATE public.data_source_uploads
+  SET is_current = TRUE
+  WHERE id = p_upload_id;
+
+  UPDATE public.data_sources
+  SET source_config = source_config || jsonb_build_object(
+        'file_name', v_upload.file_name,
+        'file_size', v_upload.file_size,
+        'uploaded_at', v_upload.uploaded_at,
+        'current_version', v_upload.version
+      ),
+      updated_at = NOW()
+  WHERE id = v_source.id;
+
+  RETURN QUERY SELECT v_inserted, v_removed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION apply_data_source_upload_version(UUID) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION check_data_source_upload_access(p_data_source_id UUID)
+RETURNS public.data_sources AS $$
+DECLARE
+  v_source public.data_sources%ROWTYPE;
+BEGIN
+  SELECT * INTO v_source FROM public.data_sources WHERE id = p_data_source_id;
+
+  IF v_source.id IS NULL THEN
+    RAISE EXCEPTION 'Data source not found';
+  END IF;
+
+  IF v_source.source_type NOT IN ('csv', 'xlsx') THEN
+    RAISE EXCEPTION 'Only file data sources accept uploads';
+  END IF;
+
+  IF NOT can_access_client(auth.uid(), v_source.client_id)
+    OR NOT has_permission(auth.uid(), 'canSyncData') THEN
+    RAISE EXCEPTION 'Not allowed to import data for this client';
+  END IF;
+
+  RETURN v_source;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+REVOKE EXECUTE ON FUNCTION check_data_source_upload_access(UUID) FROM PUBLIC;
+
+-- ==============================================
+-- UPLOAD / ROLLBACK
+-- ==============================================
+
+-- Stores a new version and makes it current
+CREATE OR REPLACE FUNCTION upload_data_source_file(
+  p_data_source_id UUID,
+  p_file_name TEXT,
+  p_file_size BIGINT,
+  p_row_count INTEGER,
+  p_columns TEXT[],
+  p_metrics JSONB
+)
+RETURNS TABLE(upload_id UUID, version INTEGER, metrics_inserted INTEGER, metrics_removed INTEGER) AS $$
+#variable_conflict use_column
+DECLARE
+  v_source public.data_sources%ROWTYPE;
+  v_upload_id UUID;
+  v_version INTEGER;
+BEGIN
+  v_source := check_data_source_upload_access(p_data_source_id);
+
+  IF jsonb_typeof(p_metrics) <> 'array' OR jsonb_array_length(p_metrics) = 0 THEN
+    RAISE EXCEPTION 'No metrics found in %', p_file_name;
+  END IF;
+
+  -- Serializes concurrent uploads to the same source
+  PERFORM 1 FROM public.data_sources WHERE id = p_data_source_id FOR UPDATE;
+
+  SELECT COALESCE(MAX(u.version), 0) + 1 INTO v_version
+  FROM public.data_source_uploads u
+  WHERE u.data_source_id = p_data_source_id;
+
+  INSERT INTO public.data_source_uploads (
+    data_source_id, client_id, version, file_name, file_size,
+    row_count, metric_count, metrics, uploaded_by
+  )
+  VALUES (
+    p_data_source_id, v_source.client_id, v_version, p_file_name, p_file_size,
+    COALESCE(p_row_count, 0), jsonb_array_length(p_metrics), p_metrics, auth.uid()
+  )
+  RETURNING id INTO v_upload_id;
+
+  UPDATE public.data_sources
+  SET source_config = source_config || jsonb_build_object('columns', to_jsonb(COALESCE(p_columns, '{}')))
+  WHERE id = p_data_source_id;
+
+  RETURN QUERY
+  SELECT v_upload_id, v_version, a.metrics_inserted, a.metrics_removed
+  FROM apply_data_source_upload_version(v_upload_id) a;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Makes an earlier version current again
+CREATE OR REPLACE FUNCTION rollback_data_source_upload(p_upload_id UUID)
+RETURNS TABLE(upload_id UUID, version INTEGER, metrics_inserted INTEGER, metrics_removed INTEGER) AS $$
+#variable_conflict use_column
+DECLARE
+  v_upload public.data_source_uploads%ROWTYPE;
+BEGIN
+  SELECT * INTO v_upload FROM public.data_source_uploads WHERE id = p_upload_id;
+
+  IF v_upload.id IS NULL THEN
+    RAISE EXCEPTION 'Upload not found';
+  END IF;
+
+  PERFORM check_data_source_upload_access(v_upload.data_source_id);
+
+  RETURN QUERY
+  SELECT v_upload.id, v_upload.version, a.metrics_inserted, a.metrics_removed
+  FROM apply_data_source_upload_version(v_upload.id) a;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION upload_data_source_file(UUID, TEXT, BIGINT, INTEGER, TEXT[], JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION rollback_data_source_upload(UUID) TO authenticated;
+
+-- ==============================================
+-- CLEANUP
+-- ==============================================
+-- A file data source's metrics only exist through its uploads, so they go
+-- with it. Google Sheets sources keep their synced rows as before.
+
+CREATE OR REPLACE FUNCTION delete_file_data_source_metrics()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.source_type IN ('csv', 'xlsx') THEN
+    DELETE FROM public.metrics
+    WHERE client_id = OLD.client_id
+      AND google_sheet_id IS NULL
+      AND data_source_id = OLD.id::TEXT;
+  END IF;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trg_delete_file_data_source_metrics ON public.data_sources;
+CREATE TRIGGER trg_delete_file_data_source_metrics
+  AFTER DELETE ON public.data_sources
+  FOR EACH ROW EXECUTE FUNCTION delete_file_data_source_metrics();
+
+-- ==============================================
+-- VERIFICATION
+-- ==============================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.tables
+    WHERE table_schema = 'public' AND table_name = 'data_source_uploads'
+  ) THEN
+    RAISE EXCEPTION 'Table data_source_uploads missing';
+  END IF;
+
+  RAISE NOTICE '✅ data_source_uploads, upload_data_source_file and rollback_data_source_upload created';
+END $$;
@@ -0,0 +1,281 @@
+-- ==============================================
+-- IDEMPOTENT FILE RE-IMPORT
+-- ==============================================
+-- Uploads are keyed by the data source (the logical source name, e.g.
+-- "Q1 Report - Leads") and the SHA-256 of the file content:
+--   * the same file again, parsed to the same metrics, is a no-op: no new
+--     version is stored and no rows are touched
+--   * a changed file is applied as a diff against the source's rows, and the
+--     upload records how many were added, updated and removed
+--
+-- Applying a version (upload or rollback) now updates rows in place instead of
+-- deleting and re-inserting them all.
+
+ALTER TABLE public.data_source_uploads
+  ADD COLUMN IF NOT EXISTS content_hash TEXT,
+  ADD COLUMN IF NOT EXISTS metrics_added INTEGER,
+  ADD COLUMN IF NOT EXISTS metrics_updated INTEGER,
+  ADD COLUMN IF NOT EXISTS metrics_removed INTEGER;
+
+COMMENT ON COLUMN public.data_source_uploads.content_hash IS 'SHA-256 (hex) of the uploaded file';
+COMMENT ON COLUMN public.data_source_uploads.metrics_added IS 'Rows added when this version was uploaded (NULL for uploads made before diffs were recorded)';
+
+-- ==============================================
+-- APPLYING A VERSION
+-- ==============================================
+
+DROP FUNCTION IF EXISTS upload_data_source_file(UUID, TEXT, BIGINT, INTEGER, TEXT[], JSONB);
+DROP FUNCTION IF EXISTS rollback_data_source_upload(UUID);
+DROP FUNCTION IF EXISTS apply_data_source_upload_version(UUID);
+
+-- Brings the data source's metrics in line with the given upload and marks it
+-- current. Internal: callers check permissions first.
+CREATE OR REPLACE FUNCTION apply_data_source_upload_version(p_upload_id UUID)
+RETURNS TABLE(metrics_added INTEGER, metrics_updated INTEGER, metrics_removed INTEGER, metrics_unchanged INTEGER) AS $$
+DECLARE
+  v_upload public.data_source_uploads%ROWTYPE;
+  v_source public.data_sources%ROWTYPE;
+  v_staged INTEGER := 0;
+  v_added INTEGER := 0;
+  v_updated INTEGER := 0;
+  v_removed INTEGER := 0;
+BEGIN
+  SELECT * INTO v_upload FROM public.data_source_uploads WHERE id = p_upload_id;
+  SELECT * INTO v_source FROM public.data_sources WHERE id = v_upload.data_source_id FOR UPDATE;
+
+  DROP TABLE IF EXISTS staged_upload_metrics;
+
+  -- The last occurrence of a duplicate key in the file wins
+  CREATE TEMP TABLE staged_upload_metrics ON COMMIT DROP AS
+  SELECT DISTINCT ON (date, category, metric_name, metric_type)
+    (e.row->>'date')::DATE AS date,
+    e.row->>'category' AS category,
+    e.row->>'metric_name' AS metric_name,
+    COALESCE(e.row->>'metric_type', 'actual') AS metric_type,
+    ROUND((e.row->>'value')::NUMERIC, 2)::NUMERIC(15,2) AS value
+  FROM jsonb_array_elements(v_upload.metrics) WITH ORDINALITY AS e(row, idx)
+  ORDER BY date, category, metric_name, metric_type, e.idx DESC;
+
+  GET DIAGNOSTICS v_staged = ROW_COUNT;
+
+  -- Rows that are no longer in the file
+  DELETE FROM public.metrics m
+  WHERE m.client_id = v_source.client_id
+  AND m.google_sheet_id IS NULL
+  AND m.data_source_id = v_source.id::TEXT
+  AND NOT EXISTS (
+    SELECT 1 FROM staged_upload_metrics s
+    WHERE s.date = m.date
+    AND s.category = m.category
+    AND s.metric_name = m.metric_name
+    AND s.metric_type = m.metric_type
+  );
+
+  GET DIAGNOSTICS v_removed = ROW_COUNT;
+
+  -- Rows whose value changed, or whose source was renamed
+  UPDATE public.metrics m
+  SET value = s.value,
+      sheet_name = v_source.name,
+      tab_name = v_source.name,
+      updated_at = NOW()
+  FROM staged_upload_metrics s
+  WHERE m.client_id = v_source.client_id
+  AND m.google_sheet_id IS NULL
+  AND m.data_source_id = v_source.id::TEXT
+  AND s.date = m.date
+  AND s.category = m.category
+  AND s.metric_name = m.metric_name
+  AND s.metric_type = m.metric_type
+  AND (
+    m.value IS DISTINCT FROM s.value OR
+    m.sheet_name IS DISTINCT FROM v_source.name OR
+    m.tab_name IS DISTINCT FROM v_source.name
+  );
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  -- Rows that are new to the source
+  INSERT INTO public.metrics (
+    user_id, client_id, date, category, metric_name, metric_type, value,
+    data_source, google_sheet_id, sheet_name, tab_name, tab_gid,
+    data_source_type, data_source_id, created_at, updated_at
+  )
+  SELECT
+    v_upload.uploaded_by, v_source.client_id, s.date, s.category, s.metric_name, s.metric_type, s.value,
+    'excel-import', NULL, v_source.name, v_source.name, '0',
+    CASE WHEN v_source.source_type = 'csv' THEN 'csv_import' ELSE 'excel_import' END,
+    v_source.id::TEXT, NOW(), NOW()
+  FROM staged_upload_metrics s
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.metrics m
+    WHERE m.client_id = v_source.client_id
+    AND m.google_sheet_id IS NULL
+    AND m.data_source_id = v_source.id::TEXT
+    AND m.date = s.date
+    AND m.category = s.category
+    AND m.metric_name = s.metric_name
+    AND m.metric_type = s.metric_type
+  );
+
+  GET DIAGNOSTICS v_added = ROW_COUNT;
+
+  -- Two statements: the partial unique index is checked row by row
+  UPDATE public.data_source_uploads
+  SET is_current = FALSE
+  WHERE data_source_id = v_source.id AND is_current AND id <> p_upload_id;
+
+  UPDATE public.data_source_uploads
+  SET is_current = TRUE
+  WHERE id = p_upload_id;
+
+  UPDATE public.data_sources
+  SET source_config = source_config || jsonb_build_object(
+        'file_name', v_upload.file_name,
+        'file_size', v_upload.file_size,
+        'uploaded_at', v_upload.uploaded_at,
+        'current_version', v_upload.version
+      ),
+      updated_at = NOW()
+  WHERE id = v_source.id;
+
+  RETURN QUERY SELECT v_added, v_updated, v_removed, v_staged - v_added - v_updated;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION apply_data_source_upload_version(UUID) FROM PUBLIC;
+
+-- ==============================================
+-- UPLOAD / ROLLBACK
+-- ==============================================
+
+-- Stores a new version and applies it, unless the current version is the same
+-- file parsed to the same metrics (unchanged = TRUE, nothing written)
+CREATE OR REPLACE FUNCTION upload_data_source_file(
+  p_data_source_id UUID,
+  p_file_name TEXT,
+  p_file_size BIGINT,
+  p_content_hash TEXT,
+  p_row_count INTEGER,
+  p_columns TEXT[],
+  p_metrics JSONB
+)
+RETURNS TABLE(
+  upload_id UUID,
+  version INTEGER,
+  unchanged BOOLEAN,
+  metrics_added INTEGER,
+  metrics_updated INTEGER,
+  metrics_removed INTEGER,
+  metrics_unchanged INTEGER
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_source public.data_sources%ROWTYPE;
+  v_current public.data_source_uploads%ROWTYPE;
+  v_upload_id UUID;
+  v_version INTEGER;
+  v_result RECORD;
+BEGIN
+  v_source := check_data_source_upload_access(p_data_source_id);
+
+  IF jsonb_typeof(p_metrics) <> 'array' OR jsonb_array_length(p_metrics) = 0 THEN
+    RAISE EXCEPTION 'No metrics found in %', p_file_name;
+  END IF;
+
+  -- Serializes concurrent uploads to the same source
+  PERFORM 1 FROM public.data_sources WHERE id = p_data_source_id FOR UPDATE;
+
+  SELECT * INTO v_current
+  FROM public.data_source_uploads u
+  WHERE u.data_source_id = p_data_source_id AND u.is_current;
+
+  -- Same bytes can still parse differently after a layout change, so the
+  -- metrics are compared too
+  IF v_current.id IS NOT NULL
+    AND v_current.content_hash = p_content_hash
+    AND v_current.metrics = p_metrics THEN
+    RETURN QUERY SELECT v_current.id, v_current.version, TRUE, 0, 0, 0, v_current.metric_count;
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(MAX(u.version), 0) + 1 INTO v_version
+  FROM public.data_source_uploads u
+  WHERE u.data_source_id = p_data_source_id;
+
+  INSERT INTO public.data_source_uploads (
+    data_source_id, client_id, version, file_name, file_size, content_hash,
+    row_count, metric_count, metrics, uploaded_by
+  )
+  VALUES (
+    p_data_source_id, v_source.client_id, v_version, p_file_name, p_file_size, p_content_hash,
+    COALESCE(p_row_count, 0), jsonb_array_length(p_metrics), p_metrics, auth.uid()
+  )
+  RETURNING id INTO v_upload_id;
+
+  UPDATE public.data_sources
+  SET source_config = source_config || jsonb_build_object('columns', to_jsonb(COALESCE(p_columns, '{}')))
+  WHERE id = p_data_source_id;
+
+  SELECT * INTO v_result FROM apply_data_source_upload_version(v_upload_id);
+
+  UPDATE public.data_source_uploads
+  SET metrics_added = v_result.metrics_added,
+      metrics_updated = v_result.metrics_updated,
+      metrics_removed = v_result.metrics_removed
+  WHERE id = v_upload_id;
+
+  RETURN QUERY SELECT
+    v_upload_id, v_version, FALSE,
+    v_result.metrics_added, v_result.metrics_updated, v_result.metrics_removed, v_result.metrics_unchanged;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Makes an earlier version current again
+CREATE OR REPLACE FUNCTION rollback_data_source_upload(p_upload_id UUID)
+RETURNS TABLE(
+  upload_id UUID,
+  version INTEGER,
+  unchanged BOOLEAN,
+  metrics_added INTEGER,
+  metrics_updated INTEGER,
+  metrics_removed INTEGER,
+  metrics_unchanged INTEGER
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_upload public.data_source_uploads%ROWTYPE;
+BEGIN
+  SELECT * INTO v_upload FROM public.data_source_uploads WHERE id = p_upload_id;
+
+  IF v_upload.id IS NULL THEN
+    RAISE EXCEPTION 'Upload not found';
+  END IF;
+
+  PERFORM check_data_source_upload_access(v_upload.data_source_id);
+
+  RETURN QUERY
+  SELECT v_upload.id, v_upload.version, FALSE,
+    a.metrics_added, a.metrics_updated, a.metrics_removed, a.metrics_unchanged
+  FROM apply_data_source_upload_version(v_upload.id) a;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION upload_data_source_file(UUID, TEXT, BIGINT, TEXT, INTEGER, TEXT[], JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION rollback_data_source_upload(UUID) TO authenticated;
+
+-- ==============================================
+-- VERIFICATION
+-- ==============================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'data_source_uploads' AND column_name = 'content_hash'
+  ) THEN
+    RAISE EXCEPTION 'Column data_source_uploads.content_hash missing';
+  END IF;
+
+  RAISE NOTICE '✅ data_source_uploads.content_hash added; uploads are idempotent and applied as diffs';
+END $$;
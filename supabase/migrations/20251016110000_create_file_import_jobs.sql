@@ -0,0 +1,284 @@
+-- ==============================================
+-- SERVER-SIDE FILE IMPORTS
+-- ==============================================
+-- Large workbooks froze the browser while parsing and could be left
+-- half-imported if the user navigated away. Files are now uploaded to the
+-- private data-source-files bucket and a file_import_jobs row is queued; the
+-- process-file-import edge function parses the file and stores it as the data
+-- source's next upload version in the background, reporting progress on the
+-- job row as it goes.
+--
+-- Object paths are <client_id>/<data_source_id>/<timestamp>-<file name>.
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('data-source-files', 'data-source-files', false, 104857600)
+ON CONFLICT (id) DO NOTHING;
+
+-- Whether the caller may upload and read files of the client that owns the
+-- first folder of the object path
+CREATE OR REPLACE FUNCTION can_access_data_source_file(p_object_name TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_client_id UUID;
+BEGIN
+  BEGIN
+    v_client_id := (storage.foldername(p_object_name))[1]::UUID;
+  EXCEPTION WHEN invalid_text_representation THEN
+    RETURN FALSE;
+  END;
+
+  RETURN can_access_client(auth.uid(), v_client_id)
+    AND has_permission(auth.uid(), 'canSyncData');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+DROP POLICY IF EXISTS "Data source files can be uploaded by client syncers" ON storage.objects;
+CREATE POLICY "Data source files can be uploaded by client syncers" ON storage.objects
+  FOR INSERT TO authenticated
+  WITH CHECK (bucket_id = 'data-source-files' AND can_access_data_source_file(name));
+
+DROP POLICY IF EXISTS "Data source files can be read by client syncers" ON storage.objects;
+CREATE POLICY "Data source files can be read by client syncers" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (bucket_id = 'data-source-files' AND can_access_data_source_file(name));
+
+-- ==============================================
+-- JOBS
+-- ==============================================
+
+CREATE TABLE IF NOT EXISTS public.file_import_jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    data_source_id UUID NOT NULL REFERENCES public.data_sources(id) ON DELETE CASCADE,
+    client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+    storage_path TEXT NOT NULL,
+    file_name TEXT NOT NULL,
+    file_size BIGINT,
+    -- queued -> processing -> completed | failed
+    status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'processing', 'completed', 'failed')),
+    stage TEXT, -- downloading, parsing, transforming, saving
+    progress INTEGER NOT NULL DEFAULT 0 CHECK (progress BETWEEN 0 AND 100),
+    rows_total INTEGER,
+    rows_processed INTEGER NOT NULL DEFAULT 0,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    -- upload_data_source_file's result: {upload_id, version, unchanged, metrics_added, ...}
+    result JSONB,
+    error_message TEXT,
+    created_by UUID,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    started_at TIMESTAMPTZ,
+    heartbeat_at TIMESTAMPTZ, -- Last progress update; stale processing jobs are picked up again
+    finished_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_file_import_jobs_source
+  ON public.file_import_jobs(data_source_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_file_import_jobs_pending
+  ON public.file_import_jobs(created_at) WHERE status IN ('queued', 'processing');
+
+COMMENT ON TABLE public.file_import_jobs IS 'Background parses of uploaded csv/xlsx files, run by the process-file-import edge function';
+
+ALTER TABLE public.file_import_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Written by the edge function with the service role only
+DROP POLICY IF EXISTS "Users can view import jobs for accessible clients" ON public.file_import_jobs;
+CREATE POLICY "Users can view import jobs for accessible clients" ON public.file_import_jobs
+  FOR SELECT TO authenticated
+  USING (can_access_client(auth.uid(), client_id));
+
+-- Queues a job for a file already uploaded to the source's folder
+CREATE OR REPLACE FUNCTION create_file_import_job(
+  p_data_source_id UUID,
+  p_storage_path TEXT,
+  p_file_name TEXT,
+  p_file_size BIGINT
+)
+RETURNS public.file_import_jobs AS $$
+DECLARE
+  v_source public.data_sources%ROWTYPE;
+  v_job public.file_import_jobs%ROWTYPE;
+BEGIN
+  v_source := check_data_source_upload_access(p_data_source_id);
+
+  IF p_storage_path NOT LIKE v_source.client_id::TEXT || '/' || v_source.id::TEXT || '/%' THEN
+    RAISE EXCEPTION 'File must be uploaded to the data source''s folder';
+  END IF;
+
+  INSERT INTO public.file_import_jobs (
+    data_source_id, client_id, storage_path, file_name, file_size, created_by
+  )
+  VALUES (
+    v_source.id, v_source.client_id, p_storage_path, p_file_name, p_file_size, auth.uid()
+  )
+  RETURNING * INTO v_job;
+
+  RETURN v_job;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION create_file_import_job(UUID, TEXT, TEXT, BIGINT) TO authenticated;
+
+-- ==============================================
+-- STORING AN UPLOAD
+-- ==============================================
+-- The body of upload_data_source_file moves to store_data_source_upload so
+-- the edge function (service role, no auth.uid()) can store a job's result on
+-- behalf of the user who queued it. Access is checked when the job is queued.
+
+CREATE OR REPLACE FUNCTION store_data_source_upload(
+  p_data_source_id UUID,
+  p_uploaded_by UUID,
+  p_file_name TEXT,
+  p_file_size BIGINT,
+  p_content_hash TEXT,
+  p_row_count INTEGER,
+  p_columns TEXT[],
+  p_metrics JSONB
+)
+RETURNS TABLE(
+  upload_id UUID,
+  version INTEGER,
+  unchanged BOOLEAN,
+  metrics_added INTEGER,
+  metrics_updated INTEGER,
+  metrics_removed INTEGER,
+  metrics_unchanged INTEGER
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_source public.data_sources%ROWTYPE;
+  v_current public.data_source_uploads%ROWTYPE;
+  v_upload_id UUID;
+  v_version INTEGER;
+  v_result RECORD;
+BEGIN
+  IF jsonb_typeof(p_metrics) <> 'array' OR jsonb_array_length(p_metrics) = 0 THEN
+    RAISE EXCEPTION 'No metrics found in %', p_file_name;
+  END IF;
+
+  -- Serializes concurrent uploads to the same source
+  SELECT * INTO v_source FROM public.data_sources WHERE id = p_data_source_id FOR UPDATE;
+
+  IF v_source.id IS NULL THEN
+    RAISE EXCEPTION 'Data source not found';
+  END IF;
+
+  SELECT * INTO v_current
+  FROM public.data_source_uploads u
+  WHERE u.data_source_id = p_data_source_id AND u.is_current;
+
+  -- Same bytes can still parse differently after a layout change, so the
+  -- metrics are compared too
+  IF v_current.id IS NOT NULL
+    AND v_current.content_hash = p_content_hash
+    AND v_current.metrics = p_metrics THEN
+    RETURN QUERY SELECT v_current.id, v_current.version, TRUE, 0, 0, 0, v_current.metric_count;
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(MAX(u.version), 0) + 1 INTO v_version
+  FROM public.data_source_uploads u
+  WHERE u.data_source_id = p_data_source_id;
+
+  INSERT INTO public.data_source_uploads (
+    data_source_id, client_id, version, file_name, file_size, content_hash,
+    row_count, metric_count, metrics, uploaded_by
+  )
+  VALUES (
+    p_data_source_id, v_source.client_id, v_version, p_file_name, p_file_size, p_content_hash,
+    COALESCE(p_row_count, 0), jsonb_array_length(p_metrics), p_metrics, p_uploaded_by
+  )
+  RETURNING id INTO v_upload_id;
+
+  UPDATE public.data_sources
+  SET source_config = source_config || jsonb_build_object('columns', to_jsonb(COALESCE(p_columns, '{}')))
+  WHERE id = p_data_source_id;
+
+  SELECT * INTO v_result FROM apply_data_source_upload_version(v_upload_id);
+
+  UPDATE public.data_source_uploads
+  SET metrics_added = v_result.metrics_added,
+      metrics_updated = v_result.metrics_updated,
+      metrics_removed = v_result.metrics_removed
+  WHERE id = v_upload_id;
+
+  RETURN QUERY SELECT
+    v_upload_id, v_version, FALSE,
+    v_result.metrics_added, v_result.metrics_updated, v_result.metrics_removed, v_result.metrics_unchanged;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION store_data_source_upload(UUID, UUID, TEXT, BIGINT, TEXT, INTEGER, TEXT[], JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION store_data_source_upload(UUID, UUID, TEXT, BIGINT, TEXT, INTEGER, TEXT[], JSONB) TO service_role;
+
+CREATE OR REPLACE FUNCTION upload_data_source_file(
+  p_data_source_id UUID,
+  p_file_name TEXT,
+  p_file_size BIGINT,
+  p_content_hash TEXT,
+  p_row_count INTEGER,
+  p_columns TEXT[],
+  p_metrics JSONB
+)
+RETURNS TABLE(
+  upload_id UUID,
+  version INTEGER,
+  unchanged BOOLEAN,
+  metrics_added INTEGER,
+  metrics_updated INTEGER,
+  metrics_removed INTEGER,
+  metrics_unchanged INTEGER
+) AS $$
+BEGIN
+  PERFORM check_data_source_upload_access(p_data_source_id);
+
+  RETURN QUERY
+  SELECT * FROM store_data_source_upload(
+    p_data_source_id, auth.uid(), p_file_name, p_file_size, p_content_hash, p_row_count, p_columns, p_metrics
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION upload_data_source_file(UUID, TEXT, BIGINT, TEXT, INTEGER, TEXT[], JSONB) TO authenticated;
+
+-- ==============================================
+-- ORPHANED JOBS
+-- ==============================================
+-- The browser starts each job right after queueing it. A job whose start
+-- request never arrived, or whose worker died, is picked up by calling the
+-- function with the service role key and no job_id. Scheduling this is a
+-- required deploy step (docs/deployment/NEW_INSTANCE_SETUP.md):
+--
+--   SELECT cron.schedule(
+--     'process-file-imports',
+--     '*/5 * * * *',
+--     $cron$
+--     SELECT net.http_post(
+--       url := 'https://<project-ref>.supabase.co/functions/v1/process-file-import',
+--       headers := jsonb_build_object(
+--         'Content-Type', 'application/json',
+--         'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+--       ),
+--       body := '{}'::jsonb
+--     );
+--     $cron$
+--   );
+
+-- ==============================================
+-- VERIFICATION
+-- ==============================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM storage.buckets WHERE id = 'data-source-files') THEN
+    RAISE EXCEPTION 'Storage bucket data-source-files missing';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.tables
+    WHERE table_schema = 'public' AND table_name = 'file_import_jobs'
+  ) THEN
+    RAISE EXCEPTION 'Table file_import_jobs missing';
+  END IF;
+
+  RAISE NOTICE '✅ file_import_jobs and the data-source-files bucket created';
+END $$;
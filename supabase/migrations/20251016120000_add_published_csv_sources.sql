@@ -0,0 +1,99 @@
+-- ==============================================
+-- PUBLISHED CSV DATA SOURCES
+-- ==============================================
+-- Some clients won't share their spreadsheets with the service account but
+-- will publish a tab to the web as CSV. A published_csv data source keeps that
+-- link in source_config.csv_url and is synced by google-metric-sync-enhanced
+-- like a Google Sheets tab (same parsing, run history and schedule), reading
+-- the public link instead of the Sheets API.
+--
+-- source_config.spreadsheet_id is the document's publish id for Google links,
+-- so a document's published tabs are synced in one scheduled batch.
+
+ALTER TABLE public.data_sources DROP CONSTRAINT IF EXISTS data_sources_source_type_check;
+ALTER TABLE public.data_sources ADD CONSTRAINT data_sources_source_type_check
+  CHECK (source_type IN ('google_sheets', 'published_csv', 'csv', 'xlsx'));
+
+-- Metrics keep their source type so the sheet selector can label them
+ALTER TABLE public.metrics DROP CONSTRAINT IF EXISTS metrics_data_source_type_check;
+ALTER TABLE public.metrics ADD CONSTRAINT metrics_data_source_type_check
+  CHECK (data_source_type IN ('google_sheets', 'published_csv', 'excel_import', 'csv_import'));
+
+COMMENT ON COLUMN public.sync_runs.error_reason IS 'Failed runs only: rate_limited, server_error, network, not_shared, not_published, not_found, invalid_range, unauthorized, bad_request, no_data, sync_error';
+
+-- ==============================================
+-- DUE DATA SOURCES FOR THE SCHEDULER
+-- ==============================================
+-- Same as before, for published_csv sources too
+
+CREATE OR REPLACE FUNCTION get_due_data_sources(p_limit INTEGER DEFAULT 50)
+RETURNS TABLE(
+  data_source_id UUID,
+  client_id UUID,
+  user_id UUID,
+  google_sheet_id TEXT,
+  sheet_name TEXT,
+  sync_frequency TEXT,
+  last_sync_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    ds.id,
+    ds.client_id,
+    COALESCE(ss.user_id, ds.created_by, c.owner_id),
+    ds.source_config->>'spreadsheet_id',
+    ds.source_config->>'sheet_name',
+    COALESCE(ds.source_config->>'sync_frequency', 'daily'),
+    ss.last_sync_at
+  FROM public.data_sources ds
+  JOIN public.clients c ON c.id = ds.client_id
+  LEFT JOIN LATERAL (
+    SELECT s.user_id, s.last_sync_at, s.sync_status
+    FROM public.sync_status s
+    WHERE s.client_id = ds.client_id
+    AND s.google_sheet_id = ds.source_config->>'spreadsheet_id'
+    AND s.sheet_name = ds.source_config->>'sheet_name'
+    ORDER BY s.last_sync_at DESC NULLS LAST
+    LIMIT 1
+  ) ss ON TRUE
+  WHERE ds.is_active = TRUE
+  AND ds.source_type IN ('google_sheets', 'published_csv')
+  AND COALESCE((ds.source_config->>'auto_sync')::BOOLEAN, FALSE) = TRUE
+  AND ds.source_config->>'spreadsheet_id' IS NOT NULL
+  AND ds.source_config->>'sheet_name' IS NOT NULL
+  AND COALESCE(ss.user_id, ds.created_by, c.owner_id) IS NOT NULL
+  -- Skip sources with a run in flight (a stuck 'syncing' row is retried after 30 minutes)
+  AND NOT (ss.sync_status = 'syncing' AND ss.last_sync_at > NOW() - INTERVAL '30 minutes')
+  AND (
+    ss.last_sync_at IS NULL OR
+    ss.last_sync_at <= NOW() - CASE COALESCE(ds.source_config->>'sync_frequency', 'daily')
+      WHEN 'weekly' THEN INTERVAL '7 days'
+      WHEN 'monthly' THEN INTERVAL '1 month'
+      ELSE INTERVAL '1 day'
+    END
+  )
+  ORDER BY ss.last_sync_at ASC NULLS FIRST
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION get_due_data_sources(INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_due_data_sources(INTEGER) TO service_role;
+
+-- ==============================================
+-- VERIFICATION
+-- ==============================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'data_sources_source_type_check'
+    AND pg_get_constraintdef(oid) LIKE '%published_csv%'
+  ) THEN
+    RAISE EXCEPTION 'data_sources.source_type does not allow published_csv';
+  END IF;
+
+  RAISE NOTICE '✅ published_csv data sources enabled and scheduled';
+END $$;
@@ -0,0 +1,269 @@
+-- ==============================================
+-- CLIENT API KEYS AND METRICS INGESTION
+-- ==============================================
+-- Some clients' numbers live in CRMs and call trackers that can POST data but
+-- can't keep a spreadsheet up to date. They send batches to the
+-- ingest-metrics edge function, authenticated with an API key issued for one
+-- client. Their rows are stored in metrics with data_source_type 'webhook'.
+--
+-- Only a SHA-256 hash of each key is stored. The key itself is returned once,
+-- by create_client_api_key, and can't be shown again.
+
+CREATE TABLE IF NOT EXISTS public.client_api_keys (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    -- First characters of the key, to tell keys apart in the list
+    key_prefix TEXT NOT NULL,
+    key_hash TEXT NOT NULL UNIQUE,
+    scopes TEXT[] NOT NULL DEFAULT ARRAY['metrics:write']::TEXT[],
+    created_by UUID,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    last_used_at TIMESTAMPTZ,
+    revoked_at TIMESTAMPTZ,
+    revoked_by UUID,
+    CONSTRAINT client_api_keys_scopes_check
+      CHECK (cardinality(scopes) > 0 AND scopes <@ ARRAY['metrics:write']::TEXT[])
+);
+
+CREATE INDEX IF NOT EXISTS idx_client_api_keys_client
+  ON public.client_api_keys(client_id, created_at DESC);
+
+COMMENT ON TABLE public.client_api_keys IS 'API keys for pushing metrics into one client; only the key hash is stored';
+COMMENT ON COLUMN public.client_api_keys.scopes IS 'metrics:write (ingest-metrics)';
+
+-- Webhook rows keep their own source type
+ALTER TABLE public.metrics DROP CONSTRAINT IF EXISTS metrics_data_source_type_check;
+ALTER TABLE public.metrics ADD CONSTRAINT metrics_data_source_type_check
+  CHECK (data_source_type IN ('google_sheets', 'published_csv', 'excel_import', 'csv_import', 'webhook'));
+
+ALTER TABLE public.metrics DROP CONSTRAINT IF EXISTS metrics_data_source_check;
+ALTER TABLE public.metrics ADD CONSTRAINT metrics_data_source_check
+  CHECK (data_source = ANY (ARRAY['google-sheets', 'excel-import', 'webhook']));
+
+-- ==============================================
+-- ACCESS
+-- ==============================================
+-- Global admins and client admins manage a client's keys. Writes go through
+-- create_client_api_key / revoke_client_api_key.
+
+CREATE OR REPLACE FUNCTION can_manage_client_api_keys(p_user_id UUID, p_client_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN is_global_admin(p_user_id) OR EXISTS (
+    SELECT 1 FROM public.userRoles ur
+    JOIN public.roles r ON ur.role_id = r.id
+    WHERE ur.user_id = p_user_id
+    AND r.name = 'admin'
+    AND ur.client_id = p_client_id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+GRANT EXECUTE ON FUNCTION can_manage_client_api_keys(UUID, UUID) TO authenticated;
+
+ALTER TABLE public.client_api_keys ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can read client api keys" ON public.client_api_keys;
+CREATE POLICY "Admins can read client api keys" ON public.client_api_keys
+  FOR SELECT TO authenticated
+  USING (can_manage_client_api_keys(auth.uid(), client_id));
+
+-- ==============================================
+-- ISSUE / REVOKE
+-- ==============================================
+
+-- Issues a key for the client and returns it. This is the only time the key
+-- is available in plain text.
+CREATE OR REPLACE FUNCTION create_client_api_key(
+  p_client_id UUID,
+  p_name TEXT,
+  p_scopes TEXT[] DEFAULT ARRAY['metrics:write']::TEXT[]
+)
+RETURNS TABLE(id UUID, api_key TEXT) AS $$
+DECLARE
+  v_key TEXT;
+  v_id UUID;
+BEGIN
+  IF NOT can_manage_client_api_keys(auth.uid(), p_client_id) THEN
+    RAISE EXCEPTION 'Not allowed to manage API keys for this client';
+  END IF;
+
+  IF COALESCE(btrim(p_name), '') = '' THEN
+    RAISE EXCEPTION 'Key name is required';
+  END IF;
+
+  -- 256 random bits from two v4 UUIDs (244 of them random)
+  v_key := 'mk_' || replace(gen_random_uuid()::TEXT, '-', '') || replace(gen_random_uuid()::TEXT, '-', '');
+
+  INSERT INTO public.client_api_keys (client_id, name, key_prefix, key_hash, scopes, created_by)
+  VALUES (
+    p_client_id,
+    btrim(p_name),
+    left(v_key, 11),
+    encode(sha256(convert_to(v_key, 'UTF8')), 'hex'),
+    COALESCE(p_scopes, ARRAY['metrics:write']::TEXT[]),
+    auth.uid()
+  )
+  RETURNING client_api_keys.id INTO v_id;
+
+  RETURN QUERY SELECT v_id, v_key;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Revoked keys stay listed (with their last use) but no longer authenticate
+CREATE OR REPLACE FUNCTION revoke_client_api_key(p_key_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_client_id UUID;
+BEGIN
+  SELECT client_id INTO v_client_id FROM public.client_api_keys WHERE id = p_key_id;
+
+  IF v_client_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF NOT can_manage_client_api_keys(auth.uid(), v_client_id) THEN
+    RAISE EXCEPTION 'Not allowed to manage API keys for this client';
+  END IF;
+
+  UPDATE public.client_api_keys
+  SET revoked_at = NOW(),
+      revoked_by = auth.uid()
+  WHERE id = p_key_id AND revoked_at IS NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION create_client_api_key(UUID, TEXT, TEXT[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION revoke_client_api_key(UUID) TO authenticated;
+
+-- ==============================================
+-- INGESTION (SERVICE ROLE ONLY)
+-- ==============================================
+
+-- The active key matching p_api_key, marked as used. No row means the key is
+-- unknown or revoked. user_id is who metrics pushed with the key belong to.
+CREATE OR REPLACE FUNCTION authenticate_client_api_key(p_api_key TEXT)
+RETURNS TABLE(key_id UUID, client_id UUID, name TEXT, scopes TEXT[], user_id UUID) AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.client_api_keys k
+  SET last_used_at = NOW()
+  FROM public.clients c
+  WHERE c.id = k.client_id
+    AND k.key_hash = encode(sha256(convert_to(p_api_key, 'UTF8')), 'hex')
+    AND k.revoked_at IS NULL
+  RETURNING k.id, k.client_id, k.name, k.scopes, COALESCE(k.created_by, c.owner_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Upserts validated rows [{date, category, metric_name, metric_type, value}]
+-- for the key's client. Webhook metrics are one set per client whichever key
+-- sent them: a reissued key updates the same rows, and data_source_id records
+-- the key that last wrote each one. The last occurrence of a duplicate key in
+-- the batch wins.
+CREATE OR REPLACE FUNCTION ingest_client_metrics(p_key_id UUID, p_rows JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_key RECORD;
+  v_staged INTEGER := 0;
+  v_inserted INTEGER := 0;
+  v_updated INTEGER := 0;
+BEGIN
+  SELECT k.id, k.client_id, COALESCE(k.created_by, c.owner_id) AS user_id
+  INTO v_key
+  FROM public.client_api_keys k
+  JOIN public.clients c ON c.id = k.client_id
+  WHERE k.id = p_key_id AND k.revoked_at IS NULL;
+
+  IF v_key.id IS NULL THEN
+    RAISE EXCEPTION 'API key not found or revoked';
+  END IF;
+
+  DROP TABLE IF EXISTS staged_webhook_metrics;
+
+  CREATE TEMP TABLE staged_webhook_metrics ON COMMIT DROP AS
+  SELECT DISTINCT ON (date, category, metric_name, metric_type)
+    (e.row->>'date')::DATE AS date,
+    e.row->>'category' AS category,
+    e.row->>'metric_name' AS metric_name,
+    COALESCE(e.row->>'metric_type', 'actual') AS metric_type,
+    ROUND((e.row->>'value')::NUMERIC, 2)::NUMERIC(15,2) AS value
+  FROM jsonb_array_elements(p_rows) WITH ORDINALITY AS e(row, idx)
+  ORDER BY date, category, metric_name, metric_type, e.idx DESC;
+
+  GET DIAGNOSTICS v_staged = ROW_COUNT;
+
+  UPDATE public.metrics m
+  SET value = s.value,
+      data_source_id = v_key.id::TEXT,
+      updated_at = NOW()
+  FROM staged_webhook_metrics s
+  WHERE m.client_id = v_key.client_id
+  AND m.data_source_type = 'webhook'
+  AND m.date = s.date
+  AND m.category = s.category
+  AND m.metric_name = s.metric_name
+  AND m.metric_type = s.metric_type
+  AND m.value IS DISTINCT FROM s.value;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  INSERT INTO public.metrics (
+    user_id, client_id, date, category, metric_name, metric_type, value,
+    data_source, google_sheet_id, sheet_name, tab_name, tab_gid,
+    data_source_type, data_source_id, created_at, updated_at
+  )
+  SELECT
+    v_key.user_id, v_key.client_id, s.date, s.category, s.metric_name, s.metric_type, s.value,
+    'webhook', NULL, 'Webhook', 'Webhook', '0',
+    'webhook', v_key.id::TEXT, NOW(), NOW()
+  FROM staged_webhook_metrics s
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.metrics m
+    WHERE m.client_id = v_key.client_id
+    AND m.data_source_type = 'webhook'
+    AND m.date = s.date
+    AND m.category = s.category
+    AND m.metric_name = s.metric_name
+    AND m.metric_type = s.metric_type
+  );
+
+  GET DIAGNOSTICS v_inserted = ROW_COUNT;
+
+  RETURN jsonb_build_object(
+    'inserted', v_inserted,
+    'updated', v_updated,
+    'unchanged', v_staged - v_inserted - v_updated
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION authenticate_client_api_key(TEXT) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION ingest_client_metrics(UUID, JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION authenticate_client_api_key(TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION ingest_client_metrics(UUID, JSONB) TO service_role;
+
+-- ==============================================
+-- VERIFICATION
+-- ==============================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.tables
+    WHERE table_schema = 'public' AND table_name = 'client_api_keys'
+  ) THEN
+    RAISE EXCEPTION 'Table client_api_keys missing';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'metrics_data_source_type_check'
+    AND pg_get_constraintdef(oid) LIKE '%webhook%'
+  ) THEN
+    RAISE EXCEPTION 'metrics.data_source_type does not allow webhook';
+  END IF;
+
+  RAISE NOTICE '✅ client_api_keys and metrics ingestion functions created';
+END $$;
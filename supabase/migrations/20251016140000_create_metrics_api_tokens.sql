@@ -0,0 +1,249 @@
+-- ==============================================
+-- METRICS API TOKENS
+-- ==============================================
+-- Long-lived tokens for the read-only metrics API (the metrics-api edge
+-- function), for clients and BI tools that pull metrics programmatically.
+-- A token belongs to the user who minted it and is scoped to a list of
+-- clients. Minting one for a client requires canExportData on that client.
+-- The check runs again on every request, so a token stops working for a
+-- client when its owner loses access to it.
+--
+-- Only a SHA-256 hash of each token is stored. The token itself is returned
+-- once, by create_metrics_api_token.
+
+CREATE TABLE IF NOT EXISTS public.metrics_api_tokens (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL,
+    -- First characters of the token, to tell tokens apart in the list
+    token_prefix TEXT NOT NULL,
+    token_hash TEXT NOT NULL UNIQUE,
+    client_ids UUID[] NOT NULL,
+    created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMPTZ,
+    last_used_at TIMESTAMPTZ,
+    revoked_at TIMESTAMPTZ,
+    CONSTRAINT metrics_api_tokens_client_ids_check CHECK (cardinality(client_ids) > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_metrics_api_tokens_created_by
+  ON public.metrics_api_tokens(created_by, created_at DESC);
+
+COMMENT ON TABLE public.metrics_api_tokens IS 'Read-only metrics API tokens scoped to clients; only the token hash is stored';
+
+-- ==============================================
+-- ACCESS
+-- ==============================================
+
+CREATE OR REPLACE FUNCTION can_export_client_data(p_user_id UUID, p_client_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN can_access_client(p_user_id, p_client_id)
+    AND COALESCE(get_user_permissions(p_user_id, p_client_id)->>'canExportData', 'false') = 'true';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+GRANT EXECUTE ON FUNCTION can_export_client_data(UUID, UUID) TO authenticated;
+
+-- Users see their own tokens, global admins see everyone's.
+-- Writes go through create_metrics_api_token / revoke_metrics_api_token.
+ALTER TABLE public.metrics_api_tokens ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read their metrics api tokens" ON public.metrics_api_tokens;
+CREATE POLICY "Users can read their metrics api tokens" ON public.metrics_api_tokens
+  FOR SELECT TO authenticated
+  USING (created_by = auth.uid() OR is_global_admin(auth.uid()));
+
+-- ==============================================
+-- MINT / REVOKE
+-- ==============================================
+
+-- Mints a token for the given clients and returns it. This is the only time
+-- the token is available in plain text.
+CREATE OR REPLACE FUNCTION create_metrics_api_token(
+  p_name TEXT,
+  p_client_ids UUID[],
+  p_expires_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE(id UUID, api_token TEXT) AS $$
+DECLARE
+  v_client_id UUID;
+  v_token TEXT;
+  v_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF COALESCE(btrim(p_name), '') = '' THEN
+    RAISE EXCEPTION 'Token name is required';
+  END IF;
+
+  IF COALESCE(cardinality(p_client_ids), 0) = 0 THEN
+    RAISE EXCEPTION 'Choose at least one client';
+  END IF;
+
+  IF p_expires_at IS NOT NULL AND p_expires_at <= NOW() THEN
+    RAISE EXCEPTION 'Expiry must be in the future';
+  END IF;
+
+  FOREACH v_client_id IN ARRAY p_client_ids LOOP
+    IF NOT can_export_client_data(auth.uid(), v_client_id) THEN
+      RAISE EXCEPTION 'Not allowed to export data for client %',
+        COALESCE((SELECT name FROM public.clients WHERE clients.id = v_client_id), v_client_id::TEXT);
+    END IF;
+  END LOOP;
+
+  -- 256 random bits from two v4 UUIDs (244 of them random)
+  v_token := 'mr_' || replace(gen_random_uuid()::TEXT, '-', '') || replace(gen_random_uuid()::TEXT, '-', '');
+
+  INSERT INTO public.metrics_api_tokens (name, token_prefix, token_hash, client_ids, created_by, expires_at)
+  VALUES (
+    btrim(p_name),
+    left(v_token, 11),
+    encode(sha256(convert_to(v_token, 'UTF8')), 'hex'),
+    ARRAY(SELECT DISTINCT unnest(p_client_ids)),
+    auth.uid(),
+    p_expires_at
+  )
+  RETURNING metrics_api_tokens.id INTO v_id;
+
+  RETURN QUERY SELECT v_id, v_token;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Revoked tokens stay listed (with their last use) but no longer authenticate
+CREATE OR REPLACE FUNCTION revoke_metrics_api_token(p_token_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_created_by UUID;
+BEGIN
+  SELECT created_by INTO v_created_by FROM public.metrics_api_tokens WHERE id = p_token_id;
+
+  IF v_created_by IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF v_created_by <> auth.uid() AND NOT is_global_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Not allowed to revoke this token';
+  END IF;
+
+  UPDATE public.metrics_api_tokens
+  SET revoked_at = NOW()
+  WHERE id = p_token_id AND revoked_at IS NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION create_metrics_api_token(TEXT, UUID[], TIMESTAMPTZ) TO authenticated;
+GRANT EXECUTE ON FUNCTION revoke_metrics_api_token(UUID) TO authenticated;
+
+-- ==============================================
+-- API LOOKUPS (SERVICE ROLE ONLY)
+-- ==============================================
+
+-- The active token matching p_api_token, marked as used, with the clients its
+-- owner can still export. No row means the token is unknown, revoked or
+-- expired.
+CREATE OR REPLACE FUNCTION authenticate_metrics_api_token(p_api_token TEXT)
+RETURNS TABLE(token_id UUID, user_id UUID, client_ids UUID[]) AS $$
+DECLARE
+  v_token public.metrics_api_tokens%ROWTYPE;
+BEGIN
+  UPDATE public.metrics_api_tokens t
+  SET last_used_at = NOW()
+  WHERE t.token_hash = encode(sha256(convert_to(p_api_token, 'UTF8')), 'hex')
+    AND t.revoked_at IS NULL
+    AND (t.expires_at IS NULL OR t.expires_at > NOW())
+  RETURNING t.* INTO v_token;
+
+  IF v_token.id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT v_token.id, v_token.created_by, ARRAY(
+    SELECT c.id FROM unnest(v_token.client_ids) AS c(id)
+    WHERE can_export_client_data(v_token.created_by, c.id)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- A client's metrics aggregated per day, ISO week (from Monday) or month.
+-- Rows are kept apart by metric, category and metric_type; the filters are
+-- the same as for unaggregated rows in metrics-api, which asks for one row
+-- more than the page size to know whether there is another page.
+CREATE OR REPLACE FUNCTION aggregate_client_metrics(
+  p_client_id UUID,
+  p_granularity TEXT,
+  p_from DATE DEFAULT NULL,
+  p_to DATE DEFAULT NULL,
+  p_categories TEXT[] DEFAULT NULL,
+  p_sheet_names TEXT[] DEFAULT NULL,
+  p_metric_names TEXT[] DEFAULT NULL,
+  p_limit INTEGER DEFAULT 1000,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE(
+  period_start DATE,
+  metric_name TEXT,
+  category TEXT,
+  metric_type TEXT,
+  value_sum NUMERIC,
+  value_avg NUMERIC,
+  value_min NUMERIC,
+  value_max NUMERIC,
+  row_count INTEGER
+) AS $$
+BEGIN
+  IF p_granularity NOT IN ('day', 'week', 'month') THEN
+    RAISE EXCEPTION 'Granularity must be day, week or month';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    CASE p_granularity
+      WHEN 'day' THEN m.date
+      ELSE date_trunc(p_granularity, m.date::TIMESTAMP)::DATE
+    END AS period,
+    m.metric_name::TEXT,
+    m.category::TEXT,
+    m.metric_type,
+    SUM(m.value),
+    ROUND(AVG(m.value), 4),
+    MIN(m.value),
+    MAX(m.value),
+    COUNT(*)::INTEGER
+  FROM public.metrics m
+  WHERE m.client_id = p_client_id
+    AND (p_from IS NULL OR m.date >= p_from)
+    AND (p_to IS NULL OR m.date <= p_to)
+    AND (p_categories IS NULL OR m.category = ANY(p_categories))
+    AND (p_sheet_names IS NULL OR m.sheet_name = ANY(p_sheet_names))
+    AND (p_metric_names IS NULL OR m.metric_name = ANY(p_metric_names))
+  GROUP BY 1, 2, 3, 4
+  ORDER BY 1, 2, 3, 4
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+REVOKE EXECUTE ON FUNCTION authenticate_metrics_api_token(TEXT) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION aggregate_client_metrics(UUID, TEXT, DATE, DATE, TEXT[], TEXT[], TEXT[], INTEGER, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION authenticate_metrics_api_token(TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION aggregate_client_metrics(UUID, TEXT, DATE, DATE, TEXT[], TEXT[], TEXT[], INTEGER, INTEGER) TO service_role;
+
+-- ==============================================
+-- VERIFICATION
+-- ==============================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.tables
+    WHERE table_schema = 'public' AND table_name = 'metrics_api_tokens'
+  ) THEN
+    RAISE EXCEPTION 'Table metrics_api_tokens missing';
+  END IF;
+
+  RAISE NOTICE '✅ metrics_api_tokens and metrics API functions created';
+END $$;
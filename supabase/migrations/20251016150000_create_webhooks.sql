@@ -0,0 +1,609 @@
+-- ==============================================
+-- OUTGOING WEBHOOKS
+-- ==============================================
+-- Lets other systems react to what happens to a client's data:
+--
+--   sync.completed / sync.failed  - emitted by google-metric-sync-enhanced
+--                                   when a sync run finishes
+--   goal.hit / goal.missed        - emitted by evaluate_client_goals when a
+--                                   monthly target is reached, or a month
+--                                   ends without reaching it
+--
+-- Endpoints belong to a client or, with client_id NULL, are global and
+-- receive every client's events. Each event is queued as one delivery per
+-- matching endpoint and sent by the deliver-webhooks edge function, which
+-- signs the body with the endpoint's secret and retries failed deliveries
+-- with backoff. Deliveries are kept as a log and can be replayed.
+--
+-- Signing secrets are stored encrypted in Supabase Vault. They are returned
+-- once, when an endpoint is created or its secret rotated, and otherwise
+-- only read back by claim_webhook_deliveries (service role).
+--
+-- Client admins can register endpoints, so URLs must name a public host:
+-- no IP addresses, credentials or internal names. deliver-webhooks checks the
+-- resolved addresses again, doesn't follow redirects and only keeps the
+-- response status.
+
+CREATE OR REPLACE FUNCTION is_public_webhook_url(p_url TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_host TEXT := lower(substring(p_url from '^https://([^/?#@:]+)(?::[0-9]+)?(?:[/?#]|$)'));
+BEGIN
+  RETURN v_host IS NOT NULL
+    AND v_host LIKE '%.%'
+    AND v_host !~ '^[0-9.]+$'
+    AND v_host !~ '\.(localhost|local|internal|lan|home|corp)$';
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE TABLE IF NOT EXISTS public.webhook_endpoints (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    client_id UUID REFERENCES public.clients(id) ON DELETE CASCADE,
+    url TEXT NOT NULL,
+    description TEXT,
+    event_types TEXT[] NOT NULL,
+    secret_id UUID NOT NULL,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_by UUID,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT webhook_endpoints_url_check CHECK (is_public_webhook_url(url)),
+    CONSTRAINT webhook_endpoints_event_types_check CHECK (
+      cardinality(event_types) > 0
+      AND event_types <@ ARRAY['sync.completed', 'sync.failed', 'goal.hit', 'goal.missed']
+    )
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_client
+  ON public.webhook_endpoints(client_id);
+
+COMMENT ON TABLE public.webhook_endpoints IS 'Outgoing webhook endpoints per client (client_id NULL = all clients); signing secrets live in vault.secrets';
+
+CREATE TABLE IF NOT EXISTS public.webhook_deliveries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    endpoint_id UUID NOT NULL REFERENCES public.webhook_endpoints(id) ON DELETE CASCADE,
+    client_id UUID REFERENCES public.clients(id) ON DELETE CASCADE,
+    -- Shared by every delivery (and replay) of the same event, so receivers
+    -- can drop duplicates
+    event_id UUID NOT NULL,
+    event_type TEXT NOT NULL,
+    payload JSONB NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    last_attempt_at TIMESTAMPTZ,
+    response_status INTEGER,
+    error_message TEXT,
+    replay_of UUID REFERENCES public.webhook_deliveries(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    delivered_at TIMESTAMPTZ,
+    CONSTRAINT webhook_deliveries_status_check CHECK (status IN ('pending', 'delivering', 'succeeded', 'failed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due
+  ON public.webhook_deliveries(next_attempt_at) WHERE status IN ('pending', 'delivering');
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint
+  ON public.webhook_deliveries(endpoint_id, created_at DESC);
+
+COMMENT ON TABLE public.webhook_deliveries IS 'Webhook delivery log: one row per event and endpoint, updated on each attempt';
+
+-- Goal outcomes already reported, so each goal is hit or missed at most once
+-- a month
+CREATE TABLE IF NOT EXISTS public.goal_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+    goal_key TEXT NOT NULL,
+    month DATE NOT NULL,
+    status TEXT NOT NULL,
+    value NUMERIC NOT NULL,
+    target NUMERIC NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT goal_events_status_check CHECK (status IN ('hit', 'missed')),
+    CONSTRAINT goal_events_unique UNIQUE (client_id, goal_key, month)
+);
+
+COMMENT ON TABLE public.goal_events IS 'Monthly goal outcomes reported as goal.hit / goal.missed webhook events';
+
+-- ==============================================
+-- ACCESS
+-- ==============================================
+-- Global endpoints are for global admins; a client's endpoints are also
+-- managed by its client admins. Writes go through the functions below.
+
+CREATE OR REPLACE FUNCTION can_manage_webhooks(p_user_id UUID, p_client_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF p_client_id IS NULL THEN
+    RETURN is_global_admin(p_user_id);
+  END IF;
+
+  RETURN is_global_admin(p_user_id) OR EXISTS (
+    SELECT 1 FROM public.userRoles ur
+    JOIN public.roles r ON ur.role_id = r.id
+    WHERE ur.user_id = p_user_id
+    AND r.name = 'admin'
+    AND ur.client_id = p_client_id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+GRANT EXECUTE ON FUNCTION can_manage_webhooks(UUID, UUID) TO authenticated;
+
+ALTER TABLE public.webhook_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.goal_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can read webhook endpoints" ON public.webhook_endpoints;
+CREATE POLICY "Admins can read webhook endpoints" ON public.webhook_endpoints
+  FOR SELECT TO authenticated
+  USING (can_manage_webhooks(auth.uid(), client_id));
+
+DROP POLICY IF EXISTS "Admins can read webhook deliveries" ON public.webhook_deliveries;
+CREATE POLICY "Admins can read webhook deliveries" ON public.webhook_deliveries
+  FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.webhook_endpoints e
+    WHERE e.id = webhook_deliveries.endpoint_id
+    AND can_manage_webhooks(auth.uid(), e.client_id)
+  ));
+
+DROP POLICY IF EXISTS "Users can read goal events for their clients" ON public.goal_events;
+CREATE POLICY "Users can read goal events for their clients" ON public.goal_events
+  FOR SELECT TO authenticated
+  USING (can_access_client(auth.uid(), client_id));
+
+-- Vault secrets go with their endpoint row (including cascaded deletes)
+CREATE OR REPLACE FUNCTION delete_webhook_endpoint_secret()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM vault.secrets WHERE id = OLD.secret_id;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trg_delete_webhook_endpoint_secret ON public.webhook_endpoints;
+CREATE TRIGGER trg_delete_webhook_endpoint_secret
+  AFTER DELETE ON public.webhook_endpoints
+  FOR EACH ROW EXECUTE FUNCTION delete_webhook_endpoint_secret();
+
+-- ==============================================
+-- SAVE / DELETE
+-- ==============================================
+
+-- Creates an endpoint (p_endpoint_id NULL) or updates one. signing_secret is
+-- only returned on create; updates keep the secret.
+CREATE OR REPLACE FUNCTION save_webhook_endpoint(
+  p_endpoint_id UUID,
+  p_client_id UUID,
+  p_url TEXT,
+  p_description TEXT,
+  p_event_types TEXT[],
+  p_is_active BOOLEAN DEFAULT TRUE
+)
+RETURNS TABLE(id UUID, signing_secret TEXT) AS $$
+DECLARE
+  v_existing public.webhook_endpoints%ROWTYPE;
+  v_secret TEXT;
+  v_secret_id UUID;
+  v_id UUID;
+BEGIN
+  IF NOT can_manage_webhooks(auth.uid(), p_client_id) THEN
+    RAISE EXCEPTION 'Not allowed to manage webhooks for this client';
+  END IF;
+
+  IF NOT COALESCE(is_public_webhook_url(btrim(p_url)), FALSE) THEN
+    RAISE EXCEPTION 'Webhook URL must be https:// on a public host name (no IP addresses, credentials or internal hosts)';
+  END IF;
+
+  IF COALESCE(cardinality(p_event_types), 0) = 0 THEN
+    RAISE EXCEPTION 'Choose at least one event type';
+  END IF;
+
+  IF NOT p_event_types <@ ARRAY['sync.completed', 'sync.failed', 'goal.hit', 'goal.missed'] THEN
+    RAISE EXCEPTION 'Unknown event type in %', array_to_string(p_event_types, ', ');
+  END IF;
+
+  IF p_endpoint_id IS NULL THEN
+    v_secret := 'whsec_' || replace(gen_random_uuid()::TEXT, '-', '') || replace(gen_random_uuid()::TEXT, '-', '');
+    v_secret_id := vault.create_secret(
+      v_secret,
+      'webhook_secret_' || gen_random_uuid()::TEXT,
+      'Webhook signing secret' || COALESCE(' for client ' || p_client_id::TEXT, '')
+    );
+
+    INSERT INTO public.webhook_endpoints (client_id, url, description, event_types, secret_id, is_active, created_by)
+    VALUES (
+      p_client_id,
+      btrim(p_url),
+      NULLIF(btrim(p_description), ''),
+      ARRAY(SELECT DISTINCT unnest(p_event_types)),
+      v_secret_id,
+      COALESCE(p_is_active, TRUE),
+      auth.uid()
+    )
+    RETURNING webhook_endpoints.id INTO v_id;
+
+    RETURN QUERY SELECT v_id, v_secret;
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_existing FROM public.webhook_endpoints e WHERE e.id = p_endpoint_id;
+
+  IF v_existing.id IS NULL THEN
+    RAISE EXCEPTION 'Webhook endpoint not found';
+  END IF;
+
+  -- An endpoint can't be moved between clients (or made global)
+  IF v_existing.client_id IS DISTINCT FROM p_client_id THEN
+    RAISE EXCEPTION 'Webhook endpoint belongs to a different client';
+  END IF;
+
+  UPDATE public.webhook_endpoints e
+  SET url = btrim(p_url),
+      description = NULLIF(btrim(p_description), ''),
+      event_types = ARRAY(SELECT DISTINCT unnest(p_event_types)),
+      is_active = COALESCE(p_is_active, e.is_active),
+      updated_at = NOW()
+  WHERE e.id = p_endpoint_id;
+
+  RETURN QUERY SELECT p_endpoint_id, NULL::TEXT;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Replaces the signing secret and returns the new one. Deliveries already
+-- queued are signed with the new secret when sent.
+CREATE OR REPLACE FUNCTION rotate_webhook_secret(p_endpoint_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+  v_endpoint public.webhook_endpoints%ROWTYPE;
+  v_secret TEXT;
+BEGIN
+  SELECT * INTO v_endpoint FROM public.webhook_endpoints WHERE id = p_endpoint_id;
+
+  IF v_endpoint.id IS NULL THEN
+    RAISE EXCEPTION 'Webhook endpoint not found';
+  END IF;
+
+  IF NOT can_manage_webhooks(auth.uid(), v_endpoint.client_id) THEN
+    RAISE EXCEPTION 'Not allowed to manage webhooks for this client';
+  END IF;
+
+  v_secret := 'whsec_' || replace(gen_random_uuid()::TEXT, '-', '') || replace(gen_random_uuid()::TEXT, '-', '');
+  PERFORM vault.update_secret(v_endpoint.secret_id, v_secret);
+
+  UPDATE public.webhook_endpoints SET updated_at = NOW() WHERE id = p_endpoint_id;
+
+  RETURN v_secret;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Deletes the endpoint along with its delivery log
+CREATE OR REPLACE FUNCTION delete_webhook_endpoint(p_endpoint_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_endpoint public.webhook_endpoints%ROWTYPE;
+BEGIN
+  SELECT * INTO v_endpoint FROM public.webhook_endpoints WHERE id = p_endpoint_id;
+
+  IF v_endpoint.id IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF NOT can_manage_webhooks(auth.uid(), v_endpoint.client_id) THEN
+    RAISE EXCEPTION 'Not allowed to manage webhooks for this client';
+  END IF;
+
+  DELETE FROM public.webhook_endpoints WHERE id = p_endpoint_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Queues a fresh copy of a delivery (same event id and payload) and returns
+-- its id. The caller then asks deliver-webhooks to send it right away.
+CREATE OR REPLACE FUNCTION replay_webhook_delivery(p_delivery_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_delivery public.webhook_deliveries%ROWTYPE;
+  v_endpoint_client_id UUID;
+  v_id UUID;
+BEGIN
+  SELECT * INTO v_delivery FROM public.webhook_deliveries WHERE id = p_delivery_id;
+
+  IF v_delivery.id IS NULL THEN
+    RAISE EXCEPTION 'Webhook delivery not found';
+  END IF;
+
+  SELECT client_id INTO v_endpoint_client_id
+  FROM public.webhook_endpoints WHERE id = v_delivery.endpoint_id;
+
+  IF NOT can_manage_webhooks(auth.uid(), v_endpoint_client_id) THEN
+    RAISE EXCEPTION 'Not allowed to manage webhooks for this client';
+  END IF;
+
+  INSERT INTO public.webhook_deliveries (endpoint_id, client_id, event_id, event_type, payload, replay_of)
+  VALUES (v_delivery.endpoint_id, v_delivery.client_id, v_delivery.event_id, v_delivery.event_type, v_delivery.payload, v_delivery.id)
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION save_webhook_endpoint(UUID, UUID, TEXT, TEXT, TEXT[], BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION rotate_webhook_secret(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION delete_webhook_endpoint(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION replay_webhook_delivery(UUID) TO authenticated;
+
+-- ==============================================
+-- EVENTS (SERVICE ROLE ONLY)
+-- ==============================================
+
+-- Queues p_event_type for every active endpoint of the client, and every
+-- active global endpoint, subscribed to it. Returns the number of
+-- deliveries queued. Payload:
+--   { "id", "type", "created_at", "client_id", "client_name", "data" }
+CREATE OR REPLACE FUNCTION emit_webhook_event(p_client_id UUID, p_event_type TEXT, p_data JSONB)
+RETURNS INTEGER AS $$
+DECLARE
+  v_event_id UUID := gen_random_uuid();
+  v_payload JSONB;
+  v_count INTEGER;
+BEGIN
+  v_payload := jsonb_build_object(
+    'id', v_event_id,
+    'type', p_event_type,
+    'created_at', NOW(),
+    'client_id', p_client_id,
+    'client_name', (SELECT name FROM public.clients WHERE id = p_client_id),
+    'data', COALESCE(p_data, '{}'::JSONB)
+  );
+
+  INSERT INTO public.webhook_deliveries (endpoint_id, client_id, event_id, event_type, payload)
+  SELECT e.id, p_client_id, v_event_id, p_event_type, v_payload
+  FROM public.webhook_endpoints e
+  WHERE e.is_active
+    AND p_event_type = ANY(e.event_types)
+    AND (e.client_id IS NULL OR e.client_id = p_client_id);
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Checks the client's monthly_targets (clients.goals_config) against this
+-- month's and last month's metrics. A goal is hit when its value reaches the
+-- target, or for lower-is-better goals (cpa) when it is at or under it;
+-- last month's goals that weren't hit are missed. Each outcome is
+-- recorded in goal_events and emitted once. Targets aren't versioned: a
+-- month is judged against the target in place when it's evaluated, and only
+-- if it ended after that target was set (goals_config.set_at, per goal;
+-- targets saved before set_at existed are always judged).
+--
+-- A goal's value is the sum of its matching metrics on the latest date with
+-- any, as the pacing section shows it. Mirrors goalMetrics in
+-- ProjectionsPacingSection - keep the metric names in step.
+--
+-- Returns the number of webhook deliveries queued.
+CREATE OR REPLACE FUNCTION evaluate_client_goals(p_client_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_targets JSONB;
+  v_set_at JSONB;
+  v_current_month DATE := date_trunc('month', CURRENT_DATE)::DATE;
+  v_goal RECORD;
+  v_status TEXT;
+  v_queued INTEGER := 0;
+BEGIN
+  SELECT goals_config->'monthly_targets', COALESCE(goals_config->'set_at', '{}'::JSONB)
+  INTO v_targets, v_set_at
+  FROM public.clients WHERE id = p_client_id;
+
+  IF v_targets IS NULL OR jsonb_typeof(v_targets) <> 'object' THEN
+    RETURN 0;
+  END IF;
+
+  FOR v_goal IN
+    WITH goal_metrics(goal_key, metric_names, lower_is_better) AS (
+      VALUES
+        ('ad_spend', ARRAY['spent', 'ad spend', 'spend', 'total spend'], FALSE),
+        ('booked_calls', ARRAY['calls booked', 'booked calls', 'appointments booked'], FALSE),
+        ('offer_rate', ARRAY['offer rate'], FALSE),
+        ('closes', ARRAY['closes'], FALSE),
+        ('cpa', ARRAY['cpa'], TRUE),
+        ('sales', ARRAY['revenue', 'sales revenue', 'total revenue', 'gross sale'], FALSE)
+    ),
+    months(month) AS (
+      VALUES (v_current_month), ((v_current_month - INTERVAL '1 month')::DATE)
+    ),
+    goals AS (
+      SELECT gm.goal_key, gm.metric_names, gm.lower_is_better, (v_targets->>gm.goal_key)::NUMERIC AS target,
+        (v_set_at->>gm.goal_key)::TIMESTAMPTZ AS set_at
+      FROM goal_metrics gm
+      WHERE jsonb_typeof(v_targets->gm.goal_key) = 'number'
+        AND (v_targets->>gm.goal_key)::NUMERIC > 0
+    ),
+    matched AS (
+      SELECT g.goal_key, mo.month, m.date, m.value
+      FROM goals g
+      CROSS JOIN months mo
+      JOIN public.metrics m
+        ON m.client_id = p_client_id
+        AND m.date >= mo.month
+        AND m.date < (mo.month + INTERVAL '1 month')::DATE
+        -- Synced names keep their spaces, imported ones are snake_case
+        AND EXISTS (
+          SELECT 1 FROM unnest(g.metric_names) AS n(name)
+          WHERE replace(lower(m.metric_name), '_', ' ') LIKE '%' || n.name || '%'
+        )
+    ),
+    latest AS (
+      SELECT goal_key, month, SUM(value) AS value
+      FROM matched mt
+      WHERE mt.date = (
+        SELECT MAX(x.date) FROM matched x
+        WHERE x.goal_key = mt.goal_key AND x.month = mt.month
+      )
+      GROUP BY goal_key, month
+    )
+    SELECT g.goal_key, mo.month, g.target, COALESCE(l.value, 0) AS value,
+      -- No CPA yet (0) isn't a hit
+      CASE
+        WHEN g.lower_is_better THEN COALESCE(l.value, 0) > 0 AND COALESCE(l.value, 0) <= g.target
+        ELSE COALESCE(l.value, 0) >= g.target
+      END AS hit
+    FROM goals g
+    CROSS JOIN months mo
+    LEFT JOIN latest l ON l.goal_key = g.goal_key AND l.month = mo.month
+    WHERE (g.set_at IS NULL OR g.set_at < (mo.month + INTERVAL '1 month'))
+    AND NOT EXISTS (
+      SELECT 1 FROM public.goal_events ge
+      WHERE ge.client_id = p_client_id AND ge.goal_key = g.goal_key AND ge.month = mo.month
+    )
+  LOOP
+    IF v_goal.hit THEN
+      v_status := 'hit';
+    ELSIF v_goal.month < v_current_month THEN
+      v_status := 'missed';
+    ELSE
+      CONTINUE;
+    END IF;
+
+    INSERT INTO public.goal_events (client_id, goal_key, month, status, value, target)
+    VALUES (p_client_id, v_goal.goal_key, v_goal.month, v_status, v_goal.value, v_goal.target)
+    ON CONFLICT ON CONSTRAINT goal_events_unique DO NOTHING;
+
+    -- Another evaluation got there first
+    IF NOT FOUND THEN
+      CONTINUE;
+    END IF;
+
+    v_queued := v_queued + emit_webhook_event(p_client_id, 'goal.' || v_status, jsonb_build_object(
+      'goal', v_goal.goal_key,
+      'month', to_char(v_goal.month, 'YYYY-MM'),
+      'value', v_goal.value,
+      'target', v_goal.target
+    ));
+  END LOOP;
+
+  RETURN v_queued;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Due deliveries for active endpoints, marked as delivering with their
+-- attempt counted, and the endpoint URL and secret to send them with.
+-- Deliveries stuck in delivering (a worker that died mid-send) are due
+-- again after five minutes. p_delivery_id claims one pending delivery
+-- whatever its next_attempt_at, for sending it right away.
+CREATE OR REPLACE FUNCTION claim_webhook_deliveries(p_limit INTEGER DEFAULT 50, p_delivery_id UUID DEFAULT NULL)
+RETURNS TABLE(
+  delivery_id UUID,
+  event_id UUID,
+  event_type TEXT,
+  payload JSONB,
+  attempts INTEGER,
+  url TEXT,
+  secret TEXT
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH due AS (
+    SELECT d.id
+    FROM public.webhook_deliveries d
+    JOIN public.webhook_endpoints e ON e.id = d.endpoint_id
+    WHERE e.is_active
+      AND (
+        (p_delivery_id IS NOT NULL AND d.id = p_delivery_id AND d.status = 'pending')
+        OR (p_delivery_id IS NULL AND d.status = 'pending' AND d.next_attempt_at <= NOW())
+        OR (p_delivery_id IS NULL AND d.status = 'delivering' AND d.last_attempt_at < NOW() - INTERVAL '5 minutes')
+      )
+    ORDER BY d.next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE OF d SKIP LOCKED
+  ),
+  claimed AS (
+    UPDATE public.webhook_deliveries d
+    SET status = 'delivering',
+        attempts = d.attempts + 1,
+        last_attempt_at = NOW()
+    FROM due
+    WHERE d.id = due.id
+    RETURNING d.id, d.endpoint_id, d.event_id, d.event_type, d.payload, d.attempts
+  )
+  SELECT c.id, c.event_id, c.event_type, c.payload, c.attempts, e.url, ds.decrypted_secret
+  FROM claimed c
+  JOIN public.webhook_endpoints e ON e.id = c.endpoint_id
+  JOIN vault.decrypted_secrets ds ON ds.id = e.secret_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION emit_webhook_event(UUID, TEXT, JSONB) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION evaluate_client_goals(UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION claim_webhook_deliveries(INTEGER, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION emit_webhook_event(UUID, TEXT, JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION evaluate_client_goals(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION claim_webhook_deliveries(INTEGER, UUID) TO service_role;
+
+-- For the app after goals change (updateClientGoals)
+CREATE OR REPLACE FUNCTION check_client_goals(p_client_id UUID)
+RETURNS INTEGER AS $$
+BEGIN
+  IF NOT can_access_client(auth.uid(), p_client_id) THEN
+    RAISE EXCEPTION 'Not allowed to access this client';
+  END IF;
+
+  RETURN evaluate_client_goals(p_client_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION check_client_goals(UUID) TO authenticated;
+
+-- ==============================================
+-- SCHEDULING
+-- ==============================================
+-- Syncs ask deliver-webhooks to send what they queued straight away; retries
+-- and goal events queued from the app are sent when it's called with the
+-- service role key, e.g. every minute. Goals are also evaluated after each
+-- successful sync, but a month without syncs near its end needs a daily
+-- evaluation to report its missed goals:
+--
+--   SELECT cron.schedule(
+--     'deliver-webhooks',
+--     '* * * * *',
+--     $cron$
+--     SELECT net.http_post(
+--       url := 'https://<project-ref>.supabase.co/functions/v1/deliver-webhooks',
+--       headers := jsonb_build_object(
+--         'Content-Type', 'application/json',
+--         'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+--       ),
+--       body := '{}'::jsonb
+--     );
+--     $cron$
+--   );
+--
+--   SELECT cron.schedule(
+--     'evaluate-client-goals',
+--     '15 0 * * *',
+--     $cron$ SELECT evaluate_client_goals(id) FROM public.clients $cron$
+--   );
+
+-- ==============================================
+-- VERIFICATION
+-- ==============================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.tables
+    WHERE table_schema = 'public' AND table_name = 'webhook_endpoints'
+  ) THEN
+    RAISE EXCEPTION 'Table webhook_endpoints missing';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.tables
+    WHERE table_schema = 'public' AND table_name = 'webhook_deliveries'
+  ) THEN
+    RAISE EXCEPTION 'Table webhook_deliveries missing';
+  END IF;
+
+  RAISE NOTICE '✅ webhook tables and webhook functions created';
+END $$;